@@ -4,8 +4,20 @@ import { useState, useCallback, useEffect, useRef } from "react";
 import { PointCloudViewer } from "@/components/point-cloud-viewer";
 import { FileUploader } from "@/components/file-uploader";
 import { Toolbar } from "@/components/toolbar";
-import type { PointCloudData, SelectionMode } from "@/lib/types";
+import type { CameraStart, PointCloudData, SelectionMode } from "@/lib/types";
 import { ParallelPointWorkerClient } from "@/lib/parallel-point-worker-client";
+import { getAttributeNames } from "@/lib/point-attributes";
+import type { PCDDataFormat } from "@/lib/pcd-writer";
+import type { TextParseOptions } from "@/lib/text-parser";
+import { DETECT_HEAD_BYTES, detectLoader } from "@/lib/loader-registry";
+import { ColumnMappingDialog } from "@/components/column-mapping-dialog";
+import { RangeImagePanel } from "@/components/range-image-panel";
+import { ParseErrorPanel } from "@/components/parse-error-panel";
+import { QueryPanel } from "@/components/query-panel";
+import type { PointQuery } from "@/lib/point-query";
+import { toParseErrorInfo, type ParseErrorInfo } from "@/lib/parse-error";
+import type { SelectionOp } from "@/lib/selection-ops";
+import type { ParseProgress } from "@/lib/byte-source";
 
 export default function Home() {
   const [pointCloud, setPointCloud] = useState<PointCloudData | null>(null);
@@ -14,16 +26,39 @@ export default function Home() {
     new Uint32Array()
   );
   const [isLoading, setIsLoading] = useState(false);
+  const [parseProgress, setParseProgress] = useState<ParseProgress | null>(null);
+  // 加载或导出失败时显示在错误面板中
+  const [parseError, setParseError] = useState<{
+    title: string;
+    error: ParseErrorInfo;
+  } | null>(null);
+  // PCD：是否把点变换到 VIEWPOINT 所在的世界坐标系（对下一次加载生效）
+  const [applyViewpoint, setApplyViewpoint] = useState(false);
+  const [cameraStart, setCameraStart] = useState<CameraStart>("bounds");
+  // 只选可见点：被前方点遮挡（深度超过容差）的点不会被选中
+  const [visibleOnly, setVisibleOnly] = useState(false);
+  const [depthTolerance, setDepthTolerance] = useState(0.05);
+  const [queryOpen, setQueryOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [pendingTextFile, setPendingTextFile] = useState<{
+    file: File;
+    // 识别出的加载器，确认列映射后直接交给 Worker，不再重新识别
+    format: string;
+    sample: string;
+  } | null>(null);
   const [lastSearchTime, setLastSearchTime] = useState<number>(0);
   const [lastColoringTime, setLastColoringTime] = useState<number>(0);
   const [workerCount, setWorkerCount] = useState<number>(0);
+  const [sharedMemory, setSharedMemory] = useState(false);
   const workerRef = useRef<ParallelPointWorkerClient | null>(null);
+  const parseAbortRef = useRef<AbortController | null>(null);
 
   // 初始化并保持 Worker 池
   useEffect(() => {
     const worker = new ParallelPointWorkerClient();
     workerRef.current = worker;
     setWorkerCount(worker.getWorkerCount());
+    setSharedMemory(worker.isSharedMemory());
 
     return () => {
       worker.terminate();
@@ -31,40 +66,113 @@ export default function Home() {
     };
   }, []);
 
-  const handleFileUpload = useCallback(async (file: File) => {
-    setIsLoading(true);
-    try {
-      // 将文件转换为 ArrayBuffer（二进制数据）
-      const arrayBuffer = await file.arrayBuffer();
+  const loadFile = useCallback(
+    async (file: File, loaderOptions?: unknown, format?: string) => {
+      const controller = new AbortController();
+      parseAbortRef.current = controller;
+      setIsLoading(true);
+      setParseProgress(null);
+      setParseError(null);
+      try {
+        // 🔧 使用 Worker 在后台解析文件，避免阻塞主线程
+        // 直接把 File 交给 Worker 分块读取，不再在主线程调用 file.arrayBuffer()
+        // Worker 会使用 transfer 将数据发送回主线程（零拷贝），然后重新 init 所有 Worker
+        if (!workerRef.current) {
+          throw new Error("Worker 未初始化");
+        }
 
-      // 🔧 使用 Worker 在后台解析文件，避免阻塞主线程
-      // Worker 会使用 transfer 将数据发送回主线程（零拷贝），然后重新 init 所有 Worker
-      if (!workerRef.current) {
-        throw new Error("Worker 未初始化");
-      }
+        const data = await workerRef.current.parse(file, {
+          fileName: file.name,
+          format,
+          options: loaderOptions,
+          onProgress: setParseProgress,
+          signal: controller.signal,
+        });
 
-      const data = await workerRef.current.parse(arrayBuffer);
+        setPointCloud(data);
+        setSelectedIndices(new Uint32Array());
+      } catch (error) {
+        // 用户主动取消，保留之前的点云，不需要提示
+        if (controller.signal.aborted) return;
+        console.error("Failed to parse point cloud file:", error);
+        // Worker 返回的是带错误码和位置的 PointCloudParseError，在错误面板中展示
+        setParseError({
+          title: `Failed to load ${file.name}`,
+          error: toParseErrorInfo(error),
+        });
+      } finally {
+        if (parseAbortRef.current === controller) {
+          parseAbortRef.current = null;
+        }
+        setIsLoading(false);
+        setParseProgress(null);
+      }
+    },
+    []
+  );
 
-      setPointCloud(data);
-      setSelectedIndices(new Uint32Array());
-    } catch (error) {
-      console.error("Failed to parse PCD file:", error);
-      alert("Failed to parse PCD file. Please ensure it's a valid PCD format.");
-    } finally {
-      setIsLoading(false);
-    }
+  const handleCancelParse = useCallback(() => {
+    parseAbortRef.current?.abort();
   }, []);
 
+  const handleFileUpload = useCallback(
+    async (file: File) => {
+      // 与 Worker 相同，魔数优先于扩展名：内容是 PCD 的 .txt 文件直接解析，不弹出列映射
+      const head = new Uint8Array(
+        await file.slice(0, DETECT_HEAD_BYTES).arrayBuffer()
+      );
+      const loader = detectLoader(head, file.name);
+      // 分隔文本没有固定格式，先读取开头一段用于列映射对话框
+      if (loader?.requiresOptions) {
+        const sample = await file.slice(0, 64 * 1024).text();
+        setPendingTextFile({ file, format: loader.id, sample });
+        return;
+      }
+      await loadFile(file, { applyViewpoint });
+    },
+    [loadFile, applyViewpoint]
+  );
+
+  const handleTextMappingConfirm = useCallback(
+    (options: TextParseOptions) => {
+      if (!pendingTextFile) return;
+      setPendingTextFile(null);
+      loadFile(pendingTextFile.file, options, pendingTextFile.format);
+    },
+    [pendingTextFile, loadFile]
+  );
+
   const handleSelectionComplete = useCallback(
-    (indices: Uint32Array, searchTime: number) => {
+    (indices: Uint32Array, searchTime: number, op: SelectionOp) => {
       setLastSearchTime(searchTime);
       setSelectedIndices(indices);
-      // 选择完成后自动退出套索模式
-      setSelectionMode("orbit");
+      // 替换选择完成后自动退出套索模式；按住修饰键组合选择时保持套索模式，便于连续多笔
+      // 盒子和魔棒模式保持不变，方便继续调整盒子或点选下一个区域
+      if (op === "replace") {
+        setSelectionMode((prev) =>
+          prev === "box" || prev === "wand" ? prev : "orbit"
+        );
+      }
     },
     []
   );
 
+  // 属性查询在 Worker 中执行，失败时把错误抛给查询面板展示
+  const handleRunQuery = useCallback(
+    async (query: PointQuery, op: SelectionOp) => {
+      if (!workerRef.current) return;
+
+      const { indices, searchTime } = await workerRef.current.query({
+        query,
+        op,
+        current: selectedIndices,
+      });
+      setLastSearchTime(searchTime);
+      setSelectedIndices(indices);
+    },
+    [selectedIndices]
+  );
+
   const handleClearSelection = useCallback(() => {
     setSelectedIndices(new Uint32Array());
     // 清除时间统计，还原到初始状态（保留解析时间）
@@ -104,6 +212,43 @@ export default function Home() {
     [pointCloud, selectedIndices]
   );
 
+  const handleExport = useCallback(
+    async (format: PCDDataFormat, selectedOnly: boolean) => {
+      if (!pointCloud || !workerRef.current) return;
+
+      const fileName = selectedOnly ? "selection.pcd" : "point-cloud.pcd";
+      setIsExporting(true);
+      setParseError(null);
+      try {
+        // 在 Worker 中生成文件，主线程只负责触发下载
+        const { file } = await workerRef.current.exportPCD({
+          format,
+          colors: pointCloud.colors,
+          indices: selectedOnly ? selectedIndices : undefined,
+        });
+
+        const url = URL.createObjectURL(
+          new Blob([file], { type: "application/octet-stream" })
+        );
+        const link = document.createElement("a");
+        link.href = url;
+        link.download = fileName;
+        link.click();
+        // click 只是开始下载，立即释放 URL 会让部分浏览器取消下载
+        setTimeout(() => URL.revokeObjectURL(url), 40_000);
+      } catch (error) {
+        console.error("Failed to export PCD file:", error);
+        setParseError({
+          title: `Failed to export ${fileName}`,
+          error: toParseErrorInfo(error),
+        });
+      } finally {
+        setIsExporting(false);
+      }
+    },
+    [pointCloud, selectedIndices]
+  );
+
   return (
     <main className="h-screen w-full flex flex-col bg-background">
       <header className="flex items-center justify-between px-6 py-4 border-b border-border bg-card">
@@ -111,7 +256,21 @@ export default function Home() {
           Point Cloud Viewer
         </h1>
         <div className="flex items-center gap-4">
-          <FileUploader onUpload={handleFileUpload} isLoading={isLoading} />
+          <label className="flex items-center gap-2 text-sm text-muted-foreground">
+            <input
+              type="checkbox"
+              checked={applyViewpoint}
+              onChange={(e) => setApplyViewpoint(e.target.checked)}
+              disabled={isLoading}
+            />
+            Apply PCD VIEWPOINT
+          </label>
+          <FileUploader
+            onUpload={handleFileUpload}
+            isLoading={isLoading}
+            progress={parseProgress}
+            onCancel={handleCancelParse}
+          />
         </div>
       </header>
 
@@ -122,54 +281,119 @@ export default function Home() {
           selectedCount={selectedIndices.length}
           onClearSelection={handleClearSelection}
           onColorSelection={handleColorSelection}
+          onExport={handleExport}
+          isExporting={isExporting}
+          cameraStart={cameraStart}
+          onCameraStartChange={setCameraStart}
+          visibleOnly={visibleOnly}
+          onVisibleOnlyChange={setVisibleOnly}
+          depthTolerance={depthTolerance}
+          onDepthToleranceChange={setDepthTolerance}
+          queryOpen={queryOpen}
+          onQueryToggle={() => setQueryOpen((prev) => !prev)}
         />
       )}
 
-      <div className="flex-1 relative">
-        {!pointCloud ? (
-          <div className="absolute inset-0 flex items-center justify-center">
-            <div className="text-center">
-              <div className="w-24 h-24 mx-auto mb-6 rounded-full bg-muted flex items-center justify-center">
-                <svg
-                  className="w-12 h-12 text-muted-foreground"
-                  fill="none"
-                  stroke="currentColor"
-                  viewBox="0 0 24 24"
-                >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={1.5}
-                    d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12"
-                  />
-                </svg>
+      <div className="flex-1 flex min-h-0">
+        <div className="flex-1 relative">
+          {parseError && (
+            <ParseErrorPanel
+              title={parseError.title}
+              error={parseError.error}
+              onDismiss={() => setParseError(null)}
+            />
+          )}
+          {pointCloud && queryOpen && (
+            <QueryPanel
+              pointCloud={pointCloud}
+              onRun={handleRunQuery}
+              onClose={() => setQueryOpen(false)}
+            />
+          )}
+          {!pointCloud ? (
+            <div className="absolute inset-0 flex items-center justify-center">
+              <div className="text-center">
+                <div className="w-24 h-24 mx-auto mb-6 rounded-full bg-muted flex items-center justify-center">
+                  <svg
+                    className="w-12 h-12 text-muted-foreground"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={1.5}
+                      d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12"
+                    />
+                  </svg>
+                </div>
+                <h2 className="text-lg font-semibold text-foreground mb-2">
+                  Upload a Point Cloud File
+                </h2>
+                <p className="text-muted-foreground text-sm max-w-sm">
+                  Drag and drop a point cloud file or click the upload button to
+                  get started. Supports ASCII, binary and binary_compressed PCD,
+                  ASCII or binary PLY, LAS 1.2–1.4, and XYZ / CSV / PTS text.
+                </p>
               </div>
-              <h2 className="text-lg font-semibold text-foreground mb-2">
-                Upload a Point Cloud File
-              </h2>
-              <p className="text-muted-foreground text-sm max-w-sm">
-                Drag and drop a PCD file or click the upload button to get
-                started. Supports ASCII and binary PCD formats.
-              </p>
             </div>
-          </div>
-        ) : (
-          <PointCloudViewer
+          ) : (
+            <PointCloudViewer
+              pointCloud={pointCloud}
+              selectionMode={selectionMode}
+              selectedIndices={selectedIndices}
+              onSelectionComplete={handleSelectionComplete}
+              workerClient={workerRef.current}
+              cameraStart={cameraStart}
+              visibleOnlyTolerance={visibleOnly ? depthTolerance : null}
+              onSelectionPreview={setSelectedIndices}
+            />
+          )}
+        </div>
+
+        {/* 有序点云：2D 距离 / 强度图，与 3D 视图共享选择 */}
+        {pointCloud?.grid && (
+          <RangeImagePanel
             pointCloud={pointCloud}
-            selectionMode={selectionMode}
             selectedIndices={selectedIndices}
-            onSelectionComplete={handleSelectionComplete}
-            workerClient={workerRef.current}
+            onSelect={setSelectedIndices}
           />
         )}
       </div>
 
+      {pendingTextFile && (
+        <ColumnMappingDialog
+          fileName={pendingTextFile.file.name}
+          sample={pendingTextFile.sample}
+          onConfirm={handleTextMappingConfirm}
+          onCancel={() => setPendingTextFile(null)}
+        />
+      )}
+
       {pointCloud && (
         <footer className="px-6 py-3 border-t border-border bg-card">
           <div className="flex items-center gap-6 text-sm text-muted-foreground">
             <span>Points: {pointCloud.count.toLocaleString()}</span>
             <span>Selected: {selectedIndices.length.toLocaleString()}</span>
-            <span>Workers: {workerCount}</span>
+            <span
+              title={
+                sharedMemory
+                  ? "Point data is shared by all workers"
+                  : "Each worker holds a copy of the point data (page is not cross-origin isolated)"
+              }
+            >
+              Workers: {workerCount}
+              {sharedMemory && " (shared memory)"}
+            </span>
+            {pointCloud.origin && (
+              <span title="Coordinates are stored relative to this origin">
+                Origin: {pointCloud.origin.map((v) => v.toFixed(3)).join(", ")}
+              </span>
+            )}
+            {getAttributeNames(pointCloud).length > 0 && (
+              <span>Attributes: {getAttributeNames(pointCloud).join(", ")}</span>
+            )}
             {lastSearchTime > 0 && (
               <span>搜索耗时: {lastSearchTime.toFixed(2)} ms</span>
             )}
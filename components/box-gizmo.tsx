@@ -0,0 +1,107 @@
+"use client"
+
+import { useEffect, useMemo, useRef, type RefObject } from "react"
+import { TransformControls } from "@react-three/drei"
+import * as THREE from "three"
+import type { PointCloudData } from "@/lib/types"
+
+export type BoxGizmoMode = "translate" | "rotate" | "scale"
+
+/** 裁剪盒的 shader uniform，由点云材质和盒子共享 */
+export interface CropUniforms {
+  cropInverse: { value: THREE.Matrix4 }
+  cropEnabled: { value: boolean }
+}
+
+export function createCropUniforms(): CropUniforms {
+  return {
+    cropInverse: { value: new THREE.Matrix4() },
+    cropEnabled: { value: false },
+  }
+}
+
+/**
+ * 给点云材质注入裁剪：盒子局部空间中任一分量超出 [-0.5, 0.5] 的点被移到裁剪空间之外
+ * 在 GPU 上完成，拖动盒子时不需要重新计算或上传点数据
+ */
+export function applyCropShader(shader: THREE.WebGLProgramParametersWithUniforms, uniforms: CropUniforms) {
+  shader.uniforms.cropInverse = uniforms.cropInverse
+  shader.uniforms.cropEnabled = uniforms.cropEnabled
+  shader.vertexShader =
+    "uniform mat4 cropInverse;\nuniform bool cropEnabled;\n" +
+    shader.vertexShader.replace(
+      "#include <project_vertex>",
+      `#include <project_vertex>
+  if (cropEnabled) {
+    vec3 cropLocal = (cropInverse * vec4(position, 1.0)).xyz;
+    if (any(greaterThan(abs(cropLocal), vec3(0.5)))) gl_Position = vec4(2.0, 2.0, 2.0, 1.0);
+  }`,
+    )
+}
+
+interface BoxGizmoProps {
+  pointCloud: PointCloudData
+  boxRef: RefObject<THREE.Mesh | null>
+  mode: BoxGizmoMode
+  // 是否显示平移 / 旋转 / 缩放手柄
+  showGizmo: boolean
+  // 是否显示盒子本身（裁剪开启时即使不在编辑也显示轮廓）
+  visible: boolean
+  onChange: () => void
+}
+
+/**
+ * 3D 有向包围盒：单位立方体经过位置、旋转、缩放变换
+ * 加载新点云时重置为点云包围盒的中间一半
+ */
+export function BoxGizmo({ pointCloud, boxRef, mode, showGizmo, visible, onChange }: BoxGizmoProps) {
+  // 轮廓线只需计算一次；EdgesGeometry 复制了边的数据，临时的立方体可以立即释放
+  const edges = useMemo(() => {
+    const cube = new THREE.BoxGeometry(1, 1, 1)
+    const geometry = new THREE.EdgesGeometry(cube)
+    cube.dispose()
+    return geometry
+  }, [])
+  useEffect(() => () => edges.dispose(), [edges])
+
+  // 只在换点云时重置盒子；onChange 放进 ref，父组件每次渲染传入新函数不会触发重置
+  const onChangeRef = useRef(onChange)
+  useEffect(() => {
+    onChangeRef.current = onChange
+  }, [onChange])
+
+  useEffect(() => {
+    const box = boxRef.current
+    if (!box) return
+
+    const bounds = new THREE.Box3().setFromBufferAttribute(new THREE.BufferAttribute(pointCloud.positions, 3))
+    if (bounds.isEmpty()) return
+
+    const size = bounds.getSize(new THREE.Vector3())
+    box.position.copy(bounds.getCenter(new THREE.Vector3()))
+    box.quaternion.identity()
+    // 避免平面点云得到厚度为 0 的盒子
+    box.scale.copy(size.multiplyScalar(0.5)).max(new THREE.Vector3(1e-3, 1e-3, 1e-3))
+    onChangeRef.current()
+  }, [pointCloud.positions, boxRef])
+
+  return (
+    <>
+      <mesh ref={boxRef} visible={visible}>
+        <boxGeometry args={[1, 1, 1]} />
+        <meshBasicMaterial color="#38bdf8" transparent opacity={0.08} depthWrite={false} />
+        <lineSegments geometry={edges}>
+          <lineBasicMaterial color="#38bdf8" />
+        </lineSegments>
+      </mesh>
+      {showGizmo && (
+        <TransformControls
+          object={boxRef as RefObject<THREE.Object3D>}
+          mode={mode}
+          space="local"
+          onObjectChange={onChange}
+        />
+      )}
+    </>
+  )
+}
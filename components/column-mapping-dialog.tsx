@@ -0,0 +1,148 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Button } from "@/components/ui/button"
+import {
+  sniffDelimitedText,
+  type TextColumnMapping,
+  type TextDelimiter,
+  type TextParseOptions,
+} from "@/lib/text-parser"
+
+interface ColumnMappingDialogProps {
+  fileName: string
+  // 文件开头的一段文本，用于推测格式和预览
+  sample: string
+  onConfirm: (options: TextParseOptions) => void
+  onCancel: () => void
+}
+
+const DELIMITER_LABELS: { value: TextDelimiter; label: string }[] = [
+  { value: "whitespace", label: "Whitespace" },
+  { value: ",", label: "Comma (,)" },
+  { value: ";", label: "Semicolon (;)" },
+  { value: "\t", label: "Tab" },
+]
+
+const TARGETS: { key: keyof TextColumnMapping; label: string; required: boolean }[] = [
+  { key: "x", label: "X", required: true },
+  { key: "y", label: "Y", required: true },
+  { key: "z", label: "Z", required: true },
+  { key: "r", label: "Red", required: false },
+  { key: "g", label: "Green", required: false },
+  { key: "b", label: "Blue", required: false },
+  { key: "intensity", label: "Intensity", required: false },
+]
+
+export function ColumnMappingDialog({ fileName, sample, onConfirm, onCancel }: ColumnMappingDialogProps) {
+  const initial = useMemo(() => sniffDelimitedText(sample), [sample])
+  const [delimiter, setDelimiter] = useState<TextDelimiter>(initial.delimiter)
+  const sniff = useMemo(
+    () => (delimiter === initial.delimiter ? initial : sniffDelimitedText(sample, delimiter)),
+    [delimiter, initial, sample],
+  )
+  const [columns, setColumns] = useState<TextColumnMapping>(initial.suggestedColumns)
+
+  const handleDelimiterChange = (value: TextDelimiter) => {
+    setDelimiter(value)
+    // 分隔符变化后列数会变，重新采用推测的映射
+    const next = value === initial.delimiter ? initial : sniffDelimitedText(sample, value)
+    setColumns(next.suggestedColumns)
+  }
+
+  const setColumn = (key: keyof TextColumnMapping, value: string) => {
+    setColumns((prev) => ({ ...prev, [key]: value === "" ? undefined : Number(value) }))
+  }
+
+  // 颜色需要 r/g/b 同时映射
+  const colorMapped = [columns.r, columns.g, columns.b].filter((c) => c !== undefined).length
+  const canConfirm = colorMapped === 0 || colorMapped === 3
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+      <div className="w-full max-w-2xl rounded-lg border border-border bg-card p-6 shadow-lg">
+        <h2 className="text-lg font-semibold text-foreground">Map columns</h2>
+        <p className="mt-1 text-sm text-muted-foreground">{fileName}</p>
+
+        <div className="mt-4 flex items-center gap-2 text-sm">
+          <span className="text-muted-foreground">Delimiter</span>
+          <select
+            value={delimiter}
+            onChange={(e) => handleDelimiterChange(e.target.value as TextDelimiter)}
+            className="h-8 rounded-md border bg-background px-2 text-sm"
+          >
+            {DELIMITER_LABELS.map(({ value, label }) => (
+              <option key={label} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+          {sniff.skipRows > 0 && (
+            <span className="text-muted-foreground">Skipping {sniff.skipRows} header line(s)</span>
+          )}
+        </div>
+
+        <div className="mt-4 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr>
+                {sniff.columnNames.map((name, i) => (
+                  <th key={i} className="px-2 py-1 text-left font-medium text-foreground">
+                    {name}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {sniff.previewRows.map((row, r) => (
+                <tr key={r} className="border-t border-border">
+                  {sniff.columnNames.map((_, i) => (
+                    <td key={i} className="px-2 py-1 font-mono text-muted-foreground">
+                      {row[i] ?? ""}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="mt-4 grid grid-cols-4 gap-3">
+          {TARGETS.map(({ key, label, required }) => (
+            <label key={key} className="flex flex-col gap-1 text-sm">
+              <span className="text-muted-foreground">{label}</span>
+              <select
+                value={columns[key] ?? ""}
+                onChange={(e) => setColumn(key, e.target.value)}
+                className="h-8 rounded-md border bg-background px-2 text-sm"
+              >
+                {!required && <option value="">—</option>}
+                {sniff.columnNames.map((name, i) => (
+                  <option key={i} value={i}>
+                    {name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+
+        {!canConfirm && (
+          <p className="mt-3 text-sm text-destructive">Red, green and blue must be mapped together.</p>
+        )}
+
+        <div className="mt-6 flex justify-end gap-2">
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button
+            disabled={!canConfirm}
+            onClick={() => onConfirm({ delimiter, skipRows: sniff.skipRows, columns })}
+          >
+            Load
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
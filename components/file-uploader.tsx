@@ -4,14 +4,18 @@ import type React from "react"
 
 import { useCallback, useRef } from "react"
 import { Button } from "@/components/ui/button"
-import { Upload, Loader2 } from "lucide-react"
+import { Upload, Loader2, X } from "lucide-react"
+import { getAcceptList } from "@/lib/loader-registry"
+import type { ParseProgress } from "@/lib/byte-source"
 
 interface FileUploaderProps {
   onUpload: (file: File) => void
   isLoading: boolean
+  progress?: ParseProgress | null
+  onCancel?: () => void
 }
 
-export function FileUploader({ onUpload, isLoading }: FileUploaderProps) {
+export function FileUploader({ onUpload, isLoading, progress, onCancel }: FileUploaderProps) {
   const inputRef = useRef<HTMLInputElement>(null)
 
   const handleClick = useCallback(() => {
@@ -32,13 +36,35 @@ export function FileUploader({ onUpload, isLoading }: FileUploaderProps) {
     [onUpload],
   )
 
+  const percent =
+    progress && progress.totalBytes > 0 ? Math.min(100, Math.round((progress.bytesProcessed / progress.totalBytes) * 100)) : 0
+
   return (
     <>
-      <input ref={inputRef} type="file" accept=".pcd" onChange={handleChange} className="hidden" />
+      <input ref={inputRef} type="file" accept={getAcceptList()} onChange={handleChange} className="hidden" />
       <Button onClick={handleClick} disabled={isLoading}>
         {isLoading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
-        {isLoading ? "Loading..." : "Upload PCD"}
+        {isLoading ? "Loading..." : "Upload Point Cloud"}
       </Button>
+      {isLoading && (
+        <div className="flex items-center gap-2">
+          <div className="w-32 h-2 rounded-full bg-muted overflow-hidden">
+            <div
+              className="h-full bg-primary transition-[width] duration-150"
+              style={{ width: `${percent}%` }}
+            />
+          </div>
+          <span className="text-xs text-muted-foreground tabular-nums whitespace-nowrap">
+            {percent}%{progress ? ` · ${progress.pointsDecoded.toLocaleString()} points` : ""}
+          </span>
+          {onCancel && (
+            <Button variant="outline" size="sm" onClick={onCancel}>
+              <X className="w-4 h-4 mr-1" />
+              Cancel
+            </Button>
+          )}
+        </div>
+      )}
     </>
   )
 }
@@ -2,17 +2,40 @@
 
 import type React from "react"
 
-import { useRef, useEffect, useState, useCallback } from "react"
+import { useRef, useEffect, useCallback } from "react"
 import type { LassoPoint } from "@/lib/types"
+import { selectionOpFromModifiers, type SelectionOp } from "@/lib/selection-ops"
+import { useDprCanvas } from "@/hooks/use-dpr-canvas"
 
 interface LassoOverlayProps {
-  onComplete: (path: LassoPoint[]) => void
+  onComplete: (path: LassoPoint[], op: SelectionOp) => void
+  // 绘制过程中路径每次延长时调用，path 会被继续修改，需要保留时应自行复制
+  onChange?: (path: LassoPoint[], op: SelectionOp) => void
+  // 笔迹被取消（Esc、第二根手指按下或系统中断触摸）时调用，不产生选择
+  onCancel?: () => void
 }
 
-export function LassoOverlay({ onComplete }: LassoOverlayProps) {
+// 按组合方式区分笔迹颜色：替换 / 添加 / 减去 / 相交
+export const STROKE_COLORS: Record<SelectionOp, string> = {
+  replace: "#ef4444",
+  add: "#22c55e",
+  subtract: "#f59e0b",
+  intersect: "#3b82f6",
+}
+
+const FILL_ALPHA = 0.15
+
+/**
+ * 套索：鼠标、触摸和手写笔按下后拖动绘制，抬起时闭合路径完成选择
+ * 按下时捕获指针，拖出画布或经过面板都不会中断笔迹；只有主指针绘制，多指手势取消当前笔迹
+ */
+export function LassoOverlay({ onComplete, onChange, onCancel }: LassoOverlayProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null)
-  const [isDrawing, setIsDrawing] = useState(false)
+  // 正在绘制的指针，未绘制时为 null
+  const pointerIdRef = useRef<number | null>(null)
   const pathRef = useRef<LassoPoint[]>([])
+  // 当前按下的修饰键对应的组合方式，抬起时以此为准
+  const opRef = useRef<SelectionOp>("replace")
 
   const draw = useCallback(() => {
     const canvas = canvasRef.current
@@ -21,7 +44,10 @@ export function LassoOverlay({ onComplete }: LassoOverlayProps) {
     const ctx = canvas.getContext("2d")
     if (!ctx) return
 
-    ctx.clearRect(0, 0, canvas.width, canvas.height)
+    // 画布按物理像素分配，绘制时仍使用 CSS 像素坐标
+    const dpr = window.devicePixelRatio || 1
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0)
+    ctx.clearRect(0, 0, canvas.width / dpr, canvas.height / dpr)
 
     const path = pathRef.current
     if (path.length < 2) return
@@ -32,73 +58,110 @@ export function LassoOverlay({ onComplete }: LassoOverlayProps) {
     for (let i = 1; i < path.length; i++) {
       ctx.lineTo(path[i].x, path[i].y)
     }
+    // 闭合路径：与 Worker 中多边形判定的区域一致
+    ctx.closePath()
 
-    // Draw red dashed stroke (不闭合路径)
-    ctx.strokeStyle = "#ef4444"
+    const color = STROKE_COLORS[opRef.current]
+    ctx.globalAlpha = FILL_ALPHA
+    ctx.fillStyle = color
+    ctx.fill()
+
+    ctx.globalAlpha = 1
+    ctx.strokeStyle = color
     ctx.lineWidth = 2
     ctx.setLineDash([5, 5])
     ctx.stroke()
   }, [])
 
-  const handleMouseDown = useCallback(
-    (e: React.MouseEvent) => {
-      setIsDrawing(true)
-      pathRef.current = [{ x: e.nativeEvent.offsetX, y: e.nativeEvent.offsetY }]
+  const toLocal = (e: React.PointerEvent<HTMLCanvasElement>): LassoPoint => {
+    const bounds = e.currentTarget.getBoundingClientRect()
+    return { x: e.clientX - bounds.left, y: e.clientY - bounds.top }
+  }
+
+  const cancel = useCallback(() => {
+    const canvas = canvasRef.current
+    const pointerId = pointerIdRef.current
+    if (pointerId === null) return
+
+    pointerIdRef.current = null
+    pathRef.current = []
+    if (canvas?.hasPointerCapture(pointerId)) {
+      canvas.releasePointerCapture(pointerId)
+    }
+    draw()
+    onCancel?.()
+  }, [draw, onCancel])
+
+  const handlePointerDown = useCallback(
+    (e: React.PointerEvent<HTMLCanvasElement>) => {
+      // 绘制中又有手指按下，说明用户想做双指手势，放弃这次笔迹
+      if (pointerIdRef.current !== null) {
+        cancel()
+        return
+      }
+      if (!e.isPrimary || (e.pointerType === "mouse" && e.button !== 0)) return
+
+      e.currentTarget.setPointerCapture(e.pointerId)
+      pointerIdRef.current = e.pointerId
+      opRef.current = selectionOpFromModifiers(e)
+      pathRef.current = [toLocal(e)]
     },
-    [],
+    [cancel],
   )
 
-  const handleMouseMove = useCallback(
-    (e: React.MouseEvent) => {
-      if (!isDrawing) return
+  const handlePointerMove = useCallback(
+    (e: React.PointerEvent<HTMLCanvasElement>) => {
+      if (e.pointerId !== pointerIdRef.current) return
 
-      const newPoint = { x: e.nativeEvent.offsetX, y: e.nativeEvent.offsetY }
-      // 优化：直接 push 而不是创建新数组，避免每次 mousemove 都分配新内存
-      pathRef.current.push(newPoint)
+      opRef.current = selectionOpFromModifiers(e)
+      // 优化：直接 push 而不是创建新数组，避免每次 pointermove 都分配新内存
+      pathRef.current.push(toLocal(e))
       draw()
+      onChange?.(pathRef.current, opRef.current)
     },
-    [isDrawing, draw],
+    [draw, onChange],
   )
 
-  const handleMouseUp = useCallback(() => {
-    if (!isDrawing) return
+  const handlePointerUp = useCallback(
+    (e: React.PointerEvent<HTMLCanvasElement>) => {
+      if (e.pointerId !== pointerIdRef.current) return
 
-    setIsDrawing(false)
-    onComplete(pathRef.current)
-    pathRef.current = []
+      pointerIdRef.current = null
+      onComplete(pathRef.current, opRef.current)
+      pathRef.current = []
+      draw()
+    },
+    [onComplete, draw],
+  )
 
-    // Clear canvas
-    const canvas = canvasRef.current
-    if (canvas) {
-      const ctx = canvas.getContext("2d")
-      if (ctx) {
-        ctx.clearRect(0, 0, canvas.width, canvas.height)
-      }
-    }
-  }, [isDrawing, onComplete])
+  // 系统中断触摸（如来电、手势被浏览器接管）时取消笔迹
+  const handlePointerCancel = useCallback(
+    (e: React.PointerEvent<HTMLCanvasElement>) => {
+      if (e.pointerId === pointerIdRef.current) cancel()
+    },
+    [cancel],
+  )
 
   useEffect(() => {
-    const canvas = canvasRef.current
-    if (!canvas) return
-
-    const handleResize = () => {
-      canvas.width = canvas.offsetWidth
-      canvas.height = canvas.offsetHeight
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") cancel()
     }
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [cancel])
 
-    handleResize()
-    window.addEventListener("resize", handleResize)
-    return () => window.removeEventListener("resize", handleResize)
-  }, [])
+  // 调整尺寸会清空画布，绘制中需要重画
+  useDprCanvas(canvasRef, draw)
 
   return (
     <canvas
       ref={canvasRef}
-      className="absolute inset-0 w-full h-full cursor-crosshair"
-      onMouseDown={handleMouseDown}
-      onMouseMove={handleMouseMove}
-      onMouseUp={handleMouseUp}
-      onMouseLeave={handleMouseUp}
+      // touch-none：触摸绘制时不触发页面滚动和缩放
+      className="absolute inset-0 w-full h-full cursor-crosshair touch-none"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerCancel}
     />
   )
 }
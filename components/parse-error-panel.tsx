@@ -0,0 +1,58 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { AlertTriangle, X } from "lucide-react"
+import type { ParseErrorInfo } from "@/lib/parse-error"
+
+interface ParseErrorPanelProps {
+  title: string
+  error: ParseErrorInfo
+  onDismiss: () => void
+}
+
+/**
+ * 加载或导出失败时显示的错误面板：错误码、出错位置以及期望值与实际值
+ */
+export function ParseErrorPanel({ title, error, onDismiss }: ParseErrorPanelProps) {
+  const rows: [string, string][] = []
+  if (error.location) {
+    rows.push([
+      "Location",
+      error.location.kind === "line"
+        ? `line ${error.location.value.toLocaleString()}`
+        : `byte ${error.location.value.toLocaleString()}`,
+    ])
+  }
+  if (error.expected !== undefined) rows.push(["Expected", String(error.expected)])
+  if (error.actual !== undefined) rows.push(["Actual", String(error.actual)])
+
+  return (
+    <div className="absolute top-4 left-1/2 -translate-x-1/2 z-20 w-[32rem] max-w-[calc(100%-2rem)] rounded-lg border border-destructive/50 bg-card shadow-lg">
+      <div className="flex items-start gap-3 p-4">
+        <AlertTriangle className="w-5 h-5 mt-0.5 shrink-0 text-destructive" />
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2">
+            <h3 className="text-sm font-semibold text-foreground truncate">{title}</h3>
+            <span className="rounded bg-destructive/10 px-1.5 py-0.5 font-mono text-xs text-destructive">
+              {error.code}
+            </span>
+          </div>
+          <p className="mt-1 text-sm text-muted-foreground break-words">{error.message}</p>
+          {rows.length > 0 && (
+            <dl className="mt-3 grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-xs">
+              {rows.map(([label, value]) => (
+                <div key={label} className="contents">
+                  <dt className="text-muted-foreground">{label}</dt>
+                  <dd className="font-mono text-foreground break-all">{value}</dd>
+                </div>
+              ))}
+            </dl>
+          )}
+        </div>
+        <Button variant="ghost" size="sm" onClick={onDismiss} className="h-7 w-7 p-0">
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -1,27 +1,88 @@
 "use client";
 
-import { useRef, useEffect, useState, useCallback } from "react";
+import type React from "react";
+import { useRef, useEffect, useState, useCallback, useMemo } from "react";
 import { Canvas, useThree } from "@react-three/fiber";
 import { OrbitControls } from "@react-three/drei";
 import * as THREE from "three";
-import type { PointCloudData, SelectionMode, LassoPoint } from "@/lib/types";
-import { LassoOverlay } from "./lasso-overlay";
+import type {
+  CameraStart,
+  PointCloudData,
+  SelectionMode,
+  SelectionShape,
+  LassoPoint,
+} from "@/lib/types";
+import { LassoOverlay, STROKE_COLORS } from "./lasso-overlay";
+import { ShapeOverlay } from "./shape-overlay";
+import { PolygonOverlay } from "./polygon-overlay";
+import {
+  BoxGizmo,
+  applyCropShader,
+  createCropUniforms,
+  type BoxGizmoMode,
+  type CropUniforms,
+} from "./box-gizmo";
+import { PointTooltip } from "./point-tooltip";
+import {
+  WandPanel,
+  DEFAULT_WAND_SETTINGS,
+  type WandSettings,
+} from "./wand-panel";
+import { Button } from "@/components/ui/button";
+import { Move, Rotate3d, Scaling, Crop, BoxSelect } from "lucide-react";
 import { ParallelPointWorkerClient } from "@/lib/parallel-point-worker-client";
+import { sensorCameraPose } from "@/lib/viewpoint";
+import {
+  selectionOpFromModifiers,
+  type SelectionOp,
+} from "@/lib/selection-ops";
 
 interface PointCloudViewerProps {
   pointCloud: PointCloudData;
   selectionMode: SelectionMode;
   selectedIndices: Uint32Array;
-  onSelectionComplete: (indices: Uint32Array, searchTime: number) => void;
+  onSelectionComplete: (
+    indices: Uint32Array,
+    searchTime: number,
+    op: SelectionOp
+  ) => void;
   workerClient?: ParallelPointWorkerClient | null;
+  cameraStart?: CameraStart;
+  // 不为 null 时只选可见点，值为深度容差
+  visibleOnlyTolerance?: number | null;
+  // 魔棒生长过程中的中间结果（已与已有选择组合）
+  onSelectionPreview?: (indices: Uint32Array) => void;
+}
+
+// 拾取：屏幕容差（像素）、相对深度容差，以及按下到抬起移动不超过多少像素算作点击
+const PICK_RADIUS = 6;
+const PICK_DEPTH_TOLERANCE = 0.01;
+const CLICK_SLOP = 3;
+// 套索预览请求的最小间隔（毫秒）
+const LASSO_PREVIEW_INTERVAL = 100;
+
+interface PickState {
+  index: number;
+  x: number;
+  y: number;
+  // 点击固定的提示不随悬停更新
+  pinned: boolean;
+}
+
+// 套索当前路径命中的点（未与已有选择组合），以及松开后将使用的组合方式
+interface LassoPreview {
+  indices: Uint32Array;
+  op: SelectionOp;
 }
 
 function PointCloudMesh({
   pointCloud,
   selectedIndices,
+  cropUniforms,
 }: {
   pointCloud: PointCloudData;
   selectedIndices: Uint32Array;
+  cropUniforms: CropUniforms;
 }) {
   const pointsRef = useRef<THREE.Points>(null);
   // 🚀 记录上一次的 positions 引用，用于判断是否需要重新计算边界球
@@ -114,63 +175,199 @@ function PointCloudMesh({
     // 使用react-three-fiber 来代替传统Three.js的api，自动管理Three.js的实例生命周期，避免内存泄漏。
     <points ref={pointsRef}>
       <bufferGeometry />
-      <pointsMaterial size={0.02} vertexColors sizeAttenuation />
+      <pointsMaterial
+        size={0.02}
+        vertexColors
+        sizeAttenuation
+        onBeforeCompile={(shader) => applyCropShader(shader, cropUniforms)}
+      />
+    </points>
+  );
+}
+
+/** 高亮拾取到的点 */
+function PickMarker({
+  pointCloud,
+  index,
+}: {
+  pointCloud: PointCloudData;
+  index: number;
+}) {
+  const position = useMemo(
+    () => pointCloud.positions.slice(index * 3, index * 3 + 3),
+    [pointCloud.positions, index]
+  );
+
+  return (
+    <points renderOrder={1}>
+      <bufferGeometry>
+        <bufferAttribute attach="attributes-position" args={[position, 3]} />
+      </bufferGeometry>
+      <pointsMaterial
+        size={8}
+        sizeAttenuation={false}
+        color="#facc15"
+        depthTest={false}
+      />
+    </points>
+  );
+}
+
+/** 套索绘制过程中的候选点，颜色与笔迹一致 */
+function SelectionPreview({
+  pointCloud,
+  indices,
+  color,
+}: {
+  pointCloud: PointCloudData;
+  indices: Uint32Array;
+  color: string;
+}) {
+  const geometry = useMemo(() => {
+    const positions = new Float32Array(indices.length * 3);
+    for (let j = 0; j < indices.length; j++) {
+      const i = indices[j] * 3;
+      positions[j * 3] = pointCloud.positions[i];
+      positions[j * 3 + 1] = pointCloud.positions[i + 1];
+      positions[j * 3 + 2] = pointCloud.positions[i + 2];
+    }
+    const next = new THREE.BufferGeometry();
+    next.setAttribute("position", new THREE.BufferAttribute(positions, 3));
+    return next;
+  }, [pointCloud.positions, indices]);
+
+  // 预览随路径频繁更新，及时释放上一次的 GPU 缓冲
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  return (
+    <points geometry={geometry} renderOrder={1}>
+      <pointsMaterial size={3} sizeAttenuation={false} color={color} />
     </points>
   );
 }
 
+interface InitialCameraPose {
+  position: THREE.Vector3;
+  target: THREE.Vector3;
+  up: THREE.Vector3;
+}
+
+/**
+ * 计算初始相机位姿
+ * - bounds：位于包围盒对角线方向，看向包围盒中心
+ * - sensor：位于 VIEWPOINT 描述的传感器位置，沿传感器朝向观察
+ */
+function computeInitialCameraPose(
+  pointCloud: Pick<PointCloudData, "positions" | "metadata" | "origin">,
+  cameraStart: CameraStart
+): InitialCameraPose {
+  // Calculate bounding box
+  const positions = pointCloud.positions;
+  let minX = Number.POSITIVE_INFINITY,
+    minY = Number.POSITIVE_INFINITY,
+    minZ = Number.POSITIVE_INFINITY;
+  let maxX = Number.NEGATIVE_INFINITY,
+    maxY = Number.NEGATIVE_INFINITY,
+    maxZ = Number.NEGATIVE_INFINITY;
+
+  for (let i = 0; i < positions.length; i += 3) {
+    minX = Math.min(minX, positions[i]);
+    maxX = Math.max(maxX, positions[i]);
+    minY = Math.min(minY, positions[i + 1]);
+    maxY = Math.max(maxY, positions[i + 1]);
+    minZ = Math.min(minZ, positions[i + 2]);
+    maxZ = Math.max(maxZ, positions[i + 2]);
+  }
+
+  const center = new THREE.Vector3(
+    (minX + maxX) / 2,
+    (minY + maxY) / 2,
+    (minZ + maxZ) / 2
+  );
+  const size = Math.max(maxX - minX, maxY - minY, maxZ - minZ);
+
+  if (cameraStart === "sensor" && pointCloud.metadata) {
+    const sensor = sensorCameraPose(
+      pointCloud.metadata.viewpoint,
+      !!pointCloud.metadata.viewpointApplied
+    );
+    // positions 是减去 origin 后的相对坐标，传感器位置也要同样平移
+    const origin = pointCloud.origin ?? [0, 0, 0];
+    const position = new THREE.Vector3(
+      sensor.position[0] - origin[0],
+      sensor.position[1] - origin[1],
+      sensor.position[2] - origin[2]
+    );
+    const forward = new THREE.Vector3(...sensor.forward);
+    // 轨道控制需要一个旋转中心：取视线方向上与包围盒中心等距的点
+    const distance = Math.max(position.distanceTo(center), size * 0.1, 0.1);
+    return {
+      position,
+      target: position.clone().addScaledVector(forward, distance),
+      up: new THREE.Vector3(...sensor.up),
+    };
+  }
+
+  return {
+    position: new THREE.Vector3(
+      center.x + size,
+      center.y + size,
+      center.z + size
+    ),
+    target: center,
+    up: new THREE.Vector3(0, 1, 0),
+  };
+}
+
 function CameraController({
   pointCloud,
   selectionMode,
+  cameraStart,
 }: {
   pointCloud: PointCloudData;
   selectionMode: SelectionMode;
+  cameraStart: CameraStart;
 }) {
   const { camera } = useThree();
   const controlsRef = useRef<any>(null);
-  const initialized = useRef(false);
-
-  useEffect(() => {
-    if (initialized.current) return;
-    initialized.current = true;
-
-    // Calculate bounding box
-    const positions = pointCloud.positions;
-    let minX = Number.POSITIVE_INFINITY,
-      minY = Number.POSITIVE_INFINITY,
-      minZ = Number.POSITIVE_INFINITY;
-    let maxX = Number.NEGATIVE_INFINITY,
-      maxY = Number.NEGATIVE_INFINITY,
-      maxZ = Number.NEGATIVE_INFINITY;
-
-    for (let i = 0; i < positions.length; i += 3) {
-      minX = Math.min(minX, positions[i]);
-      maxX = Math.max(maxX, positions[i]);
-      minY = Math.min(minY, positions[i + 1]);
-      maxY = Math.max(maxY, positions[i + 1]);
-      minZ = Math.min(minZ, positions[i + 2]);
-      maxZ = Math.max(maxZ, positions[i + 2]);
-    }
-
-    const centerX = (minX + maxX) / 2;
-    const centerY = (minY + maxY) / 2;
-    const centerZ = (minZ + maxZ) / 2;
 
-    const size = Math.max(maxX - minX, maxY - minY, maxZ - minZ);
+  // 只在加载新点云（positions 引用变化）或切换初始视角时重新定位相机，上色不会触发
+  const { positions, metadata, origin } = pointCloud;
+  const pose = useMemo(() => {
+    const next = computeInitialCameraPose(
+      { positions, metadata, origin },
+      cameraStart
+    );
+    // OrbitControls 在创建时读取 camera.up，必须在控制器重新创建（子组件渲染）之前更新
+    camera.up.copy(next.up);
+    return next;
+  }, [positions, metadata, origin, cameraStart, camera]);
+  // 上方向变化时通过 key 重新创建控制器
+  const controlsKey = pose.up.toArray().join(",");
 
-    camera.position.set(centerX + size, centerY + size, centerZ + size);
-    camera.lookAt(centerX, centerY, centerZ);
+  useEffect(() => {
+    camera.position.copy(pose.position);
+    camera.lookAt(pose.target);
 
     if (controlsRef.current) {
-      controlsRef.current.target.set(centerX, centerY, centerZ);
+      controlsRef.current.target.copy(pose.target);
       controlsRef.current.update();
     }
-  }, [pointCloud, camera]);
+  }, [pose, camera]);
 
   return (
     <OrbitControls
+      key={controlsKey}
       ref={controlsRef}
-      enabled={selectionMode === "orbit"}
+      // 盒子模式下仍可旋转视角，拖动手柄时由 TransformControls 临时禁用（需 makeDefault）
+      enabled={
+        selectionMode === "orbit" ||
+        selectionMode === "box" ||
+        selectionMode === "wand"
+      }
+      makeDefault
+      // 触摸：单指旋转，双指捏合缩放并平移
+      touches={{ ONE: THREE.TOUCH.ROTATE, TWO: THREE.TOUCH.DOLLY_PAN }}
       enableDamping
       dampingFactor={0.05}
     />
@@ -182,10 +379,26 @@ function SceneContent({
   selectionMode,
   selectedIndices,
   onComputeProjection,
+  cameraStart,
+  boxRef,
+  boxMode,
+  cropEnabled,
+  cropUniforms,
+  onBoxChange,
+  pickedIndex,
+  lassoPreview,
 }: {
   pointCloud: PointCloudData;
   selectionMode: SelectionMode;
   selectedIndices: Uint32Array;
+  cameraStart: CameraStart;
+  boxRef: React.RefObject<THREE.Mesh | null>;
+  boxMode: BoxGizmoMode;
+  cropEnabled: boolean;
+  cropUniforms: CropUniforms;
+  onBoxChange: () => void;
+  pickedIndex: number | null;
+  lassoPreview: LassoPreview | null;
   onComputeProjection: (
     compute: () => {
       viewProjectionMatrix: Float32Array;
@@ -221,8 +434,31 @@ function SceneContent({
       <PointCloudMesh
         pointCloud={pointCloud}
         selectedIndices={selectedIndices}
+        cropUniforms={cropUniforms}
+      />
+      <BoxGizmo
+        pointCloud={pointCloud}
+        boxRef={boxRef}
+        mode={boxMode}
+        showGizmo={selectionMode === "box"}
+        visible={selectionMode === "box" || cropEnabled}
+        onChange={onBoxChange}
+      />
+      {pickedIndex !== null && (
+        <PickMarker pointCloud={pointCloud} index={pickedIndex} />
+      )}
+      {lassoPreview && (
+        <SelectionPreview
+          pointCloud={pointCloud}
+          indices={lassoPreview.indices}
+          color={STROKE_COLORS[lassoPreview.op]}
+        />
+      )}
+      <CameraController
+        pointCloud={pointCloud}
+        selectionMode={selectionMode}
+        cameraStart={cameraStart}
       />
-      <CameraController pointCloud={pointCloud} selectionMode={selectionMode} />
     </>
   );
 }
@@ -233,8 +469,41 @@ export function PointCloudViewer({
   selectedIndices,
   onSelectionComplete,
   workerClient,
+  cameraStart = "bounds",
+  visibleOnlyTolerance = null,
+  onSelectionPreview,
 }: PointCloudViewerProps) {
   const [lassoPath, setLassoPath] = useState<LassoPoint[]>([]);
+  const [boxMode, setBoxMode] = useState<BoxGizmoMode>("translate");
+  const [cropEnabled, setCropEnabled] = useState(false);
+  const boxRef = useRef<THREE.Mesh>(null);
+  // 裁剪盒的逆矩阵直接写入 uniform，拖动手柄时不触发 React 重新渲染
+  const cropUniforms = useMemo(createCropUniforms, []);
+  const [pick, setPick] = useState<PickState | null>(null);
+  // 同一时间只有一次拾取在 Worker 中执行，期间的新请求只保留最后一次
+  const pickBusyRef = useRef(false);
+  const pendingPickRef = useRef<{ x: number; y: number; pin: boolean } | null>(
+    null
+  );
+  const pointerDownRef = useRef<{ x: number; y: number } | null>(null);
+  const [wandSettings, setWandSettings] = useState<WandSettings>(
+    DEFAULT_WAND_SETTINGS
+  );
+  const [wandError, setWandError] = useState<string | null>(null);
+  // 进行中的区域生长；base 为开始生长前的选择，预览期间 selectedIndices 已被中间结果替换
+  const [isGrowing, setIsGrowing] = useState(false);
+  const growRef = useRef<{
+    controller: AbortController;
+    base: Uint32Array;
+  } | null>(null);
+  const [lassoPreview, setLassoPreview] = useState<LassoPreview | null>(null);
+  // 预览请求的节流状态：同一时间只有一个请求在执行，期间到来的路径只保留最新的一条
+  const lassoPreviewRef = useRef<{
+    controller: AbortController | null;
+    latest: { path: LassoPoint[]; op: SelectionOp } | null;
+    timer: number | null;
+    lastRun: number;
+  }>({ controller: null, latest: null, timer: null, lastRun: 0 });
   // 存储相机矩阵/视口计算函数，在套索完成时交由 Worker 使用
   const computeProjectionRef = useRef<
     | (() => {
@@ -244,6 +513,15 @@ export function PointCloudViewer({
     | null
   >(null);
 
+  // 开启裁剪时盒外的点只是被 GPU 隐藏，选择、拾取和魔棒也要在 Worker 中排除它们
+  const getCrop = useCallback(
+    () =>
+      cropEnabled
+        ? Array.from(cropUniforms.cropInverse.value.elements)
+        : undefined,
+    [cropEnabled, cropUniforms]
+  );
+
   const handleComputeProjection = useCallback(
     (
       compute: () => {
@@ -256,9 +534,10 @@ export function PointCloudViewer({
     []
   );
 
-  const handleLassoComplete = useCallback(
-    async (path: LassoPoint[]) => {
-      if (path.length < 3) {
+  // 所有选择工具共用 Worker 的 select 流程，只是屏幕空间区域的形状不同
+  const handleShapeComplete = useCallback(
+    async (shape: SelectionShape, op: SelectionOp) => {
+      if (shape.kind === "polygon" && shape.path.length < 3) {
         return;
       }
 
@@ -272,21 +551,341 @@ export function PointCloudViewer({
 
       try {
         const { indices, searchTime } = await workerClient.select({
-          path,
+          shape,
+          viewProjectionMatrix: cameraInfo.viewProjectionMatrix,
+          viewport: cameraInfo.viewport,
+          op,
+          current: selectedIndices,
+          visibleOnly:
+            visibleOnlyTolerance !== null
+              ? { tolerance: visibleOnlyTolerance }
+              : undefined,
+          crop: getCrop(),
+        });
+
+        onSelectionComplete(indices, searchTime, op);
+      } catch (error) {
+        console.error("选点 Worker 计算失败", error);
+      }
+    },
+    [
+      onSelectionComplete,
+      workerClient,
+      selectedIndices,
+      visibleOnlyTolerance,
+      getCrop,
+    ]
+  );
+
+  // 盒子的局部空间为 [-0.5, 0.5]^3，其世界矩阵的逆矩阵同时用于 Worker 选点和 GPU 裁剪
+  const getBoxInverse = useCallback(() => {
+    const box = boxRef.current;
+    if (!box) return null;
+    box.updateMatrixWorld();
+    return box.matrixWorld.clone().invert();
+  }, []);
+
+  const handleBoxChange = useCallback(() => {
+    const inverse = getBoxInverse();
+    if (inverse) cropUniforms.cropInverse.value.copy(inverse);
+  }, [getBoxInverse, cropUniforms]);
+
+  useEffect(() => {
+    cropUniforms.cropEnabled.value = cropEnabled;
+  }, [cropEnabled, cropUniforms]);
+
+  const handleBoxSelect = useCallback(
+    (e: React.MouseEvent) => {
+      const inverse = getBoxInverse();
+      if (!inverse) return;
+      handleShapeComplete(
+        { kind: "box", inverseMatrix: Array.from(inverse.elements) },
+        selectionOpFromModifiers(e)
+      );
+    },
+    [getBoxInverse, handleShapeComplete]
+  );
+
+  // 加载新点云、切换模式或选择变化后，之前拾取的点不再有效
+  useEffect(() => {
+    setPick(null);
+  }, [pointCloud.positions, selectionMode, selectedIndices]);
+
+  const runPick = useCallback(
+    async (x: number, y: number, pin: boolean) => {
+      if (pickBusyRef.current) {
+        // 点击优先于悬停，不会被随后的悬停覆盖
+        if (!pendingPickRef.current?.pin || pin) {
+          pendingPickRef.current = { x, y, pin };
+        }
+        return;
+      }
+
+      const cameraInfo = computeProjectionRef.current?.();
+      if (!cameraInfo || !workerClient) return;
+
+      pickBusyRef.current = true;
+      try {
+        const { index } = await workerClient.pick({
+          x,
+          y,
           viewProjectionMatrix: cameraInfo.viewProjectionMatrix,
           viewport: cameraInfo.viewport,
+          radius: PICK_RADIUS,
+          depthTolerance: PICK_DEPTH_TOLERANCE,
+          // 有选择时只渲染选中的点，也只在这些点中拾取
+          within: selectedIndices.length > 0 ? selectedIndices : undefined,
+          crop: getCrop(),
+        });
+
+        setPick((prev) => {
+          if (pin) return index >= 0 ? { index, x, y, pinned: true } : null;
+          if (prev?.pinned) return prev;
+          return index >= 0 ? { index, x, y, pinned: false } : null;
         });
+      } catch (error) {
+        console.error("拾取 Worker 计算失败", error);
+      } finally {
+        pickBusyRef.current = false;
+      }
+
+      const pending = pendingPickRef.current;
+      if (pending) {
+        pendingPickRef.current = null;
+        runPick(pending.x, pending.y, pending.pin);
+      }
+    },
+    [workerClient, selectedIndices, getCrop]
+  );
+
+  const cancelGrow = useCallback(() => {
+    growRef.current?.controller.abort();
+  }, []);
+
+  // 魔棒：先拾取种子点，再在 Worker 中区域生长；新的点击会中止进行中的生长
+  const runWand = useCallback(
+    async (x: number, y: number, op: SelectionOp) => {
+      const cameraInfo = computeProjectionRef.current?.();
+      if (!cameraInfo || !workerClient) return;
 
-        onSelectionComplete(indices, searchTime);
+      const base = growRef.current?.base ?? selectedIndices;
+      growRef.current?.controller.abort();
+      const controller = new AbortController();
+      growRef.current = { controller, base };
+      setWandError(null);
+      setIsGrowing(true);
+      const crop = getCrop();
+
+      try {
+        const { index: seed } = await workerClient.pick({
+          x,
+          y,
+          viewProjectionMatrix: cameraInfo.viewProjectionMatrix,
+          viewport: cameraInfo.viewport,
+          radius: PICK_RADIUS,
+          depthTolerance: PICK_DEPTH_TOLERANCE,
+          within: base.length > 0 ? base : undefined,
+          crop,
+        });
+        if (seed < 0 || controller.signal.aborted) return;
+
+        const { indices, searchTime } = await workerClient.grow({
+          seed,
+          ...wandSettings,
+          crop,
+          op,
+          current: base,
+          onPartial: onSelectionPreview,
+          signal: controller.signal,
+        });
+        onSelectionComplete(indices, searchTime, op);
       } catch (error) {
-        console.error("套索选点 Worker 计算失败", error);
+        if (controller.signal.aborted) {
+          // 被取消的生长恢复之前的选择；被新的生长取代时由新的生长负责
+          if (growRef.current?.controller === controller) {
+            onSelectionPreview?.(base);
+          }
+          return;
+        }
+        console.error("区域生长失败", error);
+        setWandError(
+          error instanceof Error ? error.message : "Region growing failed"
+        );
+        // 恢复生长前的选择，丢弃中间结果
+        onSelectionPreview?.(base);
+      } finally {
+        if (growRef.current?.controller === controller) {
+          growRef.current = null;
+          setIsGrowing(false);
+        }
       }
     },
-    [onSelectionComplete, workerClient]
+    [
+      workerClient,
+      selectedIndices,
+      wandSettings,
+      getCrop,
+      onSelectionComplete,
+      onSelectionPreview,
+    ]
+  );
+
+  // 切换模式或卸载时中止生长；Esc 同样中止
+  useEffect(() => {
+    if (selectionMode !== "wand") return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") cancelGrow();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+      cancelGrow();
+    };
+  }, [selectionMode, cancelGrow]);
+
+  // 在 orbit 和魔棒模式下拾取；其他模式的覆盖层会拦截指针事件
+  // 只响应画布上的事件，覆盖在画布上的面板按钮不触发拾取
+  const canPick = selectionMode === "orbit" || selectionMode === "wand";
+  const toLocal = (e: React.PointerEvent) => {
+    const bounds = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - bounds.left, y: e.clientY - bounds.top };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    // 拖拽旋转视角时不做悬停拾取
+    if (!canPick || e.buttons !== 0) return;
+    if (!(e.target instanceof HTMLCanvasElement)) return;
+    const { x, y } = toLocal(e);
+    runPick(x, y, false);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    // 第二根手指按下说明是双指平移 / 缩放，整个手势都不算点击
+    if (!e.isPrimary) {
+      pointerDownRef.current = null;
+      return;
+    }
+    pointerDownRef.current =
+      e.target instanceof HTMLCanvasElement ? toLocal(e) : null;
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    const down = pointerDownRef.current;
+    pointerDownRef.current = null;
+    if (!canPick || !down || e.button !== 0) return;
+    const { x, y } = toLocal(e);
+    if (Math.hypot(x - down.x, y - down.y) > CLICK_SLOP) return;
+
+    if (selectionMode === "wand") {
+      runWand(x, y, selectionOpFromModifiers(e));
+    } else {
+      runPick(x, y, true);
+    }
+  };
+
+  // 离开视图或缩放后悬停提示的位置不再对应，只保留点击固定的提示
+  const clearHoverPick = () => {
+    pendingPickRef.current = null;
+    setPick((prev) => (prev?.pinned ? prev : null));
+  };
+
+  // 发送最新的套索路径做预览；完成后若期间路径又有变化，间隔 LASSO_PREVIEW_INTERVAL 后继续
+  const runLassoPreview = useCallback(async () => {
+    const preview = lassoPreviewRef.current;
+    preview.timer = null;
+    const request = preview.latest;
+    preview.latest = null;
+
+    const cameraInfo = computeProjectionRef.current?.();
+    if (!request || request.path.length < 3 || !cameraInfo || !workerClient) {
+      return;
+    }
+
+    const controller = new AbortController();
+    preview.controller = controller;
+    preview.lastRun = performance.now();
+    try {
+      const { indices } = await workerClient.select({
+        // 复制路径：LassoOverlay 会继续向同一个数组追加点
+        shape: { kind: "polygon", path: request.path.slice() },
+        viewProjectionMatrix: cameraInfo.viewProjectionMatrix,
+        viewport: cameraInfo.viewport,
+        visibleOnly:
+          visibleOnlyTolerance !== null
+            ? { tolerance: visibleOnlyTolerance }
+            : undefined,
+        crop: getCrop(),
+        signal: controller.signal,
+      });
+      setLassoPreview({ indices, op: request.op });
+    } catch (error) {
+      // 绘制结束或切换模式后取消的请求，结果直接丢弃
+      if (!controller.signal.aborted) {
+        console.error("套索预览 Worker 计算失败", error);
+      }
+    } finally {
+      if (preview.controller === controller) preview.controller = null;
+    }
+
+    if (preview.latest && !preview.controller && preview.timer === null) {
+      const wait = preview.lastRun + LASSO_PREVIEW_INTERVAL - performance.now();
+      preview.timer = window.setTimeout(runLassoPreview, Math.max(0, wait));
+    }
+  }, [workerClient, visibleOnlyTolerance, getCrop]);
+
+  const handleLassoChange = useCallback(
+    (path: LassoPoint[], op: SelectionOp) => {
+      const preview = lassoPreviewRef.current;
+      // 尚未发送的旧路径直接被新路径取代
+      preview.latest = { path, op };
+      if (preview.controller || preview.timer !== null) return;
+      const wait = preview.lastRun + LASSO_PREVIEW_INTERVAL - performance.now();
+      preview.timer = window.setTimeout(runLassoPreview, Math.max(0, wait));
+    },
+    [runLassoPreview]
+  );
+
+  // 取消等待中和执行中的预览请求，已显示的预览保留到调用方清除
+  const stopLassoPreview = useCallback(() => {
+    const preview = lassoPreviewRef.current;
+    if (preview.timer !== null) window.clearTimeout(preview.timer);
+    preview.timer = null;
+    preview.latest = null;
+    preview.controller?.abort();
+    preview.controller = null;
+  }, []);
+
+  // 取消笔迹（Esc、多指手势）或离开套索模式时同时清除预览
+  const cancelLassoPreview = useCallback(() => {
+    stopLassoPreview();
+    setLassoPreview(null);
+  }, [stopLassoPreview]);
+
+  useEffect(() => {
+    if (selectionMode !== "lasso") return;
+    return cancelLassoPreview;
+  }, [selectionMode, cancelLassoPreview]);
+
+  // 预览保留到最终结果返回，避免松开鼠标后闪回之前的选择
+  const handleLassoComplete = useCallback(
+    async (path: LassoPoint[], op: SelectionOp) => {
+      stopLassoPreview();
+      await handleShapeComplete({ kind: "polygon", path }, op);
+      setLassoPreview(null);
+    },
+    [handleShapeComplete, stopLassoPreview]
   );
 
   return (
-    <div className="w-full h-full relative">
+    <div
+      className="w-full h-full relative"
+      onPointerMove={handlePointerMove}
+      onPointerDown={handlePointerDown}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => (pointerDownRef.current = null)}
+      onPointerLeave={clearHoverPick}
+      onWheel={clearHoverPick}
+    >
       <Canvas
         camera={{ fov: 60, near: 0.01, far: 1000 }}
         style={{ background: "#1a1a2e" }}
@@ -296,11 +895,88 @@ export function PointCloudViewer({
           selectionMode={selectionMode}
           selectedIndices={selectedIndices}
           onComputeProjection={handleComputeProjection}
+          cameraStart={cameraStart}
+          boxRef={boxRef}
+          boxMode={boxMode}
+          cropEnabled={cropEnabled}
+          cropUniforms={cropUniforms}
+          onBoxChange={handleBoxChange}
+          pickedIndex={pick?.index ?? null}
+          lassoPreview={lassoPreview}
         />
       </Canvas>
 
+      {pick && (
+        <PointTooltip
+          pointCloud={pointCloud}
+          index={pick.index}
+          x={pick.x}
+          y={pick.y}
+          pinned={pick.pinned}
+        />
+      )}
+
       {selectionMode === "lasso" && (
-        <LassoOverlay onComplete={handleLassoComplete} />
+        <LassoOverlay
+          onComplete={handleLassoComplete}
+          onChange={handleLassoChange}
+          onCancel={cancelLassoPreview}
+        />
+      )}
+      {(selectionMode === "rectangle" || selectionMode === "circle") && (
+        <ShapeOverlay tool={selectionMode} onComplete={handleShapeComplete} />
+      )}
+      {selectionMode === "polygon" && (
+        <PolygonOverlay onComplete={handleShapeComplete} />
+      )}
+      {selectionMode === "wand" && (
+        <WandPanel
+          settings={wandSettings}
+          onChange={setWandSettings}
+          isGrowing={isGrowing}
+          onCancel={cancelGrow}
+          error={wandError}
+        />
+      )}
+      {(selectionMode === "box" || cropEnabled) && (
+        <div className="absolute bottom-4 left-1/2 -translate-x-1/2 flex items-center gap-1 rounded-lg border border-border bg-card/90 px-2 py-2 text-sm">
+          {selectionMode === "box" && (
+            <>
+              {(
+                [
+                  ["translate", Move, "Move"],
+                  ["rotate", Rotate3d, "Rotate"],
+                  ["scale", Scaling, "Scale"],
+                ] as const
+              ).map(([mode, Icon, label]) => (
+                <Button
+                  key={mode}
+                  size="sm"
+                  variant={boxMode === mode ? "default" : "ghost"}
+                  onClick={() => setBoxMode(mode)}
+                  className="gap-1"
+                >
+                  <Icon className="w-4 h-4" />
+                  {label}
+                </Button>
+              ))}
+              <div className="w-px h-6 bg-border mx-1" />
+              <Button size="sm" onClick={handleBoxSelect} className="gap-1">
+                <BoxSelect className="w-4 h-4" />
+                Select inside
+              </Button>
+            </>
+          )}
+          <Button
+            size="sm"
+            variant={cropEnabled ? "default" : "ghost"}
+            onClick={() => setCropEnabled((prev) => !prev)}
+            className="gap-1"
+          >
+            <Crop className="w-4 h-4" />
+            {cropEnabled ? "Crop on" : "Crop"}
+          </Button>
+        </div>
       )}
     </div>
   );
@@ -0,0 +1,64 @@
+"use client"
+
+import type { PointCloudData } from "@/lib/types"
+import { getPointAttributes, getPointPosition } from "@/lib/point-attributes"
+
+interface PointTooltipProps {
+  pointCloud: PointCloudData
+  index: number
+  // 相对视图左上角的像素位置
+  x: number
+  y: number
+  pinned: boolean
+}
+
+// 多分量属性（如 FPFH）只展示前几个分量
+const MAX_COMPONENTS = 4
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(3)
+}
+
+function formatAttribute(value: number | number[]): string {
+  if (!Array.isArray(value)) return formatNumber(value)
+  const head = value.slice(0, MAX_COMPONENTS).map(formatNumber).join(", ")
+  return value.length > MAX_COMPONENTS ? `[${head}, … ${value.length}]` : `[${head}]`
+}
+
+/**
+ * 拾取点的信息：序号、原始坐标、颜色以及全部逐点属性
+ */
+export function PointTooltip({ pointCloud, index, x, y, pinned }: PointTooltipProps) {
+  const position = getPointPosition(pointCloud, index)
+  if (!position) return null
+
+  const rgb = [0, 1, 2].map((c) => Math.round(pointCloud.colors[index * 3 + c] * 255))
+  const attributes = Object.entries(getPointAttributes(pointCloud, index))
+
+  return (
+    <div
+      className={`absolute z-10 pointer-events-none rounded-md border bg-card/95 px-3 py-2 text-xs shadow-lg ${
+        pinned ? "border-primary" : "border-border"
+      }`}
+      style={{ left: x + 12, top: y + 12 }}
+    >
+      <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5">
+        <dt className="text-muted-foreground">Index</dt>
+        <dd className="font-mono text-foreground">{index.toLocaleString()}</dd>
+        <dt className="text-muted-foreground">XYZ</dt>
+        <dd className="font-mono text-foreground">{position.map((v) => v.toFixed(3)).join(", ")}</dd>
+        <dt className="text-muted-foreground">RGB</dt>
+        <dd className="flex items-center gap-1.5 font-mono text-foreground">
+          <span className="inline-block w-3 h-3 rounded-sm border" style={{ background: `rgb(${rgb.join(",")})` }} />
+          {rgb.join(", ")}
+        </dd>
+        {attributes.map(([name, value]) => (
+          <div key={name} className="contents">
+            <dt className="text-muted-foreground">{name}</dt>
+            <dd className="font-mono text-foreground">{formatAttribute(value)}</dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  )
+}
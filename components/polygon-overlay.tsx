@@ -0,0 +1,216 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useState, useCallback, useRef } from "react"
+import { Button } from "@/components/ui/button"
+import { Check, X } from "lucide-react"
+import type { LassoPoint, SelectionShape } from "@/lib/types"
+import { selectionOpFromModifiers, type SelectionOp } from "@/lib/selection-ops"
+
+interface PolygonOverlayProps {
+  onComplete: (shape: SelectionShape, op: SelectionOp) => void
+}
+
+// 点击顶点的命中半径（像素）
+const HANDLE_RADIUS = 6
+
+/**
+ * 点击放置顶点的多边形选择
+ * - 单击空白处添加顶点，单击第一个顶点或按 Enter 提交
+ * - 拖拽顶点移动位置，右键顶点删除，Backspace 删除最后一个顶点，Esc 取消
+ * 提交时按住的修饰键决定与已有选择的组合方式
+ * 鼠标、触摸和手写笔都可以操作；拖拽顶点时捕获指针，多指手势或系统中断会把顶点放回原处
+ */
+export function PolygonOverlay({ onComplete }: PolygonOverlayProps) {
+  const svgRef = useRef<SVGSVGElement>(null)
+  const [vertices, setVertices] = useState<LassoPoint[]>([])
+  const [cursor, setCursor] = useState<LassoPoint | null>(null)
+  // 正在拖拽的顶点序号
+  const [dragIndex, setDragIndex] = useState<number | null>(null)
+  // 拖拽顶点的指针与顶点原来的位置，取消拖拽时恢复
+  const dragRef = useRef<{ pointerId: number; index: number; origin: LassoPoint } | null>(null)
+
+  const toLocal = useCallback((e: { clientX: number; clientY: number }): LassoPoint => {
+    const bounds = svgRef.current!.getBoundingClientRect()
+    return { x: e.clientX - bounds.left, y: e.clientY - bounds.top }
+  }, [])
+
+  const hitVertex = useCallback(
+    (point: LassoPoint) =>
+      vertices.findIndex((v) => Math.hypot(v.x - point.x, v.y - point.y) <= HANDLE_RADIUS + 2),
+    [vertices],
+  )
+
+  const commit = useCallback(
+    (modifiers: { shiftKey: boolean; altKey: boolean }) => {
+      if (vertices.length < 3) return
+      onComplete({ kind: "polygon", path: vertices }, selectionOpFromModifiers(modifiers))
+      setVertices([])
+    },
+    [vertices, onComplete],
+  )
+
+  const endDrag = useCallback(() => {
+    const drag = dragRef.current
+    if (!drag) return
+
+    dragRef.current = null
+    setDragIndex(null)
+    if (svgRef.current?.hasPointerCapture(drag.pointerId)) {
+      svgRef.current.releasePointerCapture(drag.pointerId)
+    }
+  }, [])
+
+  const cancelDrag = useCallback(() => {
+    const drag = dragRef.current
+    if (!drag) return
+
+    setVertices((prev) => prev.map((v, i) => (i === drag.index ? drag.origin : v)))
+    endDrag()
+  }, [endDrag])
+
+  const handlePointerDown = useCallback(
+    (e: React.PointerEvent<SVGSVGElement>) => {
+      // 拖拽顶点时又有手指按下，说明用户想做双指手势，放弃这次拖拽
+      if (dragRef.current) {
+        cancelDrag()
+        return
+      }
+      if (!e.isPrimary || (e.pointerType === "mouse" && e.button !== 0)) return
+      const point = toLocal(e)
+      const hit = hitVertex(point)
+
+      // 点击第一个顶点闭合多边形
+      if (hit === 0 && vertices.length >= 3) {
+        commit(e)
+        return
+      }
+      if (hit >= 0) {
+        e.currentTarget.setPointerCapture(e.pointerId)
+        dragRef.current = { pointerId: e.pointerId, index: hit, origin: vertices[hit] }
+        setDragIndex(hit)
+        return
+      }
+      setVertices((prev) => [...prev, point])
+    },
+    [toLocal, hitVertex, vertices, commit, cancelDrag],
+  )
+
+  const handlePointerMove = useCallback(
+    (e: React.PointerEvent<SVGSVGElement>) => {
+      if (!e.isPrimary) return
+      const point = toLocal(e)
+      setCursor(point)
+      const drag = dragRef.current
+      if (drag && e.pointerId === drag.pointerId) {
+        setVertices((prev) => prev.map((v, i) => (i === drag.index ? point : v)))
+      }
+    },
+    [toLocal],
+  )
+
+  const handlePointerUp = useCallback(
+    (e: React.PointerEvent<SVGSVGElement>) => {
+      if (e.pointerId === dragRef.current?.pointerId) endDrag()
+    },
+    [endDrag],
+  )
+
+  // 系统中断触摸（如来电、手势被浏览器接管）时取消拖拽
+  const handlePointerCancel = useCallback(
+    (e: React.PointerEvent<SVGSVGElement>) => {
+      if (e.pointerId === dragRef.current?.pointerId) cancelDrag()
+    },
+    [cancelDrag],
+  )
+
+  const handleContextMenu = useCallback(
+    (e: React.MouseEvent) => {
+      e.preventDefault()
+      const hit = hitVertex(toLocal(e))
+      if (hit >= 0) {
+        setVertices((prev) => prev.filter((_, i) => i !== hit))
+      }
+    },
+    [toLocal, hitVertex],
+  )
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // 在输入框等可编辑元素中按键时不处理，否则 Backspace 会删掉顶点
+      const target = e.target
+      if (
+        target instanceof HTMLElement &&
+        (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))
+      ) {
+        return
+      }
+
+      if (e.key === "Enter") {
+        commit(e)
+      } else if (e.key === "Escape") {
+        endDrag()
+        setVertices([])
+      } else if (e.key === "Backspace" || e.key === "Delete") {
+        setVertices((prev) => prev.slice(0, -1))
+      }
+    }
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [commit, endDrag])
+
+  const outline = vertices.map((v) => `${v.x},${v.y}`).join(" ")
+  const last = vertices[vertices.length - 1]
+
+  return (
+    <>
+      <svg
+        ref={svgRef}
+        // touch-none：触摸放置和拖拽顶点时不触发页面滚动和缩放
+        className="absolute inset-0 w-full h-full cursor-crosshair touch-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerCancel}
+        // 拖拽时捕获了指针，离开只会发生在未拖拽或松开之后
+        onPointerLeave={() => setCursor(null)}
+        onContextMenu={handleContextMenu}
+      >
+        {vertices.length >= 2 && (
+          <polygon points={outline} fill="rgba(239, 68, 68, 0.12)" stroke="#ef4444" strokeWidth={2} strokeDasharray="5 5" />
+        )}
+        {/* 最后一个顶点到鼠标位置的预览线 */}
+        {last && cursor && dragIndex === null && (
+          <line x1={last.x} y1={last.y} x2={cursor.x} y2={cursor.y} stroke="#ef4444" strokeWidth={1} strokeDasharray="3 3" />
+        )}
+        {vertices.map((v, i) => (
+          <circle
+            key={i}
+            cx={v.x}
+            cy={v.y}
+            r={HANDLE_RADIUS}
+            fill={i === 0 ? "#ef4444" : "#ffffff"}
+            stroke="#ef4444"
+            strokeWidth={2}
+            className="cursor-move"
+          />
+        ))}
+      </svg>
+
+      {vertices.length > 0 && (
+        <div className="absolute bottom-4 left-1/2 -translate-x-1/2 flex items-center gap-2 rounded-lg border border-border bg-card/90 px-3 py-2 text-sm">
+          <span className="text-muted-foreground">{vertices.length} vertices</span>
+          <Button size="sm" disabled={vertices.length < 3} onClick={(e) => commit(e)} className="gap-1">
+            <Check className="w-4 h-4" />
+            Apply
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => setVertices([])} className="gap-1">
+            <X className="w-4 h-4" />
+            Cancel
+          </Button>
+        </div>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,248 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Filter, Loader2, X } from "lucide-react"
+import type { PointCloudData } from "@/lib/types"
+import type { PointQuery } from "@/lib/point-query"
+import type { SelectionOp } from "@/lib/selection-ops"
+import { getAttributeNames } from "@/lib/point-attributes"
+
+interface QueryPanelProps {
+  pointCloud: PointCloudData
+  onRun: (query: PointQuery, op: SelectionOp) => Promise<void>
+  onClose: () => void
+}
+
+type QueryKind = PointQuery["kind"]
+
+const KIND_LABELS: Record<QueryKind, string> = {
+  range: "Coordinate range",
+  distance: "Distance from point",
+  color: "RGB similarity",
+  attribute: "Attribute threshold",
+}
+
+const OP_LABELS: Record<SelectionOp, string> = {
+  replace: "Replace",
+  add: "Add",
+  subtract: "Subtract",
+  intersect: "Intersect",
+}
+
+const inputClassName = "h-8 w-full rounded-md border bg-background px-2 text-sm"
+
+// 空字符串表示不限制，非法输入同样视为不限制
+function parseOptional(value: string): number | undefined {
+  if (value.trim() === "") return undefined
+  const number = Number(value)
+  return Number.isFinite(number) ? number : undefined
+}
+
+function hexToRgb(hex: string): [number, number, number] {
+  const value = hex.replace("#", "")
+  return [
+    Number.parseInt(value.substring(0, 2), 16) / 255,
+    Number.parseInt(value.substring(2, 4), 16) / 255,
+    Number.parseInt(value.substring(4, 6), 16) / 255,
+  ]
+}
+
+function Field({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <label className="flex flex-col gap-1 text-xs text-muted-foreground">
+      {label}
+      {children}
+    </label>
+  )
+}
+
+/**
+ * 按属性值选点：坐标范围、到某点的距离、颜色相似度、强度 / 标签等属性阈值
+ * 查询在 Worker 中按与套索相同的分片执行，结果可与已有选择组合
+ */
+export function QueryPanel({ pointCloud, onRun, onClose }: QueryPanelProps) {
+  const attributeNames = getAttributeNames(pointCloud)
+  const [kind, setKind] = useState<QueryKind>("range")
+  const [op, setOp] = useState<SelectionOp>("replace")
+  const [isRunning, setIsRunning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const [axis, setAxis] = useState<"x" | "y" | "z">("z")
+  const [min, setMin] = useState("")
+  const [max, setMax] = useState("")
+  const [center, setCenter] = useState<[string, string, string]>(() => {
+    const [x, y, z] = pointCloud.origin ?? [0, 0, 0]
+    return [String(x), String(y), String(z)]
+  })
+  const [radius, setRadius] = useState("1")
+  const [color, setColor] = useState("#ffffff")
+  const [tolerance, setTolerance] = useState("0.1")
+  const [selectedAttribute, setSelectedAttribute] = useState(attributeNames[0] ?? "")
+  // 加载新点云后之前选中的属性可能不存在，退回第一个属性
+  const attributeName = attributeNames.includes(selectedAttribute) ? selectedAttribute : (attributeNames[0] ?? "")
+
+  // 把表单内容组装为查询条件，输入不完整时返回错误信息
+  const buildQuery = (): PointQuery | string => {
+    switch (kind) {
+      case "range":
+        return {
+          kind,
+          axis,
+          min: parseOptional(min) ?? Number.NEGATIVE_INFINITY,
+          max: parseOptional(max) ?? Number.POSITIVE_INFINITY,
+        }
+      case "distance": {
+        const point = center.map(parseOptional)
+        const r = parseOptional(radius)
+        if (point.some((v) => v === undefined) || r === undefined) return "Enter a center point and radius"
+        return { kind, center: point as [number, number, number], radius: r }
+      }
+      case "color": {
+        const t = parseOptional(tolerance)
+        if (t === undefined) return "Enter a color tolerance"
+        return { kind, color: hexToRgb(color), tolerance: t }
+      }
+      case "attribute":
+        if (!attributeName) return "This point cloud has no extra attributes"
+        return { kind, name: attributeName, min: parseOptional(min), max: parseOptional(max) }
+    }
+  }
+
+  const handleRun = async () => {
+    const query = buildQuery()
+    if (typeof query === "string") {
+      setError(query)
+      return
+    }
+
+    setError(null)
+    setIsRunning(true)
+    try {
+      await onRun(query, op)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Query failed")
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  return (
+    <div className="absolute top-4 right-4 z-10 w-72 rounded-lg border border-border bg-card/95 shadow-lg">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-border">
+        <span className="flex items-center gap-2 text-sm font-medium text-foreground">
+          <Filter className="w-4 h-4" />
+          Query
+        </span>
+        <Button variant="ghost" size="sm" onClick={onClose} className="h-7 w-7 p-0">
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="flex flex-col gap-3 p-3">
+        <Field label="Condition">
+          <select value={kind} onChange={(e) => setKind(e.target.value as QueryKind)} className={inputClassName}>
+            {(Object.keys(KIND_LABELS) as QueryKind[]).map((k) => (
+              <option key={k} value={k}>
+                {KIND_LABELS[k]}
+              </option>
+            ))}
+          </select>
+        </Field>
+
+        {kind === "range" && (
+          <Field label="Axis">
+            <select value={axis} onChange={(e) => setAxis(e.target.value as "x" | "y" | "z")} className={inputClassName}>
+              <option value="x">X</option>
+              <option value="y">Y</option>
+              <option value="z">Z (height)</option>
+            </select>
+          </Field>
+        )}
+
+        {kind === "attribute" && (
+          <Field label="Attribute">
+            <select value={attributeName} onChange={(e) => setSelectedAttribute(e.target.value)} className={inputClassName}>
+              {attributeNames.map((name) => (
+                <option key={name} value={name}>
+                  {name}
+                </option>
+              ))}
+            </select>
+          </Field>
+        )}
+
+        {(kind === "range" || kind === "attribute") && (
+          <div className="grid grid-cols-2 gap-2">
+            <Field label="Min">
+              <input value={min} onChange={(e) => setMin(e.target.value)} placeholder="-∞" className={inputClassName} />
+            </Field>
+            <Field label="Max">
+              <input value={max} onChange={(e) => setMax(e.target.value)} placeholder="+∞" className={inputClassName} />
+            </Field>
+          </div>
+        )}
+
+        {kind === "distance" && (
+          <>
+            <div className="grid grid-cols-3 gap-2">
+              {(["X", "Y", "Z"] as const).map((label, i) => (
+                <Field key={label} label={label}>
+                  <input
+                    value={center[i]}
+                    onChange={(e) =>
+                      setCenter((prev) => prev.map((v, j) => (j === i ? e.target.value : v)) as [string, string, string])
+                    }
+                    className={inputClassName}
+                  />
+                </Field>
+              ))}
+            </div>
+            <Field label="Radius">
+              <input value={radius} onChange={(e) => setRadius(e.target.value)} className={inputClassName} />
+            </Field>
+          </>
+        )}
+
+        {kind === "color" && (
+          <div className="grid grid-cols-2 gap-2">
+            <Field label="Color">
+              <input
+                type="color"
+                value={color}
+                onChange={(e) => setColor(e.target.value)}
+                className="h-8 w-full rounded-md border bg-background"
+              />
+            </Field>
+            <Field label="Tolerance (0–1.73)">
+              <input value={tolerance} onChange={(e) => setTolerance(e.target.value)} className={inputClassName} />
+            </Field>
+          </div>
+        )}
+
+        {error && <p className="text-xs text-destructive">{error}</p>}
+
+        <div className="flex items-center gap-2">
+          <select
+            value={op}
+            onChange={(e) => setOp(e.target.value as SelectionOp)}
+            title="How to combine with the current selection"
+            className="h-8 flex-1 rounded-md border bg-background px-2 text-sm"
+          >
+            {(Object.keys(OP_LABELS) as SelectionOp[]).map((o) => (
+              <option key={o} value={o}>
+                {OP_LABELS[o]}
+              </option>
+            ))}
+          </select>
+          <Button size="sm" onClick={handleRun} disabled={isRunning} className="gap-1">
+            {isRunning && <Loader2 className="w-4 h-4 animate-spin" />}
+            Run
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
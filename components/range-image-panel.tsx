@@ -0,0 +1,165 @@
+"use client"
+
+import type React from "react"
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
+import type { PointCloudData } from "@/lib/types"
+import { buildPixelLookup, computeGridImage, selectGridRect, type GridImageChannel } from "@/lib/point-grid"
+
+interface RangeImagePanelProps {
+  pointCloud: PointCloudData
+  selectedIndices: Uint32Array
+  onSelect: (indices: Uint32Array) => void
+}
+
+// 选中像素的高亮颜色，与工具栏上色按钮一致
+const HIGHLIGHT = [0x22, 0xc5, 0x5e]
+
+interface PixelRect {
+  col0: number
+  row0: number
+  col1: number
+  row1: number
+}
+
+/**
+ * 有序点云的 2D 距离 / 强度图
+ * 在图上框选像素会选中对应的 3D 点；3D 视图中的选择也会高亮到图上
+ */
+export function RangeImagePanel({ pointCloud, selectedIndices, onSelect }: RangeImagePanelProps) {
+  const grid = pointCloud.grid!
+  const hasIntensity = !!pointCloud.attributes["intensity"]
+  const [channel, setChannel] = useState<GridImageChannel>(hasIntensity ? "intensity" : "range")
+  const [dragRect, setDragRect] = useState<PixelRect | null>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+
+  const lookup = useMemo(() => buildPixelLookup(grid), [grid])
+  // 只依赖坐标、属性和视点，上色产生新的 pointCloud 对象时不需要重新计算
+  const { positions, attributes, origin, metadata } = pointCloud
+  const image = useMemo(
+    () => computeGridImage({ positions, attributes, origin, grid, metadata }, channel),
+    [positions, attributes, origin, grid, metadata, channel],
+  )
+
+  // 绘制灰度图，选中的像素叠加高亮色
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const context = canvas?.getContext("2d")
+    if (!canvas || !context) return
+
+    const { width, height } = grid
+    const imageData = context.createImageData(width, height)
+    const pixels = imageData.data
+    const range = image.max - image.min || 1
+
+    for (let p = 0; p < width * height; p++) {
+      const value = image.values[p]
+      const o = p * 4
+      if (Number.isNaN(value)) {
+        // 空洞保持透明
+        continue
+      }
+      const gray = Math.round(((value - image.min) / range) * 255)
+      pixels[o] = gray
+      pixels[o + 1] = gray
+      pixels[o + 2] = gray
+      pixels[o + 3] = 255
+    }
+
+    for (let j = 0; j < selectedIndices.length; j++) {
+      const o = grid.pixelIndex[selectedIndices[j]] * 4
+      pixels[o] = (pixels[o] + HIGHLIGHT[0]) >> 1
+      pixels[o + 1] = (pixels[o + 1] + HIGHLIGHT[1]) >> 1
+      pixels[o + 2] = (pixels[o + 2] + HIGHLIGHT[2]) >> 1
+      pixels[o + 3] = 255
+    }
+
+    context.putImageData(imageData, 0, 0)
+  }, [grid, image, selectedIndices])
+
+  const toPixel = useCallback(
+    (e: React.PointerEvent<HTMLCanvasElement>) => {
+      const bounds = e.currentTarget.getBoundingClientRect()
+      const col = Math.floor(((e.clientX - bounds.left) / bounds.width) * grid.width)
+      const row = Math.floor(((e.clientY - bounds.top) / bounds.height) * grid.height)
+      return {
+        col: Math.max(0, Math.min(grid.width - 1, col)),
+        row: Math.max(0, Math.min(grid.height - 1, row)),
+      }
+    },
+    [grid],
+  )
+
+  const handlePointerDown = useCallback(
+    (e: React.PointerEvent<HTMLCanvasElement>) => {
+      e.currentTarget.setPointerCapture(e.pointerId)
+      const { col, row } = toPixel(e)
+      setDragRect({ col0: col, row0: row, col1: col, row1: row })
+    },
+    [toPixel],
+  )
+
+  const handlePointerMove = useCallback(
+    (e: React.PointerEvent<HTMLCanvasElement>) => {
+      if (!dragRect) return
+      const { col, row } = toPixel(e)
+      setDragRect({ ...dragRect, col1: col, row1: row })
+    },
+    [dragRect, toPixel],
+  )
+
+  const handlePointerUp = useCallback(() => {
+    if (!dragRect) return
+    onSelect(selectGridRect(grid, lookup, dragRect))
+    setDragRect(null)
+  }, [dragRect, grid, lookup, onSelect])
+
+  return (
+    <div className="w-80 flex flex-col gap-2 p-3 border-l border-border bg-card">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-foreground">
+          {grid.width} × {grid.height}
+        </span>
+        <select
+          value={channel}
+          onChange={(e) => setChannel(e.target.value as GridImageChannel)}
+          className="h-8 rounded-md border bg-background px-2 text-sm"
+        >
+          <option value="range">Range</option>
+          <option value="intensity" disabled={!hasIntensity}>
+            Intensity
+          </option>
+        </select>
+      </div>
+
+      <div className="relative">
+        <canvas
+          ref={canvasRef}
+          width={grid.width}
+          height={grid.height}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={() => setDragRect(null)}
+          className="w-full bg-muted cursor-crosshair touch-none"
+          style={{ imageRendering: "pixelated" }}
+        />
+        {dragRect && (
+          <div
+            className="absolute border border-green-500 bg-green-500/20 pointer-events-none"
+            style={{
+              left: `${(Math.min(dragRect.col0, dragRect.col1) / grid.width) * 100}%`,
+              top: `${(Math.min(dragRect.row0, dragRect.row1) / grid.height) * 100}%`,
+              width: `${((Math.abs(dragRect.col1 - dragRect.col0) + 1) / grid.width) * 100}%`,
+              height: `${((Math.abs(dragRect.row1 - dragRect.row0) + 1) / grid.height) * 100}%`,
+            }}
+          />
+        )}
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        {pointCloud.count.toLocaleString()} valid pixels · drag to select points
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,160 @@
+"use client"
+
+import type React from "react"
+
+import { useRef, useEffect, useCallback } from "react"
+import type { SelectionShape } from "@/lib/types"
+import { selectionOpFromModifiers, type SelectionOp } from "@/lib/selection-ops"
+import { useDprCanvas } from "@/hooks/use-dpr-canvas"
+
+interface ShapeOverlayProps {
+  tool: "rectangle" | "circle"
+  onComplete: (shape: SelectionShape, op: SelectionOp) => void
+}
+
+interface DragState {
+  startX: number
+  startY: number
+  x: number
+  y: number
+}
+
+/** 拖拽生成矩形（对角两点）或圆形（按下处为圆心，拖拽距离为半径） */
+function toShape(tool: ShapeOverlayProps["tool"], drag: DragState): SelectionShape {
+  if (tool === "rectangle") {
+    return { kind: "rectangle", x0: drag.startX, y0: drag.startY, x1: drag.x, y1: drag.y }
+  }
+  return { kind: "circle", cx: drag.startX, cy: drag.startY, radius: Math.hypot(drag.x - drag.startX, drag.y - drag.startY) }
+}
+
+/**
+ * 矩形 / 圆形选择：按下后拖动，抬起时完成
+ * 与套索一样按下时捕获指针，拖出画布也不会中断；多指手势、Esc 或系统中断都会取消本次拖拽
+ */
+export function ShapeOverlay({ tool, onComplete }: ShapeOverlayProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  // 正在拖拽的指针，未拖拽时为 null
+  const pointerIdRef = useRef<number | null>(null)
+  const dragRef = useRef<DragState | null>(null)
+  const opRef = useRef<SelectionOp>("replace")
+
+  const draw = useCallback(() => {
+    const canvas = canvasRef.current
+    const ctx = canvas?.getContext("2d")
+    if (!canvas || !ctx) return
+
+    // 画布按物理像素分配，绘制时仍使用 CSS 像素坐标
+    const dpr = window.devicePixelRatio || 1
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0)
+    ctx.clearRect(0, 0, canvas.width / dpr, canvas.height / dpr)
+    const drag = dragRef.current
+    if (!drag) return
+
+    const shape = toShape(tool, drag)
+    ctx.beginPath()
+    if (shape.kind === "rectangle") {
+      ctx.rect(shape.x0, shape.y0, shape.x1 - shape.x0, shape.y1 - shape.y0)
+    } else if (shape.kind === "circle") {
+      ctx.arc(shape.cx, shape.cy, shape.radius, 0, Math.PI * 2)
+    }
+
+    ctx.strokeStyle = "#ef4444"
+    ctx.lineWidth = 2
+    ctx.setLineDash([5, 5])
+    ctx.stroke()
+  }, [tool])
+
+  const toLocal = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const bounds = e.currentTarget.getBoundingClientRect()
+    return { x: e.clientX - bounds.left, y: e.clientY - bounds.top }
+  }
+
+  const cancel = useCallback(() => {
+    const canvas = canvasRef.current
+    const pointerId = pointerIdRef.current
+    if (pointerId === null) return
+
+    pointerIdRef.current = null
+    dragRef.current = null
+    if (canvas?.hasPointerCapture(pointerId)) {
+      canvas.releasePointerCapture(pointerId)
+    }
+    draw()
+  }, [draw])
+
+  const handlePointerDown = useCallback(
+    (e: React.PointerEvent<HTMLCanvasElement>) => {
+      // 拖拽中又有手指按下，说明用户想做双指手势，放弃这次选择
+      if (pointerIdRef.current !== null) {
+        cancel()
+        return
+      }
+      if (!e.isPrimary || (e.pointerType === "mouse" && e.button !== 0)) return
+
+      e.currentTarget.setPointerCapture(e.pointerId)
+      pointerIdRef.current = e.pointerId
+      const { x, y } = toLocal(e)
+      dragRef.current = { startX: x, startY: y, x, y }
+      opRef.current = selectionOpFromModifiers(e)
+    },
+    [cancel],
+  )
+
+  const handlePointerMove = useCallback(
+    (e: React.PointerEvent<HTMLCanvasElement>) => {
+      const drag = dragRef.current
+      if (e.pointerId !== pointerIdRef.current || !drag) return
+
+      const { x, y } = toLocal(e)
+      drag.x = x
+      drag.y = y
+      opRef.current = selectionOpFromModifiers(e)
+      draw()
+    },
+    [draw],
+  )
+
+  const handlePointerUp = useCallback(
+    (e: React.PointerEvent<HTMLCanvasElement>) => {
+      const drag = dragRef.current
+      if (e.pointerId !== pointerIdRef.current || !drag) return
+
+      pointerIdRef.current = null
+      dragRef.current = null
+      onComplete(toShape(tool, drag), opRef.current)
+      draw()
+    },
+    [onComplete, tool, draw],
+  )
+
+  // 系统中断触摸（如来电、手势被浏览器接管）时取消拖拽
+  const handlePointerCancel = useCallback(
+    (e: React.PointerEvent<HTMLCanvasElement>) => {
+      if (e.pointerId === pointerIdRef.current) cancel()
+    },
+    [cancel],
+  )
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") cancel()
+    }
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [cancel])
+
+  // 调整尺寸会清空画布，拖拽中需要重画
+  useDprCanvas(canvasRef, draw)
+
+  return (
+    <canvas
+      ref={canvasRef}
+      // touch-none：触摸拖拽时不触发页面滚动和缩放
+      className="absolute inset-0 w-full h-full cursor-crosshair touch-none"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerCancel}
+    />
+  )
+}
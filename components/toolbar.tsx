@@ -1,8 +1,23 @@
 "use client"
 
 import { Button } from "@/components/ui/button"
-import { MousePointer2, Lasso, Trash2, Palette } from "lucide-react"
-import type { SelectionMode } from "@/lib/types"
+import { useState } from "react"
+import {
+  MousePointer2,
+  Lasso,
+  SquareDashed,
+  CircleDashed,
+  Pentagon,
+  Box,
+  WandSparkles,
+  Filter,
+  Trash2,
+  Palette,
+  Download,
+  Loader2,
+} from "lucide-react"
+import type { CameraStart, SelectionMode } from "@/lib/types"
+import type { PCDDataFormat } from "@/lib/pcd-writer"
 
 interface ToolbarProps {
   selectionMode: SelectionMode
@@ -10,6 +25,18 @@ interface ToolbarProps {
   selectedCount: number
   onClearSelection: () => void
   onColorSelection: (color: string) => void
+  onExport: (format: PCDDataFormat, selectedOnly: boolean) => void
+  isExporting: boolean
+  cameraStart: CameraStart
+  onCameraStartChange: (start: CameraStart) => void
+  // 只选可见点，以及深度容差（场景单位）
+  visibleOnly: boolean
+  onVisibleOnlyChange: (visibleOnly: boolean) => void
+  depthTolerance: number
+  onDepthToleranceChange: (tolerance: number) => void
+  // 按属性值选点的查询面板
+  queryOpen: boolean
+  onQueryToggle: () => void
 }
 
 export function Toolbar({
@@ -18,7 +45,18 @@ export function Toolbar({
   selectedCount,
   onClearSelection,
   onColorSelection,
+  onExport,
+  isExporting,
+  cameraStart,
+  onCameraStartChange,
+  visibleOnly,
+  onVisibleOnlyChange,
+  depthTolerance,
+  onDepthToleranceChange,
+  queryOpen,
+  onQueryToggle,
 }: ToolbarProps) {
+  const [exportFormat, setExportFormat] = useState<PCDDataFormat>("binary")
 
   return (
     <div className="flex items-center gap-2 px-6 py-3 border-b border-border bg-card">
@@ -41,10 +79,79 @@ export function Toolbar({
           <Lasso className="w-4 h-4" />
           Lasso
         </Button>
+        <Button
+          variant={selectionMode === "rectangle" ? "default" : "ghost"}
+          size="sm"
+          onClick={() => onModeChange("rectangle")}
+          className="gap-2"
+        >
+          <SquareDashed className="w-4 h-4" />
+          Rect
+        </Button>
+        <Button
+          variant={selectionMode === "circle" ? "default" : "ghost"}
+          size="sm"
+          onClick={() => onModeChange("circle")}
+          className="gap-2"
+        >
+          <CircleDashed className="w-4 h-4" />
+          Circle
+        </Button>
+        <Button
+          variant={selectionMode === "polygon" ? "default" : "ghost"}
+          size="sm"
+          onClick={() => onModeChange("polygon")}
+          className="gap-2"
+        >
+          <Pentagon className="w-4 h-4" />
+          Polygon
+        </Button>
+        <Button
+          variant={selectionMode === "box" ? "default" : "ghost"}
+          size="sm"
+          onClick={() => onModeChange("box")}
+          className="gap-2"
+        >
+          <Box className="w-4 h-4" />
+          Box
+        </Button>
+        <Button
+          variant={selectionMode === "wand" ? "default" : "ghost"}
+          size="sm"
+          onClick={() => onModeChange("wand")}
+          className="gap-2"
+        >
+          <WandSparkles className="w-4 h-4" />
+          Wand
+        </Button>
       </div>
 
+      <label className="flex items-center gap-2 ml-2 text-sm text-muted-foreground" title="Skip points hidden behind closer points">
+        <input type="checkbox" checked={visibleOnly} onChange={(e) => onVisibleOnlyChange(e.target.checked)} />
+        Visible only
+      </label>
+      {visibleOnly && (
+        <input
+          type="number"
+          min={0}
+          step={0.01}
+          value={depthTolerance}
+          onChange={(e) => {
+            const value = Number(e.target.value)
+            if (Number.isFinite(value) && value >= 0) onDepthToleranceChange(value)
+          }}
+          title="Depth tolerance"
+          className="h-8 w-20 rounded-md border bg-background px-2 text-sm"
+        />
+      )}
+
       <div className="w-px h-6 bg-border mx-2" />
 
+      <Button variant={queryOpen ? "default" : "outline"} size="sm" onClick={onQueryToggle} className="gap-2">
+        <Filter className="w-4 h-4" />
+        Query
+      </Button>
+
       <Button
         variant="outline"
         size="sm"
@@ -67,9 +174,55 @@ export function Toolbar({
         Clear
       </Button>
 
+      <div className="w-px h-6 bg-border mx-2" />
+
+      <select
+        value={cameraStart}
+        onChange={(e) => onCameraStartChange(e.target.value as CameraStart)}
+        title="Initial camera"
+        className="h-8 rounded-md border bg-background px-2 text-sm"
+      >
+        <option value="bounds">Camera: fit bounds</option>
+        <option value="sensor">Camera: sensor viewpoint</option>
+      </select>
+
+      <div className="w-px h-6 bg-border mx-2" />
+
+      <select
+        value={exportFormat}
+        onChange={(e) => setExportFormat(e.target.value as PCDDataFormat)}
+        disabled={isExporting}
+        className="h-8 rounded-md border bg-background px-2 text-sm"
+      >
+        <option value="ascii">ascii</option>
+        <option value="binary">binary</option>
+        <option value="binary_compressed">binary_compressed</option>
+      </select>
+
+      <Button
+        variant="outline"
+        size="sm"
+        disabled={isExporting}
+        onClick={() => onExport(exportFormat, selectedCount > 0)}
+        className="gap-2 bg-transparent"
+      >
+        {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+        {selectedCount > 0 ? "Export Selected" : "Export PCD"}
+      </Button>
+
       {selectedCount > 0 && (
         <span className="ml-2 text-sm text-muted-foreground">{selectedCount.toLocaleString()} points selected</span>
       )}
+
+      {selectionMode !== "orbit" && (
+        <span className="ml-auto text-xs text-muted-foreground">
+          {selectionMode === "lasso" && "Draw with mouse, finger or pen · Esc to cancel · "}
+          {selectionMode === "polygon" && "Click to add vertices · drag to move · right-click to delete · Enter to apply · "}
+          {selectionMode === "box" && "Drag handles to move / rotate / scale the box · "}
+          {selectionMode === "wand" && "Click a point to grow a region · Esc to stop · "}
+          Shift: add · Alt: subtract · Shift+Alt: intersect
+        </span>
+      )}
     </div>
   )
 }
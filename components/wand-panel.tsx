@@ -0,0 +1,106 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Loader2, X } from "lucide-react"
+
+/** 魔棒参数，未启用的限制为 undefined */
+export interface WandSettings {
+  radius: number
+  maxColorDistance?: number
+  maxNormalAngle?: number
+}
+
+export const DEFAULT_WAND_SETTINGS: WandSettings = { radius: 0.2 }
+
+interface WandPanelProps {
+  settings: WandSettings
+  onChange: (settings: WandSettings) => void
+  isGrowing: boolean
+  onCancel: () => void
+  error: string | null
+}
+
+const inputClassName = "h-8 w-20 rounded-md border bg-background px-2 text-sm"
+
+// 非法或非正数的输入保持原值
+function parsePositive(value: string, fallback: number): number {
+  const number = Number(value)
+  return Number.isFinite(number) && number > 0 ? number : fallback
+}
+
+/**
+ * 魔棒设置：邻域距离，以及可选的颜色 / 法线相似度限制
+ */
+export function WandPanel({ settings, onChange, isGrowing, onCancel, error }: WandPanelProps) {
+  return (
+    <div className="absolute bottom-4 left-1/2 -translate-x-1/2 flex flex-col gap-1 rounded-lg border border-border bg-card/90 px-3 py-2 text-sm">
+      <div className="flex items-center gap-3">
+        <label className="flex items-center gap-2 text-muted-foreground">
+          Distance
+          <input
+            type="number"
+            min={0}
+            step={0.05}
+            value={settings.radius}
+            onChange={(e) => onChange({ ...settings, radius: parsePositive(e.target.value, settings.radius) })}
+            className={inputClassName}
+          />
+        </label>
+
+        <label className="flex items-center gap-2 text-muted-foreground">
+          <input
+            type="checkbox"
+            checked={settings.maxColorDistance !== undefined}
+            onChange={(e) => onChange({ ...settings, maxColorDistance: e.target.checked ? 0.1 : undefined })}
+          />
+          Color
+        </label>
+        {settings.maxColorDistance !== undefined && (
+          <input
+            type="number"
+            min={0}
+            step={0.01}
+            value={settings.maxColorDistance}
+            onChange={(e) =>
+              onChange({ ...settings, maxColorDistance: parsePositive(e.target.value, settings.maxColorDistance!) })
+            }
+            title="Max RGB distance between neighbors (0–1.73)"
+            className={inputClassName}
+          />
+        )}
+
+        <label className="flex items-center gap-2 text-muted-foreground">
+          <input
+            type="checkbox"
+            checked={settings.maxNormalAngle !== undefined}
+            onChange={(e) => onChange({ ...settings, maxNormalAngle: e.target.checked ? 15 : undefined })}
+          />
+          Normal
+        </label>
+        {settings.maxNormalAngle !== undefined && (
+          <input
+            type="number"
+            min={0}
+            max={90}
+            step={1}
+            value={settings.maxNormalAngle}
+            onChange={(e) =>
+              onChange({ ...settings, maxNormalAngle: parsePositive(e.target.value, settings.maxNormalAngle!) })
+            }
+            title="Max angle between neighbor normals (degrees)"
+            className={inputClassName}
+          />
+        )}
+
+        {isGrowing && (
+          <Button size="sm" variant="ghost" onClick={onCancel} className="gap-1">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Growing…
+            <X className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  )
+}
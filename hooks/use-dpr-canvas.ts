@@ -0,0 +1,41 @@
+import { useEffect, type RefObject } from "react"
+
+/**
+ * 让覆盖层画布按物理像素分配尺寸：挂载、窗口尺寸变化以及 devicePixelRatio 变化时重新设置 width / height
+ *
+ * 调整尺寸会清空画布，每次调整后都会调用 redraw；绘制时用 setTransform(dpr, …) 继续使用 CSS 像素坐标
+ */
+export function useDprCanvas(canvasRef: RefObject<HTMLCanvasElement | null>, redraw: () => void) {
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+
+    const handleResize = () => {
+      const dpr = window.devicePixelRatio || 1
+      canvas.width = Math.round(canvas.offsetWidth * dpr)
+      canvas.height = Math.round(canvas.offsetHeight * dpr)
+      redraw()
+    }
+
+    // 缩放页面或把窗口拖到另一块屏幕时 devicePixelRatio 会变化，
+    // 这类媒体查询只匹配当前比例，变化后需要按新比例重新注册
+    let media: MediaQueryList | null = null
+    const watchPixelRatio = () => {
+      media?.removeEventListener("change", handlePixelRatioChange)
+      media = window.matchMedia(`(resolution: ${window.devicePixelRatio || 1}dppx)`)
+      media.addEventListener("change", handlePixelRatioChange)
+    }
+    const handlePixelRatioChange = () => {
+      handleResize()
+      watchPixelRatio()
+    }
+
+    handleResize()
+    watchPixelRatio()
+    window.addEventListener("resize", handleResize)
+    return () => {
+      window.removeEventListener("resize", handleResize)
+      media?.removeEventListener("change", handlePixelRatioChange)
+    }
+  }, [canvasRef, redraw])
+}
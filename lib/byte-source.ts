@@ -0,0 +1,136 @@
+/**
+ * 分块读取文件
+ *
+ * 解析器通过 ByteSource 按需读取字节，而不是一次性拿到整个 ArrayBuffer：
+ * - Worker 中直接对 File 调用 slice，多 GB 的文件也不需要整体读入内存
+ * - 已经在内存中的 ArrayBuffer 也可以包装成 ByteSource，读取时不拷贝
+ */
+export interface ByteSource {
+  size: number
+  read(start: number, end: number): Promise<Uint8Array>
+}
+
+// 每次读取的字节数
+export const CHUNK_SIZE = 16 * 1024 * 1024
+
+export function blobSource(blob: Blob): ByteSource {
+  return {
+    size: blob.size,
+    read: async (start, end) => new Uint8Array(await blob.slice(start, end).arrayBuffer()),
+  }
+}
+
+export function bufferSource(buffer: ArrayBuffer): ByteSource {
+  return {
+    size: buffer.byteLength,
+    read: async (start, end) => {
+      const from = Math.min(start, buffer.byteLength)
+      const to = Math.min(end, buffer.byteLength)
+      return new Uint8Array(buffer, from, Math.max(0, to - from))
+    },
+  }
+}
+
+export interface ParseProgress {
+  bytesProcessed: number
+  totalBytes: number
+  pointsDecoded: number
+}
+
+export type ProgressCallback = (progress: ParseProgress) => void
+
+export function viewOf(bytes: Uint8Array): DataView {
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+}
+
+/**
+ * 从 start 开始逐块读取，未消费的尾部字节会拼接到下一块的开头
+ *
+ * onChunk 返回本块消费的字节数；返回 false 时停止读取。
+ * final 为 true 表示这是最后一块，此时应消费所有能解析的字节。
+ */
+export async function forEachByteChunk(
+  source: ByteSource,
+  start: number,
+  onChunk: (bytes: Uint8Array, final: boolean, bytesProcessed: number) => number | false,
+): Promise<void> {
+  let position = start
+  let carry: Uint8Array | null = null
+
+  while (position < source.size || carry) {
+    const next = await source.read(position, Math.min(position + CHUNK_SIZE, source.size))
+    position += next.length
+    const final = position >= source.size || next.length === 0
+
+    let bytes = next
+    if (carry && carry.length > 0) {
+      bytes = new Uint8Array(carry.length + next.length)
+      bytes.set(carry, 0)
+      bytes.set(next, carry.length)
+    }
+
+    const consumed = onChunk(bytes, final, position)
+    if (consumed === false || final) return
+    carry = bytes.subarray(consumed)
+  }
+}
+
+/**
+ * 读取定长记录：每块包含整数个记录
+ * 文件被截断时只回调完整的记录
+ */
+export async function forEachRecordChunk(
+  source: ByteSource,
+  start: number,
+  recordSize: number,
+  recordCount: number,
+  onChunk: (view: DataView, firstRecord: number, count: number, bytesProcessed: number) => void,
+): Promise<void> {
+  const recordsPerChunk = Math.max(1, Math.floor(CHUNK_SIZE / recordSize))
+
+  for (let first = 0; first < recordCount; first += recordsPerChunk) {
+    const count = Math.min(recordsPerChunk, recordCount - first)
+    const from = start + first * recordSize
+    const bytes = await source.read(from, from + count * recordSize)
+    const available = Math.floor(bytes.length / recordSize)
+    if (available > 0) {
+      onChunk(viewOf(bytes), first, available, from + available * recordSize)
+    }
+    if (available < count) return
+  }
+}
+
+/**
+ * 按行读取文本：每次回调一批完整的行（不含换行符）
+ * onLines 返回 false 时停止读取
+ */
+export async function forEachLineChunk(
+  source: ByteSource,
+  start: number,
+  onLines: (lines: string[], bytesProcessed: number) => boolean | void,
+): Promise<void> {
+  const decoder = new TextDecoder()
+  let position = start
+  let remainder = ""
+
+  while (position < source.size) {
+    const bytes = await source.read(position, Math.min(position + CHUNK_SIZE, source.size))
+    if (bytes.length === 0) break
+    position += bytes.length
+
+    // stream 模式会保留被截断的多字节字符
+    const text = remainder + decoder.decode(bytes, { stream: position < source.size })
+    const lastNewline = text.lastIndexOf("\n")
+    if (lastNewline === -1) {
+      remainder = text
+      continue
+    }
+
+    remainder = text.slice(lastNewline + 1)
+    if (onLines(text.slice(0, lastNewline).split("\n"), position) === false) return
+  }
+
+  if (remainder !== "") {
+    onLines([remainder], position)
+  }
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest"
+import {
+  createDepthBuffer,
+  depthCellIndex,
+  getShapeBounds,
+  isOccluded,
+  mergeDepthBuffers,
+  writeDepth,
+} from "./depth-buffer"
+
+const viewport = { width: 100, height: 80 }
+
+describe("createDepthBuffer", () => {
+  it("covers the shape bounds in cells clipped to the viewport", () => {
+    const buffer = createDepthBuffer({ kind: "circle", cx: 95, cy: 10, radius: 10 }, viewport, 4)
+    expect(buffer).toMatchObject({ x0: 85, y0: 0, cols: 4, rows: 6, cellSize: 4 })
+    expect(buffer.depth.every((d) => d === Number.POSITIVE_INFINITY)).toBe(true)
+  })
+
+  it("measures polygon bounds from every vertex", () => {
+    const path = [
+      { x: 10, y: 40 },
+      { x: 30, y: 5 },
+      { x: 50, y: 60 },
+    ]
+    expect(getShapeBounds({ kind: "polygon", path })).toEqual({ minX: 10, minY: 5, maxX: 50, maxY: 60 })
+  })
+
+  it("maps screen positions to cells and rejects positions outside the buffer", () => {
+    const buffer = createDepthBuffer({ kind: "rectangle", x0: 20, y0: 10, x1: 29, y1: 15 }, viewport, 3)
+    expect(depthCellIndex(buffer, 20, 10)).toBe(0)
+    expect(depthCellIndex(buffer, 26.5, 13.9)).toBe(buffer.cols + 2)
+    expect(depthCellIndex(buffer, 19.9, 10)).toBe(-1)
+    expect(depthCellIndex(buffer, 20, 10 + buffer.rows * 3)).toBe(-1)
+  })
+})
+
+describe("visible-only filtering", () => {
+  const shape = { kind: "rectangle", x0: 0, y0: 0, x1: 8, y1: 8 } as const
+
+  it("keeps the nearest point of a cell and hides the points behind it", () => {
+    const buffer = createDepthBuffer(shape, viewport, 3)
+    writeDepth(buffer, 1, 1, 5)
+    writeDepth(buffer, 2, 2, 9)
+    writeDepth(buffer, 4, 1, 9)
+
+    expect(isOccluded(buffer, 1, 1, 5, 0)).toBe(false)
+    expect(isOccluded(buffer, 2, 2, 9, 0)).toBe(true)
+    // 相邻格子没有更近的点，不被遮挡
+    expect(isOccluded(buffer, 4, 1, 9, 0)).toBe(false)
+    // 缓冲之外的点不做深度测试
+    expect(isOccluded(buffer, 50, 50, 100, 0)).toBe(false)
+  })
+
+  it("lets points within the tolerance of the nearest depth through", () => {
+    const buffer = createDepthBuffer(shape, viewport, 3)
+    writeDepth(buffer, 1, 1, 5)
+    expect(isOccluded(buffer, 1, 1, 5.4, 0.5)).toBe(false)
+    expect(isOccluded(buffer, 1, 1, 5.6, 0.5)).toBe(true)
+  })
+
+  it("merges the partial buffers of each worker by the nearest depth", () => {
+    const first = createDepthBuffer(shape, viewport, 3)
+    const second = createDepthBuffer(shape, viewport, 3)
+    writeDepth(first, 1, 1, 5)
+    writeDepth(first, 4, 1, 9)
+    writeDepth(second, 1, 1, 7)
+    writeDepth(second, 4, 1, 2)
+
+    mergeDepthBuffers(first, second.depth)
+    expect(isOccluded(first, 1, 1, 6, 0)).toBe(true)
+    expect(isOccluded(first, 4, 1, 3, 0)).toBe(true)
+    expect(isOccluded(first, 4, 1, 2, 0)).toBe(false)
+  })
+})
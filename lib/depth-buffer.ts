@@ -0,0 +1,104 @@
+import type { ScreenSelectionShape } from "./types"
+
+/**
+ * 屏幕空间深度缓冲（用于“只选可见点”）
+ *
+ * 只覆盖选择区域的包围盒，按 cellSize × cellSize 像素为一格记录最近的深度（裁剪空间 w，即视线方向距离）。
+ * 点云本身有空隙，逐像素的缓冲会让后方的点从缝隙中“漏”过深度测试，因此用稍大的格子近似点的屏幕尺寸。
+ */
+export interface DepthBuffer {
+  // 覆盖区域左上角（像素）
+  x0: number
+  y0: number
+  cols: number
+  rows: number
+  cellSize: number
+  // 每格最近的深度，没有点的格子为 +Infinity
+  depth: Float32Array
+}
+
+export const DEFAULT_DEPTH_CELL_SIZE = 3
+
+/** 选择区域在屏幕上的包围盒 */
+export function getShapeBounds(shape: ScreenSelectionShape): { minX: number; minY: number; maxX: number; maxY: number } {
+  switch (shape.kind) {
+    case "rectangle":
+      return {
+        minX: Math.min(shape.x0, shape.x1),
+        minY: Math.min(shape.y0, shape.y1),
+        maxX: Math.max(shape.x0, shape.x1),
+        maxY: Math.max(shape.y0, shape.y1),
+      }
+    case "circle":
+      return {
+        minX: shape.cx - shape.radius,
+        minY: shape.cy - shape.radius,
+        maxX: shape.cx + shape.radius,
+        maxY: shape.cy + shape.radius,
+      }
+    case "polygon": {
+      let minX = Number.POSITIVE_INFINITY
+      let minY = Number.POSITIVE_INFINITY
+      let maxX = Number.NEGATIVE_INFINITY
+      let maxY = Number.NEGATIVE_INFINITY
+      for (const p of shape.path) {
+        if (p.x < minX) minX = p.x
+        if (p.x > maxX) maxX = p.x
+        if (p.y < minY) minY = p.y
+        if (p.y > maxY) maxY = p.y
+      }
+      return { minX, minY, maxX, maxY }
+    }
+  }
+}
+
+/** 为选择区域创建空的深度缓冲，区域会被裁剪到视口内 */
+export function createDepthBuffer(
+  shape: ScreenSelectionShape,
+  viewport: { width: number; height: number },
+  cellSize = DEFAULT_DEPTH_CELL_SIZE,
+): DepthBuffer {
+  const bounds = getShapeBounds(shape)
+  const x0 = Math.max(0, Math.floor(bounds.minX))
+  const y0 = Math.max(0, Math.floor(bounds.minY))
+  const x1 = Math.min(viewport.width, Math.ceil(bounds.maxX) + 1)
+  const y1 = Math.min(viewport.height, Math.ceil(bounds.maxY) + 1)
+  const cols = Math.max(0, Math.ceil((x1 - x0) / cellSize))
+  const rows = Math.max(0, Math.ceil((y1 - y0) / cellSize))
+
+  return { x0, y0, cols, rows, cellSize, depth: new Float32Array(cols * rows).fill(Number.POSITIVE_INFINITY) }
+}
+
+/** 屏幕坐标所在的格子序号，区域外返回 -1 */
+export function depthCellIndex(buffer: DepthBuffer, screenX: number, screenY: number): number {
+  const col = Math.floor((screenX - buffer.x0) / buffer.cellSize)
+  const row = Math.floor((screenY - buffer.y0) / buffer.cellSize)
+  if (col < 0 || row < 0 || col >= buffer.cols || row >= buffer.rows) return -1
+  return row * buffer.cols + col
+}
+
+/** 记录一个点的深度，格子里只保留最近的 */
+export function writeDepth(buffer: DepthBuffer, screenX: number, screenY: number, w: number) {
+  const cell = depthCellIndex(buffer, screenX, screenY)
+  if (cell >= 0 && w < buffer.depth[cell]) buffer.depth[cell] = w
+}
+
+/** 点是否被同一格中更近的点遮挡；tolerance 允许同一表面上略靠后的点通过 */
+export function isOccluded(
+  buffer: DepthBuffer,
+  screenX: number,
+  screenY: number,
+  w: number,
+  tolerance: number,
+): boolean {
+  const cell = depthCellIndex(buffer, screenX, screenY)
+  return cell >= 0 && w > buffer.depth[cell] + tolerance
+}
+
+/** 逐格取最小值，把各 Worker 的局部深度合并到 target */
+export function mergeDepthBuffers(target: DepthBuffer, source: Float32Array) {
+  const { depth } = target
+  for (let i = 0; i < depth.length; i++) {
+    if (source[i] < depth[i]) depth[i] = source[i]
+  }
+}
@@ -0,0 +1,211 @@
+import { describe, expect, it } from "vitest"
+import { bufferSource } from "./byte-source"
+import { parseLAS } from "./las-parser"
+import { PointCloudParseError } from "./parse-error"
+
+interface TestPoint {
+  xyz: [number, number, number]
+  intensity?: number
+  returns?: [number, number]
+  classification?: number
+  gpsTime?: number
+  rgb?: [number, number, number]
+}
+
+// 各格式的记录长度与字段偏移，独立于解析器按规范写出
+const FORMATS: { [format: number]: { length: number; extended: boolean; gpsTime?: number; rgb?: number } } = {
+  0: { length: 20, extended: false },
+  1: { length: 28, extended: false, gpsTime: 20 },
+  2: { length: 26, extended: false, rgb: 20 },
+  3: { length: 34, extended: false, gpsTime: 20, rgb: 28 },
+  6: { length: 30, extended: true, gpsTime: 22 },
+  7: { length: 36, extended: true, gpsTime: 22, rgb: 30 },
+  8: { length: 38, extended: true, gpsTime: 22, rgb: 30 },
+}
+
+const SCALE = 0.25
+
+// 点格式 6-8 写为 LAS 1.4 头部（375 字节，点数只写在 64 位字段），其余写为 LAS 1.2 头部
+function lasFile(format: number, points: TestPoint[], offset: [number, number, number] = [0, 0, 0]): ArrayBuffer {
+  const layout = FORMATS[format]
+  const headerSize = layout.extended ? 375 : 227
+  const bytes = new Uint8Array(headerSize + layout.length * points.length)
+  const view = new DataView(bytes.buffer)
+  bytes.set(new TextEncoder().encode("LASF"))
+  view.setUint8(24, 1)
+  view.setUint8(25, layout.extended ? 4 : 2)
+  view.setUint16(94, headerSize, true)
+  view.setUint32(96, headerSize, true)
+  view.setUint8(104, format)
+  view.setUint16(105, layout.length, true)
+  if (layout.extended) {
+    view.setBigUint64(247, BigInt(points.length), true)
+  } else {
+    view.setUint32(107, points.length, true)
+  }
+  for (let axis = 0; axis < 3; axis++) {
+    const values = points.map((point) => point.xyz[axis])
+    view.setFloat64(131 + axis * 8, SCALE, true)
+    view.setFloat64(155 + axis * 8, offset[axis], true)
+    view.setFloat64(179 + axis * 16, Math.max(...values), true)
+    view.setFloat64(187 + axis * 16, Math.min(...values), true)
+  }
+
+  points.forEach((point, i) => {
+    const record = headerSize + i * layout.length
+    point.xyz.forEach((value, axis) => view.setInt32(record + axis * 4, (value - offset[axis]) / SCALE, true))
+    view.setUint16(record + 12, point.intensity ?? 0, true)
+    const [returnNumber, numberOfReturns] = point.returns ?? [1, 1]
+    view.setUint8(record + 14, layout.extended ? (numberOfReturns << 4) | returnNumber : (numberOfReturns << 3) | returnNumber)
+    view.setUint8(record + (layout.extended ? 16 : 15), point.classification ?? 0)
+    if (layout.gpsTime !== undefined) view.setFloat64(record + layout.gpsTime, point.gpsTime ?? 0, true)
+    if (layout.rgb !== undefined) {
+      const rgb = point.rgb ?? [0, 0, 0]
+      rgb.forEach((value, k) => view.setUint16(record + layout.rgb! + k * 2, value, true))
+    }
+  })
+  return bytes.buffer
+}
+
+const parse = (...args: Parameters<typeof lasFile>) => parseLAS(bufferSource(lasFile(...args)))
+
+describe("parseLAS point formats", () => {
+  it("reads format 0 positions, intensity, returns and classification", async () => {
+    const parsed = await parse(0, [
+      { xyz: [1.5, -2, 3.25], intensity: 1200, returns: [2, 3], classification: 2 },
+      // 高 3 位为 synthetic / key-point / withheld 标记，不属于分类
+      { xyz: [4, 5, 6], intensity: 7, returns: [1, 1], classification: 0x80 | 6 },
+    ])
+    expect(parsed.count).toBe(2)
+    expect(Array.from(parsed.positions)).toEqual([1.5, -2, 3.25, 4, 5, 6])
+    expect(Array.from(parsed.attributes!.intensity.array)).toEqual([1200, 7])
+    expect(Array.from(parsed.attributes!.return_number.array)).toEqual([2, 1])
+    expect(Array.from(parsed.attributes!.number_of_returns.array)).toEqual([3, 1])
+    expect(Array.from(parsed.attributes!.classification.array)).toEqual([2, 6])
+    expect(parsed.attributes!.gps_time).toBeUndefined()
+    expect(parsed.metadata?.colorEncoding).toBeNull()
+    expect(Array.from(parsed.colors)).toEqual([1, 1, 1, 1, 1, 1])
+  })
+
+  it("reads gps_time from format 1 as float64", async () => {
+    const parsed = await parse(1, [
+      { xyz: [0, 0, 0], gpsTime: 271_828.182845 },
+      { xyz: [1, 1, 1], gpsTime: 314_159.265358 },
+    ])
+    const gpsTime = parsed.attributes!.gps_time
+    expect(gpsTime.array).toBeInstanceOf(Float64Array)
+    expect(Array.from(gpsTime.array)).toEqual([271_828.182845, 314_159.265358])
+  })
+
+  it("scales 16-bit RGB from format 2 to [0, 1]", async () => {
+    const parsed = await parse(2, [
+      { xyz: [0, 0, 0], rgb: [65535, 0, 13107] },
+      { xyz: [1, 1, 1], rgb: [256, 65535, 0] },
+    ])
+    expect(parsed.metadata?.colorEncoding).toBe("channels")
+    expect(Array.from(parsed.colors)).toEqual(Array.from(new Float32Array([1, 0, 0.2, 256 / 65535, 1, 0])))
+  })
+
+  it("treats RGB that never exceeds 255 as 8-bit", async () => {
+    const parsed = await parse(2, [
+      { xyz: [0, 0, 0], rgb: [255, 0, 51] },
+      { xyz: [1, 1, 1], rgb: [0, 255, 102] },
+    ])
+    expect(Array.from(parsed.colors)).toEqual(Array.from(new Float32Array([1, 0, 0.2, 0, 1, 0.4])))
+  })
+
+  it("reads both gps_time and RGB from format 3", async () => {
+    const parsed = await parse(3, [{ xyz: [2, 4, 8], gpsTime: 12.5, rgb: [65535, 65535, 0], classification: 9 }])
+    expect(Array.from(parsed.attributes!.gps_time.array)).toEqual([12.5])
+    expect(Array.from(parsed.colors)).toEqual([1, 1, 0])
+    expect(Array.from(parsed.attributes!.classification.array)).toEqual([9])
+  })
+
+  it("reads the extended return fields and classification of format 6 from a LAS 1.4 header", async () => {
+    const parsed = await parse(6, [
+      // 回波号超过 7、分类超过 31 只能用新格式表示
+      { xyz: [1, 2, 3], returns: [9, 12], classification: 40, gpsTime: 1.25 },
+      { xyz: [-1, -2, -3], returns: [15, 15], classification: 255, gpsTime: 2.5 },
+    ])
+    expect(parsed.count).toBe(2)
+    expect(Array.from(parsed.positions)).toEqual([1, 2, 3, -1, -2, -3])
+    expect(Array.from(parsed.attributes!.return_number.array)).toEqual([9, 15])
+    expect(Array.from(parsed.attributes!.number_of_returns.array)).toEqual([12, 15])
+    expect(Array.from(parsed.attributes!.classification.array)).toEqual([40, 255])
+    expect(Array.from(parsed.attributes!.gps_time.array)).toEqual([1.25, 2.5])
+    expect(parsed.metadata?.colorEncoding).toBeNull()
+  })
+
+  it.each([7, 8])("reads RGB and gps_time from format %i", async (format) => {
+    const parsed = await parse(format, [
+      { xyz: [0, 0, 0], returns: [3, 4], classification: 64, gpsTime: 99.75, rgb: [0, 65535, 13107] },
+    ])
+    expect(Array.from(parsed.colors)).toEqual(Array.from(new Float32Array([0, 1, 0.2])))
+    expect(Array.from(parsed.attributes!.gps_time.array)).toEqual([99.75])
+    expect(Array.from(parsed.attributes!.return_number.array)).toEqual([3])
+    expect(Array.from(parsed.attributes!.number_of_returns.array)).toEqual([4])
+    expect(Array.from(parsed.attributes!.classification.array)).toEqual([64])
+  })
+})
+
+describe("parseLAS origin", () => {
+  it("leaves small coordinates in place without an origin", async () => {
+    const parsed = await parse(0, [{ xyz: [100, 200, 10] }, { xyz: [-100, 300, 20] }])
+    expect(parsed.origin).toBeUndefined()
+    expect(Array.from(parsed.positions)).toEqual([100, 200, 10, -100, 300, 20])
+  })
+
+  it("recenters UTM-scale coordinates around the bounding box center", async () => {
+    const points: TestPoint[] = [{ xyz: [500_000, 4_000_000, 10] }, { xyz: [500_100.5, 4_000_200.25, 30] }]
+    const parsed = await parse(0, points, [500_000, 4_000_000, 0])
+    expect(parsed.origin).toEqual([500_050.25, 4_000_100.125, 20])
+    expect(Array.from(parsed.positions)).toEqual([-50.25, -100.125, -10, 50.25, 100.125, 10])
+  })
+})
+
+// 点格式 0 的两点文件，用于构造各种损坏的头部和数据
+const referenceFile = () => new Uint8Array(lasFile(0, [{ xyz: [0, 0, 0] }, { xyz: [1, 2, 3] }]))
+
+async function parseError(bytes: Uint8Array): Promise<PointCloudParseError> {
+  const error = await parseLAS(bufferSource(bytes.buffer as ArrayBuffer)).then(
+    () => null,
+    (error: unknown) => error,
+  )
+  expect(error).toBeInstanceOf(PointCloudParseError)
+  return error as PointCloudParseError
+}
+
+describe("parseLAS errors", () => {
+  it("rejects files without the LASF signature", async () => {
+    const bytes = referenceFile()
+    bytes.set(new TextEncoder().encode("LASX"))
+    const error = await parseError(bytes)
+    expect(error).toMatchObject({ code: "INVALID_HEADER", location: { kind: "byte", value: 0 } })
+  })
+
+  it("rejects a header shorter than LAS 1.2", async () => {
+    const error = await parseError(referenceFile().slice(0, 100))
+    expect(error).toMatchObject({ code: "TRUNCATED_DATA", actual: "100 bytes" })
+  })
+
+  it("rejects LAZ-compressed point data", async () => {
+    const bytes = referenceFile()
+    bytes[104] = 0x80
+    const error = await parseError(bytes)
+    expect(error).toMatchObject({ code: "INVALID_HEADER", location: { kind: "byte", value: 104 } })
+  })
+
+  it("rejects record lengths too short for the point format", async () => {
+    const bytes = referenceFile()
+    new DataView(bytes.buffer).setUint16(105, 12, true)
+    const error = await parseError(bytes)
+    expect(error).toMatchObject({ code: "INVALID_HEADER", location: { kind: "byte", value: 105 } })
+  })
+
+  it("rejects point data shorter than the header's point count", async () => {
+    const bytes = referenceFile()
+    const error = await parseError(bytes.slice(0, bytes.length - 1))
+    expect(error.code).toBe("TRUNCATED_DATA")
+    expect(error.message).toContain("1 of 2 points")
+  })
+})
@@ -0,0 +1,239 @@
+import type { PointCloudData } from "./types"
+import { allocateArray } from "./shared-memory"
+import { forEachRecordChunk, viewOf, type ByteSource, type ProgressCallback } from "./byte-source"
+import { ORIGIN_THRESHOLD, PointCloudBuilder, type AttributeSpec } from "./point-cloud-builder"
+import { IDENTITY_VIEWPOINT } from "./viewpoint"
+import { PointCloudParseError } from "./parse-error"
+
+/**
+ * 各点记录格式中字段的字节偏移（相对于记录起点）
+ * 0-3 为旧格式，6-8 为 LAS 1.4 新增格式；null 表示该格式没有此字段
+ */
+interface PointFormatLayout {
+  minLength: number
+  // 旧格式把回波号/回波数打包在同一字节（各 3 位），新格式各 4 位
+  extendedReturns: boolean
+  classification: number
+  gpsTime: number | null
+  rgb: number | null
+}
+
+const POINT_FORMATS: { [format: number]: PointFormatLayout } = {
+  0: { minLength: 20, extendedReturns: false, classification: 15, gpsTime: null, rgb: null },
+  1: { minLength: 28, extendedReturns: false, classification: 15, gpsTime: 20, rgb: null },
+  2: { minLength: 26, extendedReturns: false, classification: 15, gpsTime: null, rgb: 20 },
+  3: { minLength: 34, extendedReturns: false, classification: 15, gpsTime: 20, rgb: 28 },
+  6: { minLength: 30, extendedReturns: true, classification: 16, gpsTime: 22, rgb: null },
+  7: { minLength: 36, extendedReturns: true, classification: 16, gpsTime: 22, rgb: 30 },
+  8: { minLength: 38, extendedReturns: true, classification: 16, gpsTime: 22, rgb: 30 },
+}
+
+interface LASHeader {
+  versionMajor: number
+  versionMinor: number
+  pointDataOffset: number
+  pointFormat: number
+  pointRecordLength: number
+  pointCount: number
+  scale: [number, number, number]
+  offset: [number, number, number]
+  min: [number, number, number]
+  max: [number, number, number]
+}
+
+// LAS 1.0-1.2 头部的长度，也是各版本共有字段的范围
+const MIN_HEADER_SIZE = 227
+
+function parseHeader(view: DataView): LASHeader {
+  const signature = String.fromCharCode(...new Uint8Array(view.buffer, view.byteOffset, Math.min(4, view.byteLength)))
+  if (signature !== "LASF") {
+    throw new PointCloudParseError("INVALID_HEADER", "LAS file does not start with \"LASF\"", {
+      location: { kind: "byte", value: 0 },
+      expected: "LASF",
+      actual: signature,
+    })
+  }
+  if (view.byteLength < MIN_HEADER_SIZE) {
+    throw new PointCloudParseError("TRUNCATED_DATA", "LAS header is truncated", {
+      location: { kind: "byte", value: view.byteLength },
+      expected: `${MIN_HEADER_SIZE} bytes`,
+      actual: `${view.byteLength} bytes`,
+    })
+  }
+
+  const versionMajor = view.getUint8(24)
+  const versionMinor = view.getUint8(25)
+  const headerSize = view.getUint16(94, true)
+  const rawFormat = view.getUint8(104)
+
+  // 最高两位被 LAZ 用作压缩标记
+  if (rawFormat & 0xc0) {
+    throw new PointCloudParseError("INVALID_HEADER", "Compressed LAZ files are not supported", {
+      location: { kind: "byte", value: 104 },
+      expected: "uncompressed point data record format",
+      actual: `LAZ (format byte ${rawFormat})`,
+    })
+  }
+
+  // LAS 1.4 中旧的 32 位点数可能为 0，此时使用 64 位点数
+  let pointCount = view.getUint32(107, true)
+  if (versionMinor >= 4 && headerSize >= 375 && pointCount === 0) {
+    pointCount = Number(view.getBigUint64(247, true))
+  }
+
+  return {
+    versionMajor,
+    versionMinor,
+    pointDataOffset: view.getUint32(96, true),
+    pointFormat: rawFormat & 0x3f,
+    pointRecordLength: view.getUint16(105, true),
+    pointCount,
+    scale: [view.getFloat64(131, true), view.getFloat64(139, true), view.getFloat64(147, true)],
+    offset: [view.getFloat64(155, true), view.getFloat64(163, true), view.getFloat64(171, true)],
+    max: [view.getFloat64(179, true), view.getFloat64(195, true), view.getFloat64(211, true)],
+    min: [view.getFloat64(187, true), view.getFloat64(203, true), view.getFloat64(219, true)],
+  }
+}
+
+/**
+ * 解析 LAS 1.2-1.4 文件
+ *
+ * - 坐标按头部的 scale / offset 还原为真实坐标
+ * - 坐标较大时以包围盒中心为原点平移，平移量记录在 origin 上，避免在 float32 中丢失精度
+ * - 支持点记录格式 0-3 与 6-8，读取 RGB、intensity、回波号和分类
+ * - 点记录按块读取，直接写入按头部点数预分配的 TypedArray
+ *
+ * @param source - 文件的分块读取接口
+ * @param onProgress - 每处理完一块数据回调一次
+ * @returns 与 PCD 解析相同格式的点云数据
+ */
+export async function parseLAS(source: ByteSource, onProgress?: ProgressCallback): Promise<PointCloudData> {
+  // 头部最长 375 字节（LAS 1.4）
+  const header = parseHeader(viewOf(await source.read(0, Math.min(375, source.size))))
+
+  const layout = POINT_FORMATS[header.pointFormat]
+  if (!layout) {
+    throw new PointCloudParseError(
+      "INVALID_HEADER",
+      `Unsupported LAS point data record format ${header.pointFormat}`,
+      {
+        location: { kind: "byte", value: 104 },
+        expected: Object.keys(POINT_FORMATS).join(" | "),
+        actual: header.pointFormat,
+      },
+    )
+  }
+  if (header.pointRecordLength < layout.minLength) {
+    throw new PointCloudParseError(
+      "INVALID_HEADER",
+      `LAS point record length ${header.pointRecordLength} is too short for format ${header.pointFormat}`,
+      { location: { kind: "byte", value: 105 }, expected: `>= ${layout.minLength}`, actual: header.pointRecordLength },
+    )
+  }
+
+  const recordLength = header.pointRecordLength
+  const count = header.pointCount
+  // 与 PCD 二进制一致：数据比头部声明的短时报错，而不是静默读取一部分
+  const expectedSize = header.pointDataOffset + recordLength * count
+  if (source.size < expectedSize) {
+    const available = Math.max(0, Math.floor((source.size - header.pointDataOffset) / recordLength))
+    throw new PointCloudParseError(
+      "TRUNCATED_DATA",
+      `LAS point data is truncated: ${available} of ${count} points present`,
+      { location: { kind: "byte", value: source.size }, expected: `${expectedSize} bytes`, actual: `${source.size} bytes` },
+    )
+  }
+
+  const [scaleX, scaleY, scaleZ] = header.scale
+  const [offsetX, offsetY, offsetZ] = header.offset
+  // 包围盒都在阈值内时 float32 足够精确，不平移也不设置 origin（导出时 origin 会让坐标写为 F 8）
+  const extent = Math.max(...header.min.map(Math.abs), ...header.max.map(Math.abs))
+  const origin: [number, number, number] | undefined =
+    extent < ORIGIN_THRESHOLD
+      ? undefined
+      : [(header.min[0] + header.max[0]) / 2, (header.min[1] + header.max[1]) / 2, (header.min[2] + header.max[2]) / 2]
+  const [originX, originY, originZ] = origin ?? [0, 0, 0]
+  // 先在 float64 中合并 offset 与 origin，逐点只需一次乘加
+  const shiftX = offsetX - originX
+  const shiftY = offsetY - originY
+  const shiftZ = offsetZ - originZ
+
+  const specs: AttributeSpec[] = [
+    { name: "intensity", itemSize: 1, create: (length) => allocateArray(Uint16Array, length) },
+    { name: "return_number", itemSize: 1, create: (length) => allocateArray(Uint8Array, length) },
+    { name: "number_of_returns", itemSize: 1, create: (length) => allocateArray(Uint8Array, length) },
+    { name: "classification", itemSize: 1, create: (length) => allocateArray(Uint8Array, length) },
+  ]
+  if (layout.gpsTime !== null) {
+    specs.push({ name: "gps_time", itemSize: 1, create: (length) => allocateArray(Float64Array, length) })
+  }
+  const builder = new PointCloudBuilder(count, specs)
+  const { positions, colors } = builder
+  const [intensity, returnNumber, numberOfReturns, classification, gpsTime] = builder.attributes
+
+  // 很多软件把 8 位颜色直接写入 16 位字段：先按 16 位归一化并记录最大值，
+  // 读完后若最大值不超过 255，再整体换算为 8 位范围
+  let maxChannel = 0
+
+  await forEachRecordChunk(source, header.pointDataOffset, recordLength, count, (view, _first, chunkCount, bytesProcessed) => {
+    for (let n = 0; n < chunkCount; n++) {
+      const record = n * recordLength
+      const i = builder.count++
+      const out = i * 3
+
+      positions[out] = view.getInt32(record, true) * scaleX + shiftX
+      positions[out + 1] = view.getInt32(record + 4, true) * scaleY + shiftY
+      positions[out + 2] = view.getInt32(record + 8, true) * scaleZ + shiftZ
+
+      intensity[i] = view.getUint16(record + 12, true)
+
+      const returns = view.getUint8(record + 14)
+      if (layout.extendedReturns) {
+        returnNumber[i] = returns & 0x0f
+        numberOfReturns[i] = (returns >> 4) & 0x0f
+        classification[i] = view.getUint8(record + layout.classification)
+      } else {
+        returnNumber[i] = returns & 0x07
+        numberOfReturns[i] = (returns >> 3) & 0x07
+        // 旧格式中高 3 位是 synthetic / key-point / withheld 标记
+        classification[i] = view.getUint8(record + layout.classification) & 0x1f
+      }
+
+      if (gpsTime) {
+        gpsTime[i] = view.getFloat64(record + layout.gpsTime!, true)
+      }
+
+      if (layout.rgb !== null) {
+        const rgb = record + layout.rgb
+        const r = view.getUint16(rgb, true)
+        const g = view.getUint16(rgb + 2, true)
+        const b = view.getUint16(rgb + 4, true)
+        if (r > maxChannel) maxChannel = r
+        if (g > maxChannel) maxChannel = g
+        if (b > maxChannel) maxChannel = b
+        colors[out] = r / 65535
+        colors[out + 1] = g / 65535
+        colors[out + 2] = b / 65535
+      }
+    }
+
+    onProgress?.({ bytesProcessed, totalBytes: source.size, pointsDecoded: builder.count })
+  })
+
+  if (layout.rgb !== null && maxChannel <= 255) {
+    const rescale = 65535 / 255
+    for (let i = 0; i < colors.length; i++) {
+      colors[i] = Math.min(1, colors[i] * rescale)
+    }
+  }
+
+  return builder.finish({
+    metadata: {
+      viewpoint: IDENTITY_VIEWPOINT,
+      width: count,
+      height: 1,
+      colorEncoding: layout.rgb !== null ? "channels" : null,
+    },
+    origin,
+  })
+}
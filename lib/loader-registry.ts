@@ -0,0 +1,118 @@
+import type { PointCloudData } from "./types"
+import { parsePCD, type PCDParseOptions } from "./pcd-parser"
+import { parsePLY } from "./ply-parser"
+import { parseLAS } from "./las-parser"
+import { parseDelimitedText, type TextParseOptions } from "./text-parser"
+import type { ByteSource, ProgressCallback } from "./byte-source"
+
+/**
+ * 点云格式加载器
+ *
+ * 新增格式时只需实现 parse 并调用 registerLoader：
+ * Worker 会按魔数或扩展名分发到对应加载器，上传按钮的 accept 列表也会自动更新
+ */
+export interface PointCloudLoader {
+  id: string
+  name: string
+  // 带点的小写扩展名，如 ".pcd"
+  extensions: string[]
+  // 根据文件开头的字节判断格式；没有魔数的格式（如分隔文本）不提供
+  detect?: (head: Uint8Array) => boolean
+  // 是否需要在主线程先收集解析选项（如分隔文本的列映射）
+  requiresOptions?: boolean
+  // 通过 ByteSource 分块读取文件，并在每块处理完后回调进度
+  parse: (source: ByteSource, options: unknown, onProgress?: ProgressCallback) => Promise<PointCloudData>
+}
+
+// 魔数检测读取的字节数
+export const DETECT_HEAD_BYTES = 512
+
+const loaders: PointCloudLoader[] = []
+
+export function registerLoader(loader: PointCloudLoader) {
+  const existing = loaders.findIndex((l) => l.id === loader.id)
+  if (existing !== -1) {
+    loaders[existing] = loader
+  } else {
+    loaders.push(loader)
+  }
+}
+
+export function getLoaders(): readonly PointCloudLoader[] {
+  return loaders
+}
+
+export function getLoader(id: string): PointCloudLoader | undefined {
+  return loaders.find((l) => l.id === id)
+}
+
+export function getLoaderByFileName(fileName: string): PointCloudLoader | undefined {
+  const lower = fileName.toLowerCase()
+  return loaders.find((l) => l.extensions.some((ext) => lower.endsWith(ext)))
+}
+
+/**
+ * 识别文件格式：魔数优先，其次扩展名
+ * 例如内容是 PCD 但扩展名为 .txt 的文件仍按 PCD 解析
+ */
+export function detectLoader(head: Uint8Array, fileName?: string): PointCloudLoader | undefined {
+  const byMagic = loaders.find((l) => l.detect?.(head))
+  if (byMagic) return byMagic
+  return fileName ? getLoaderByFileName(fileName) : undefined
+}
+
+/** 上传控件的 accept 属性 */
+export function getAcceptList(): string {
+  return loaders.flatMap((l) => l.extensions).join(",")
+}
+
+function startsWith(head: Uint8Array, magic: string): boolean {
+  if (head.length < magic.length) return false
+  for (let i = 0; i < magic.length; i++) {
+    if (head[i] !== magic.charCodeAt(i)) return false
+  }
+  return true
+}
+
+// ===== 内置格式 =====
+
+registerLoader({
+  id: "pcd",
+  name: "PCD",
+  extensions: [".pcd"],
+  // 头部以注释行或 VERSION / FIELDS 开头
+  detect: (head) => {
+    const text = new TextDecoder().decode(head)
+    return /^(\s*#[^\n]*\n)*\s*(VERSION|FIELDS)\s/.test(text)
+  },
+  parse: (source, options, onProgress) => parsePCD(source, (options ?? {}) as PCDParseOptions, onProgress),
+})
+
+registerLoader({
+  id: "ply",
+  name: "PLY",
+  extensions: [".ply"],
+  detect: (head) => startsWith(head, "ply"),
+  parse: (source, _options, onProgress) => parsePLY(source, onProgress),
+})
+
+registerLoader({
+  id: "las",
+  name: "LAS",
+  extensions: [".las"],
+  detect: (head) => startsWith(head, "LASF"),
+  parse: (source, _options, onProgress) => parseLAS(source, onProgress),
+})
+
+registerLoader({
+  id: "text",
+  name: "XYZ / CSV / PTS",
+  extensions: [".xyz", ".txt", ".csv", ".pts"],
+  requiresOptions: true,
+  parse: async (source, options, onProgress) => {
+    if (!options) {
+      throw new Error("Delimited text files require a column mapping")
+    }
+    return parseDelimitedText(source, options as TextParseOptions, onProgress)
+  },
+})
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest"
+import { compressLZF, decompressLZF } from "./lzf"
+
+function roundTrip(input: Uint8Array): Uint8Array {
+  return decompressLZF(compressLZF(input), input.length)
+}
+
+// 固定种子的伪随机字节，几乎不可压缩
+function randomBytes(length: number, seed = 1): Uint8Array {
+  const bytes = new Uint8Array(length)
+  let state = seed
+  for (let i = 0; i < length; i++) {
+    state = (Math.imul(state, 1664525) + 1013904223) >>> 0
+    bytes[i] = state >>> 24
+  }
+  return bytes
+}
+
+describe("decompressLZF", () => {
+  it("decodes literal runs and overlapping back references", () => {
+    // 字面量 "a"，再回引距离 1、长度 4：得到 5 个 "a"
+    const output = decompressLZF(new Uint8Array([0x00, 0x61, 0x40, 0x00]), 5)
+    expect(new TextDecoder().decode(output)).toBe("aaaaa")
+  })
+
+  it("decodes the extended length byte", () => {
+    // ctrl 高 3 位为 7 时再读一个长度字节：7 + 3 + 2 = 12 字节
+    const output = decompressLZF(new Uint8Array([0x00, 0x62, 0xe0, 0x03, 0x00]), 13)
+    expect(output).toEqual(new Uint8Array(13).fill(0x62))
+  })
+
+  it("rejects back references before the start of the output", () => {
+    expect(() => decompressLZF(new Uint8Array([0x00, 0x61, 0x40, 0x05]), 5)).toThrow(/back reference/)
+  })
+
+  it("rejects literal runs past the end of the input", () => {
+    expect(() => decompressLZF(new Uint8Array([0x05, 0x61]), 6)).toThrow(/literal run/)
+  })
+
+  it("rejects data that decodes to the wrong length", () => {
+    expect(() => decompressLZF(new Uint8Array([0x00, 0x61]), 2)).toThrow(/expected 2 bytes, got 1/)
+  })
+})
+
+describe("compressLZF", () => {
+  it("round-trips empty and tiny inputs", () => {
+    for (const length of [0, 1, 2, 3, 4]) {
+      const input = randomBytes(length, length + 1)
+      expect(roundTrip(input)).toEqual(input)
+    }
+  })
+
+  it("round-trips incompressible data within the worst-case size", () => {
+    const input = randomBytes(100_000)
+    const compressed = compressLZF(input)
+    expect(compressed.length).toBeLessThanOrEqual(input.length + Math.ceil(input.length / 32) + 1)
+    expect(decompressLZF(compressed, input.length)).toEqual(input)
+  })
+
+  it("compresses long runs beyond the maximum match length", () => {
+    const input = new Uint8Array(10_000).fill(7)
+    const compressed = compressLZF(input)
+    expect(compressed.length).toBeLessThan(input.length / 20)
+    expect(decompressLZF(compressed, input.length)).toEqual(input)
+  })
+
+  it("round-trips repeats further apart than the maximum back-reference distance", () => {
+    const block = randomBytes(9000, 3)
+    const input = new Uint8Array(block.length * 3)
+    input.set(block, 0)
+    input.set(block, block.length)
+    input.set(block, block.length * 2)
+    expect(roundTrip(input)).toEqual(input)
+  })
+
+  it("round-trips column-major float data like a binary_compressed PCD", () => {
+    const values = new Float32Array(30_000)
+    for (let i = 0; i < values.length; i++) values[i] = Math.sin(i / 50) * 10 + (i % 3)
+    const input = new Uint8Array(values.buffer)
+    expect(roundTrip(input)).toEqual(input)
+  })
+})
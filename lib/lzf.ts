@@ -0,0 +1,150 @@
+/**
+ * LZF 解压（PCL 的 binary_compressed 格式使用该算法）
+ *
+ * LZF 数据由若干控制字节开头的片段组成：
+ * - ctrl < 32：字面量片段，后面紧跟 ctrl + 1 个原样字节
+ * - ctrl >= 32：回引片段，高 3 位为长度（7 表示还需再读一个字节），
+ *   低 5 位与下一个字节组成回溯距离
+ *
+ * @param input - 压缩后的字节
+ * @param outputLength - 解压后的字节数（PCD 头部之后的第二个 uint32）
+ * @returns 解压后的字节
+ */
+export function decompressLZF(input: Uint8Array, outputLength: number): Uint8Array {
+  const output = new Uint8Array(outputLength)
+  const inLength = input.length
+  let inPos = 0
+  let outPos = 0
+
+  while (inPos < inLength) {
+    const ctrl = input[inPos++]
+
+    if (ctrl < 32) {
+      // 字面量片段
+      const length = ctrl + 1
+      if (outPos + length > outputLength || inPos + length > inLength) {
+        throw new Error("LZF data is corrupted: literal run out of bounds")
+      }
+      output.set(input.subarray(inPos, inPos + length), outPos)
+      inPos += length
+      outPos += length
+    } else {
+      // 回引片段
+      let length = ctrl >> 5
+      if (length === 7) {
+        if (inPos >= inLength) throw new Error("LZF data is corrupted: missing length byte")
+        length += input[inPos++]
+      }
+      length += 2
+
+      if (inPos >= inLength) throw new Error("LZF data is corrupted: missing offset byte")
+      let ref = outPos - ((ctrl & 0x1f) << 8) - 1 - input[inPos++]
+
+      if (ref < 0 || outPos + length > outputLength) {
+        throw new Error("LZF data is corrupted: back reference out of bounds")
+      }
+
+      // 回引可能与输出区重叠，需要逐字节复制
+      for (let i = 0; i < length; i++) {
+        output[outPos++] = output[ref++]
+      }
+    }
+  }
+
+  if (outPos !== outputLength) {
+    throw new Error(`LZF data is corrupted: expected ${outputLength} bytes, got ${outPos}`)
+  }
+
+  return output
+}
+
+// 压缩参数与 liblzf 保持一致
+const HASH_LOG = 16
+const MAX_LITERAL = 32
+const MAX_OFFSET = 1 << 13
+const MAX_REFERENCE = (1 << 8) + (1 << 3)
+
+/**
+ * LZF 压缩（用于导出 binary_compressed PCD）
+ * 使用 3 字节哈希查找最近一次出现的位置，匹配长度 3-264、回溯距离不超过 8192
+ *
+ * @param input - 原始字节
+ * @returns 压缩后的字节（最坏情况下比输入略大）
+ */
+export function compressLZF(input: Uint8Array): Uint8Array {
+  const inLength = input.length
+  // 最坏情况：全部为字面量，每 32 字节多一个控制字节
+  const output = new Uint8Array(inLength + Math.ceil(inLength / MAX_LITERAL) + 1)
+  const hashTable = new Int32Array(1 << HASH_LOG).fill(-1)
+
+  let inPos = 0
+  let outPos = 1 // 预留第一个字面量片段的控制字节
+  let literal = 0
+
+  const hash = (p: number) =>
+    Math.imul((input[p] << 16) | (input[p + 1] << 8) | input[p + 2], 0x9e3779b1) >>> (32 - HASH_LOG)
+
+  while (inPos < inLength - 2) {
+    const h = hash(inPos)
+    const ref = hashTable[h]
+    hashTable[h] = inPos
+    const offset = inPos - ref - 1
+
+    if (
+      ref >= 0 &&
+      offset < MAX_OFFSET &&
+      input[ref] === input[inPos] &&
+      input[ref + 1] === input[inPos + 1] &&
+      input[ref + 2] === input[inPos + 2]
+    ) {
+      const maxLength = Math.min(MAX_REFERENCE, inLength - inPos)
+      let length = 3
+      while (length < maxLength && input[ref + length] === input[inPos + length]) length++
+
+      // 结束当前字面量片段
+      if (literal > 0) {
+        output[outPos - literal - 1] = literal - 1
+      } else {
+        outPos--
+      }
+      literal = 0
+
+      const encodedLength = length - 2
+      if (encodedLength < 7) {
+        output[outPos++] = (offset >> 8) + (encodedLength << 5)
+      } else {
+        output[outPos++] = (offset >> 8) + (7 << 5)
+        output[outPos++] = encodedLength - 7
+      }
+      output[outPos++] = offset & 0xff
+
+      outPos++ // 预留下一个字面量片段的控制字节
+      inPos += length
+    } else {
+      output[outPos++] = input[inPos++]
+      if (++literal === MAX_LITERAL) {
+        output[outPos - literal - 1] = MAX_LITERAL - 1
+        literal = 0
+        outPos++
+      }
+    }
+  }
+
+  // 剩余不足 3 字节的尾部作为字面量写出
+  while (inPos < inLength) {
+    output[outPos++] = input[inPos++]
+    if (++literal === MAX_LITERAL) {
+      output[outPos - literal - 1] = MAX_LITERAL - 1
+      literal = 0
+      outPos++
+    }
+  }
+
+  if (literal > 0) {
+    output[outPos - literal - 1] = literal - 1
+  } else {
+    outPos--
+  }
+
+  return output.slice(0, outPos)
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest"
+import { classifyBoundsInBox, intersectRelations, isInsideBox } from "./oriented-box"
+import { NODE_INSIDE, NODE_OUTSIDE, NODE_PARTIAL } from "./point-index"
+
+// 中心 (10, 0, 0)、尺寸 2 × 4 × 6、绕 Z 轴旋转 90° 的盒子的逆矩阵（列主序）：
+// 局部 x 沿世界 y，局部 y 沿世界 -x，世界范围为 x ∈ [8, 12]、y ∈ [-1, 1]、z ∈ [-3, 3]
+const ROTATED_BOX = [0, -0.25, 0, 0, 0.5, 0, 0, 0, 0, 0, 1 / 6, 0, 0, 2.5, 0, 1]
+
+describe("isInsideBox", () => {
+  it("accepts points inside the rotated box including its faces", () => {
+    expect(isInsideBox(ROTATED_BOX, 10, 0, 0)).toBe(true)
+    expect(isInsideBox(ROTATED_BOX, 11.9, 0.9, 2.9)).toBe(true)
+    expect(isInsideBox(ROTATED_BOX, 8, -1, 3)).toBe(true)
+  })
+
+  it("rejects points outside any face", () => {
+    expect(isInsideBox(ROTATED_BOX, 12.1, 0, 0)).toBe(false)
+    expect(isInsideBox(ROTATED_BOX, 10, 1.1, 0)).toBe(false)
+    expect(isInsideBox(ROTATED_BOX, 10, 0, -3.1)).toBe(false)
+    // 未旋转时会落在盒内的点：世界 y 方向只有 2 个单位
+    expect(isInsideBox(ROTATED_BOX, 10, 1.5, 0)).toBe(false)
+  })
+})
+
+describe("classifyBoundsInBox", () => {
+  it("classifies node bounds as inside, outside or crossing the rotated box", () => {
+    // 前 6 个值是占位，从 offset 6 开始读取节点包围盒
+    const bounds = new Float32Array([0, 0, 0, 0, 0, 0, 9, -0.5, -1, 11, 0.5, 1])
+    expect(classifyBoundsInBox(ROTATED_BOX, bounds, 6)).toBe(NODE_INSIDE)
+    expect(classifyBoundsInBox(ROTATED_BOX, new Float32Array([13, 0, 0, 14, 1, 1]), 0)).toBe(NODE_OUTSIDE)
+    expect(classifyBoundsInBox(ROTATED_BOX, new Float32Array([11, 0, 0, 13, 0.5, 0.5]), 0)).toBe(NODE_PARTIAL)
+    // 未旋转时会整体在盒内的节点：世界 y 方向超出盒子
+    expect(classifyBoundsInBox(ROTATED_BOX, new Float32Array([9, -1.5, -1, 11, 1.5, 1]), 0)).toBe(NODE_PARTIAL)
+  })
+
+  it("intersects relations of two conditions", () => {
+    expect(intersectRelations(NODE_INSIDE, NODE_INSIDE)).toBe(NODE_INSIDE)
+    expect(intersectRelations(NODE_INSIDE, NODE_PARTIAL)).toBe(NODE_PARTIAL)
+    expect(intersectRelations(NODE_PARTIAL, NODE_OUTSIDE)).toBe(NODE_OUTSIDE)
+  })
+})
@@ -0,0 +1,47 @@
+import { NODE_INSIDE, NODE_OUTSIDE, NODE_PARTIAL, type NodeRelation } from "./point-index"
+
+/**
+ * 有向包围盒判定
+ *
+ * 盒子由逆矩阵描述（列主序 4x4，见 SelectionShape 的 box），把 positions 变换到盒子局部空间，
+ * 三个分量都在 [-0.5, 0.5] 内的点位于盒内。用于 3D 包围盒选择和裁剪。
+ */
+
+/** 点是否在盒内 */
+export function isInsideBox(e: ArrayLike<number>, x: number, y: number, z: number): boolean {
+  const lx = e[0] * x + e[4] * y + e[8] * z + e[12]
+  if (lx < -0.5 || lx > 0.5) return false
+  const ly = e[1] * x + e[5] * y + e[9] * z + e[13]
+  if (ly < -0.5 || ly > 0.5) return false
+  const lz = e[2] * x + e[6] * y + e[10] * z + e[14]
+  return lz >= -0.5 && lz <= 0.5
+}
+
+/**
+ * 索引节点包围盒（bounds 中从 offset 开始的 6 个值）与盒子的关系
+ * 8 个角点都在盒内时整体在内（盒子是凸的）；全部在盒子某个面之外时整体在外
+ */
+export function classifyBoundsInBox(e: ArrayLike<number>, b: Float32Array, o: number): NodeRelation {
+  let inside = true
+  for (let axis = 0; axis < 3; axis++) {
+    let min = Number.POSITIVE_INFINITY
+    let max = Number.NEGATIVE_INFINITY
+    for (let c = 0; c < 8; c++) {
+      const x = b[o + (c & 1 ? 3 : 0)]
+      const y = b[o + (c & 2 ? 4 : 1)]
+      const z = b[o + (c & 4 ? 5 : 2)]
+      const v = e[axis] * x + e[4 + axis] * y + e[8 + axis] * z + e[12 + axis]
+      if (v < min) min = v
+      if (v > max) max = v
+    }
+    if (min > 0.5 || max < -0.5) return NODE_OUTSIDE
+    if (min < -0.5 || max > 0.5) inside = false
+  }
+  return inside ? NODE_INSIDE : NODE_PARTIAL
+}
+
+/** 同时满足两个条件的节点关系：任一在外则在外，都在内才在内 */
+export function intersectRelations(a: NodeRelation, b: NodeRelation): NodeRelation {
+  if (a === NODE_OUTSIDE || b === NODE_OUTSIDE) return NODE_OUTSIDE
+  return a === NODE_INSIDE && b === NODE_INSIDE ? NODE_INSIDE : NODE_PARTIAL
+}
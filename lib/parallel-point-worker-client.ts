@@ -1,11 +1,20 @@
-import type { LassoPoint, PointCloudData } from "./types"
+import type { PointCloudData, ScreenSelectionShape, SelectionShape } from "./types"
+import type { PCDDataFormat } from "./pcd-writer"
+import type { ParseProgress } from "./byte-source"
+import { PointCloudParseError, type ParseErrorInfo } from "./parse-error"
+import { combineSelection, lowerBound, type SelectionOp } from "./selection-ops"
+import { createDepthBuffer, mergeDepthBuffers, type DepthBuffer } from "./depth-buffer"
+import type { PointQuery } from "./point-query"
+import { pickTwoPass, type PickHit } from "./point-pick"
+import { collectVisited } from "./region-grow"
+import { allocateArray, canShareMemory, isSharedBuffer, truncateArray } from "./shared-memory"
 
 type Viewport = { width: number; height: number }
 
-type WorkerRequestType = "init" | "parse" | "select" | "color"
+type WorkerRequestType = "init" | "parse" | "select" | "depth" | "query" | "pick" | "grow" | "index" | "color" | "export"
 
 type SelectionPayload = {
-  path: LassoPoint[]
+  shape: SelectionShape
   viewProjectionMatrix: Float32Array
   viewport: Viewport
   startIndex?: number
@@ -14,22 +23,41 @@ type SelectionPayload = {
 
 type WorkerSuccessResponse =
   | { type: "init"; result: { count: number } }
-  | { type: "parse"; result: { data: PointCloudData } }
+  | { type: "parse"; result: { data: PointCloudData; format: string } }
   | { type: "select"; result: { indices: Uint32Array; searchTime: number } }
+  | { type: "depth"; result: { depth: Float32Array } }
+  | { type: "query"; result: { indices: Uint32Array; searchTime: number } }
+  | { type: "pick"; result: PickHit }
+  | { type: "grow"; result: { found: Uint32Array; pending: boolean } }
+  | { type: "index"; result: { nodeCount: number; buildTime: number } }
   | { type: "color"; result: { colors: ArrayBuffer; coloringTime: number } }
+  | { type: "export"; result: { file: ArrayBuffer; exportTime: number } }
 
 type WorkerResponse = {
   id: number
   success: boolean
   message?: string
+  error?: ParseErrorInfo
   data?: WorkerSuccessResponse
 }
 
+// 解析过程中的进度通知，不结束请求
+type WorkerProgressMessage = {
+  id: number
+  progress: ParseProgress
+}
+
 type PendingResolver = {
   resolve: (value: WorkerSuccessResponse) => void
   reject: (reason?: unknown) => void
+  onProgress?: (progress: ParseProgress) => void
 }
 
+// 魔棒每轮在每个分片内最多展开的点数：限制单条消息的耗时，使取消能及时生效
+const GROW_STEP_BUDGET = 65536
+// 魔棒中间结果的回调间隔（毫秒）
+const GROW_PARTIAL_INTERVAL = 200
+
 /**
  * 单个 Worker 实例的封装
  */
@@ -40,14 +68,19 @@ class SingleWorker {
 
   constructor() {
     this.worker = new Worker(new URL("./workers/point-worker.ts", import.meta.url), { type: "module" })
-    this.worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
-      const { id, success, message, data } = event.data
+    this.worker.onmessage = (event: MessageEvent<WorkerResponse | WorkerProgressMessage>) => {
+      if ("progress" in event.data) {
+        this.pending.get(event.data.id)?.onProgress?.(event.data.progress)
+        return
+      }
+
+      const { id, success, message, error, data } = event.data
       const pending = this.pending.get(id)
       if (!pending) return
       this.pending.delete(id)
 
       if (!success || !data) {
-        pending.reject(new Error(message ?? "Worker failure"))
+        pending.reject(error ? PointCloudParseError.fromInfo(error) : new Error(message ?? "Worker failure"))
         return
       }
 
@@ -63,16 +96,26 @@ class SingleWorker {
     }
   }
 
-  terminate() {
+  terminate(reason?: unknown) {
     this.worker.terminate()
+    if (reason !== undefined) {
+      for (const [, resolver] of this.pending) {
+        resolver.reject(reason)
+      }
+    }
     this.pending.clear()
   }
 
-  call(type: WorkerRequestType, payload: unknown, transferables: Transferable[] = []) {
+  call(
+    type: WorkerRequestType,
+    payload: unknown,
+    transferables: Transferable[] = [],
+    onProgress?: (progress: ParseProgress) => void,
+  ) {
     const id = ++this.requestId
 
     return new Promise<WorkerSuccessResponse>((resolve, reject) => {
-      this.pending.set(id, { resolve, reject })
+      this.pending.set(id, { resolve, reject, onProgress })
       if (transferables.length > 0) {
         this.worker.postMessage({ id, type, payload }, transferables)
       } else {
@@ -82,6 +125,16 @@ class SingleWorker {
   }
 }
 
+/**
+ * 主线程上色直接修改 data.colors。复制模式下 Worker 持有的是 init 时的拷贝，
+ * 共享内存模式下却会读到同一块内存；为使颜色查询和魔棒在两种模式下都使用解析时的原始颜色，
+ * 共享的 colors 另复制一份只给 Worker 使用（仍是共享内存，所有 Worker 共用这一份）
+ */
+function withOriginalColors(data: PointCloudData): PointCloudData {
+  if (!isSharedBuffer(data.colors.buffer)) return data
+  return { ...data, colors: truncateArray(data.colors, data.colors.length) }
+}
+
 /**
  * 并行 Worker 池客户端
  * 使用多个 Worker 并行处理套索选择，提升大数据量下的性能
@@ -90,6 +143,10 @@ export class ParallelPointWorkerClient {
   private workers: SingleWorker[] = []
   private workerCount: number
   private pointCount = 0
+  // 魔棒生长的序号，Worker 据此区分新的生长与上一次生长的后续轮次
+  private growSession = 0
+  // 最近一次同步到 Worker 的点云，取消解析后用于重新初始化被替换的 Worker
+  private data: PointCloudData | null = null
 
   constructor(workerCount?: number) {
     // 默认使用 CPU 核心数，但最少 2 个，最多 12 个
@@ -108,38 +165,122 @@ export class ParallelPointWorkerClient {
   }
 
   /**
-   * 解析 PCD 文件（在单个 Worker 中执行）
+   * 解析点云文件（在单个 Worker 中执行）
    * 由于解析本身已经是密集计算，使用单个 Worker 避免重复解析
+   * 传入 File 时 Worker 会分块读取，不需要先在主线程读出整个文件
+   * Worker 按魔数和文件名识别格式，也可通过 format 指定加载器；options 会原样传给加载器
+   *
+   * signal 触发时直接终止解析中的 Worker 以释放其内存，并换上一个新的 Worker，
+   * 返回的 Promise 以 AbortError 拒绝，之前加载的点云保持不变
    */
-  async parse(arrayBuffer: ArrayBuffer): Promise<PointCloudData> {
+  async parse(
+    input: Blob | ArrayBuffer,
+    request: {
+      fileName?: string
+      format?: string
+      options?: unknown
+      onProgress?: (progress: ParseProgress) => void
+      signal?: AbortSignal
+    } = {},
+  ): Promise<PointCloudData> {
+    const { onProgress, signal, ...rest } = request
+    signal?.throwIfAborted()
+
+    const payload = input instanceof ArrayBuffer ? { arrayBuffer: input, ...rest } : { file: input, ...rest }
+    const transfer = input instanceof ArrayBuffer ? [input] : []
+
     // 只使用第一个 Worker 进行解析
-    const result = await this.workers[0].call("parse", { arrayBuffer }, [arrayBuffer])
-    
+    const result = await this.callCancellable(0, signal, (parser) =>
+      parser.call("parse", payload, transfer, onProgress),
+    )
+
     if (result.type !== "parse") {
       throw new Error("Unexpected response type")
     }
 
     const data = result.result.data
     this.pointCount = data.count
+    this.data = withOriginalColors(data)
 
     // 🔧 关键修复：解析完成后，同步数据到所有 Worker（包括第一个）
     // 因为第一个 Worker 在 parse 时使用了 transfer，其内部数据已失效
     // 必须重新 init 以确保所有 Worker 都有完整的数据副本
-    const syncPromises = this.workers.map((worker) => worker.call("init", data))
+    // 共享内存模式下解析结果位于 SharedArrayBuffer 上，init 只传递引用，不会复制
+    const syncPromises = this.workers.map((worker) => worker.call("init", this.data))
     await Promise.all(syncPromises)
+    this.buildIndexes()
 
     return data
   }
 
+  /**
+   * 在指定 Worker 上执行可取消的请求
+   * signal 触发时终止该 Worker（其中的计算无法中断），以 AbortError 拒绝，并换上同步了当前点云的新 Worker
+   */
+  private async callCancellable(
+    index: number,
+    signal: AbortSignal | undefined,
+    run: (worker: SingleWorker) => Promise<WorkerSuccessResponse>,
+  ): Promise<WorkerSuccessResponse> {
+    const worker = this.workers[index]
+    const onAbort = () => {
+      worker.terminate(signal!.reason ?? new DOMException("Request aborted", "AbortError"))
+      this.replaceWorker(index)
+    }
+    signal?.addEventListener("abort", onAbort, { once: true })
+
+    try {
+      return await run(worker)
+    } finally {
+      signal?.removeEventListener("abort", onAbort)
+    }
+  }
+
+  /**
+   * 用新的 Worker 替换指定位置的 Worker，并同步当前点云
+   */
+  private replaceWorker(index: number) {
+    const worker = new SingleWorker()
+    this.workers[index] = worker
+    if (this.data) {
+      worker.call("init", this.data).catch((error) => console.error("Worker 重新初始化失败", error))
+      this.buildIndex(index)
+    }
+  }
+
+  /**
+   * 在后台为每个 Worker 的分片建立空间索引
+   * 不等待完成：Worker 按顺序处理消息，之后的选择请求会排在建索引之后
+   */
+  private buildIndexes() {
+    for (let index = 0; index < this.workers.length; index++) {
+      this.buildIndex(index)
+    }
+  }
+
+  private buildIndex(index: number) {
+    const chunkSize = Math.ceil(this.pointCount / this.workerCount)
+    const startIndex = index * chunkSize
+    const endIndex = Math.min(startIndex + chunkSize, this.pointCount)
+    if (startIndex >= this.pointCount) return
+
+    this.workers[index]
+      .call("index", { startIndex, endIndex })
+      .catch((error) => console.error("空间索引建立失败", error))
+  }
+
   /**
    * 初始化所有 Worker，将点云数据同步到每个 Worker
+   * 位于 SharedArrayBuffer 上的数组（共享内存模式下的解析结果）只传递引用，其余数组每个 Worker 各复制一份
    */
   async init(data: PointCloudData) {
     this.pointCount = data.count
+    this.data = withOriginalColors(data)
 
     // 并行初始化所有 Worker
-    const promises = this.workers.map((worker) => worker.call("init", data))
+    const promises = this.workers.map((worker) => worker.call("init", this.data))
     await Promise.all(promises)
+    this.buildIndexes()
 
     return { count: this.pointCount }
   }
@@ -147,35 +288,95 @@ export class ParallelPointWorkerClient {
   /**
    * 并行执行套索选择
    * 将点云分片，每个 Worker 处理一部分，最后合并结果
+   * 指定 op 时每个 Worker 先把命中结果与本分片的已有选择做集合运算，拼接后仍然升序
+   *
+   * signal 触发后请求以 AbortError 拒绝：尚未发出的阶段（深度光栅化之后的选择）不再发送，
+   * 已在 Worker 中执行的计算无法中断，其结果直接丢弃。用于绘制过程中的预览，不会终止 Worker
    */
   async select(payload: {
-    path: LassoPoint[]
+    shape: SelectionShape
     viewProjectionMatrix: Float32Array
     viewport: Viewport
+    // 与已有选择（current，升序）的组合方式，默认替换
+    op?: SelectionOp
+    current?: Uint32Array
+    // 只选可见点：深度不超过同一位置最近点深度 + tolerance（场景单位）
+    visibleOnly?: { tolerance: number }
+    // 裁剪盒的逆矩阵（列主序），盒外的点不可见，不参与选择和遮挡
+    crop?: number[]
+    signal?: AbortSignal
   }): Promise<{ indices: Uint32Array; searchTime: number }> {
     const start = performance.now()
+    const { op = "replace", current, visibleOnly, signal, ...selectPayload } = payload
+    signal?.throwIfAborted()
 
     // 计算每个 Worker 处理的点数
     const chunkSize = Math.ceil(this.pointCount / this.workerCount)
 
-    // 并行发送选择任务
+    // 只选可见点：先由各 Worker 光栅化自己的分片，合并出完整的深度缓冲，再带着它做选择
+    let depth: { buffer: DepthBuffer; tolerance: number } | undefined
+    // 3D 包围盒不经过屏幕投影，不需要深度测试
+    const { shape } = selectPayload
+    if (visibleOnly && shape.kind !== "box") {
+      const { viewProjectionMatrix, viewport, crop } = selectPayload
+      const buffer = await this.buildDepthBuffer(shape, viewProjectionMatrix, viewport, crop, chunkSize)
+      depth = { buffer, tolerance: visibleOnly.tolerance }
+      signal?.throwIfAborted()
+    }
+
+    const { indices } = await this.runSharded("select", { ...selectPayload, depth }, op, current, chunkSize)
+    signal?.throwIfAborted()
+    return { indices, searchTime: performance.now() - start }
+  }
+
+  /**
+   * 并行按属性值选点（高度范围、距离、颜色相似度、强度 / 标签阈值）
+   * 与 select 使用相同的分片，同样可以与已有选择组合
+   */
+  async query(payload: {
+    query: PointQuery
+    op?: SelectionOp
+    current?: Uint32Array
+  }): Promise<{ indices: Uint32Array; searchTime: number }> {
+    const start = performance.now()
+    const { op = "replace", current, query } = payload
+    const chunkSize = Math.ceil(this.pointCount / this.workerCount)
+
+    const { indices } = await this.runSharded("query", { query }, op, current, chunkSize)
+    return { indices, searchTime: performance.now() - start }
+  }
+
+  /**
+   * 把点云按索引范围分片发给各 Worker，按分片顺序拼接结果
+   * 每个 Worker 先把命中结果与本分片的已有选择做集合运算，拼接后仍然升序
+   */
+  private async runSharded(
+    type: "select" | "query",
+    payload: object,
+    op: SelectionOp,
+    current: Uint32Array | undefined,
+    chunkSize: number,
+  ): Promise<{ indices: Uint32Array }> {
     const promises = this.workers.map((worker, index) => {
       const startIndex = index * chunkSize
       const endIndex = Math.min(startIndex + chunkSize, this.pointCount)
 
       // 如果这个分片没有点，跳过
       if (startIndex >= this.pointCount) {
-        return Promise.resolve({
-          type: "select" as const,
-          result: { indices: new Uint32Array(), searchTime: 0 },
-        })
+        return null
       }
 
-      return worker.call("select", {
-        ...payload,
-        startIndex,
-        endIndex,
-      })
+      // 已选索引是升序的，按分片范围二分切出对应的一段，交给 Worker 就地合并
+      let shardCurrent: Uint32Array | undefined
+      if (op !== "replace" && current) {
+        shardCurrent = current.slice(lowerBound(current, startIndex), lowerBound(current, endIndex))
+      }
+
+      return worker.call(
+        type,
+        { ...payload, startIndex, endIndex, op, current: shardCurrent },
+        shardCurrent ? [shardCurrent.buffer] : [],
+      )
     })
 
     // 等待所有 Worker 完成
@@ -186,7 +387,7 @@ export class ParallelPointWorkerClient {
     const partialResults: Uint32Array[] = []
 
     for (const result of results) {
-      if (result.type === "select") {
+      if (result?.type === "select" || result?.type === "query") {
         const indices = result.result.indices
         if (indices.length > 0) {
           partialResults.push(indices)
@@ -203,9 +404,189 @@ export class ParallelPointWorkerClient {
       offset += partial.length
     }
 
-    const searchTime = performance.now() - start
+    return { indices: mergedIndices }
+  }
+
+  /**
+   * 魔棒：从种子点沿距离不超过 radius 的相邻点生长，可选颜色 / 法线相似度限制
+   * 复用各 Worker 分片的空间索引，由主线程按轮次协调：每轮把上一轮新加入区域的点发给所有分片，
+   * 各分片找出其中在本分片内的邻点并在本分片内继续生长（每轮有上限），直到不再有新的点
+   * 中间结果通过 onPartial 流式返回，与最终结果一样已按 op 与 current 组合并升序
+   * signal 在轮次之间检查，触发后不再发送下一轮并以 AbortError 拒绝，不会终止 Worker
+   */
+  async grow(payload: {
+    seed: number
+    radius: number
+    maxColorDistance?: number
+    maxNormalAngle?: number
+    // 裁剪盒的逆矩阵，生长不进入盒外的点
+    crop?: number[]
+    op?: SelectionOp
+    current?: Uint32Array
+    onPartial?: (indices: Uint32Array) => void
+    signal?: AbortSignal
+  }): Promise<{ indices: Uint32Array; searchTime: number }> {
+    const start = performance.now()
+    const { onPartial, signal, op = "replace", current, ...options } = payload
+    signal?.throwIfAborted()
+    if (options.seed < 0 || options.seed >= this.pointCount) {
+      throw new Error(`Seed point ${options.seed} is out of range`)
+    }
+
+    const session = ++this.growSession
+    const chunkSize = Math.ceil(this.pointCount / this.workerCount)
+    const shards = this.workers
+      .map((worker, index) => {
+        const startIndex = index * chunkSize
+        return { worker, startIndex, endIndex: Math.min(startIndex + chunkSize, this.pointCount) }
+      })
+      .filter((shard) => shard.startIndex < this.pointCount)
+
+    const base = current ?? new Uint32Array()
+    const visited = new Uint8Array(this.pointCount)
+    visited[options.seed] = 1
+    let visitedCount = 1
+    let frontier = Uint32Array.of(options.seed)
+    let lastPartial = performance.now()
+
+    try {
+      for (;;) {
+        const results = await Promise.all(
+          shards.map(({ worker, startIndex, endIndex }) =>
+            worker.call("grow", { session, startIndex, endIndex, options, frontier, budget: GROW_STEP_BUDGET }),
+          ),
+        )
+        signal?.throwIfAborted()
+
+        let pending = false
+        let foundCount = 0
+        for (const result of results) {
+          if (result.type !== "grow") {
+            throw new Error("Unexpected response type")
+          }
+          pending ||= result.result.pending
+          foundCount += result.result.found.length
+        }
+        if (foundCount === 0 && !pending) break
+
+        // 下一轮的 frontier 发给所有分片；共享内存模式下只传递引用
+        frontier = allocateArray(Uint32Array, foundCount)
+        let offset = 0
+        for (const result of results) {
+          if (result.type !== "grow") continue
+          const { found } = result.result
+          frontier.set(found, offset)
+          offset += found.length
+          for (let k = 0; k < found.length; k++) visited[found[k]] = 1
+        }
+        visitedCount += foundCount
+
+        const now = performance.now()
+        if (onPartial && now - lastPartial >= GROW_PARTIAL_INTERVAL) {
+          onPartial(combineSelection(op, base, collectVisited(visited, visitedCount)))
+          lastPartial = now
+        }
+      }
+    } finally {
+      // 结束或取消后丢弃各分片的生长状态
+      for (const { worker } of shards) {
+        worker.call("grow", { session, release: true }).catch((error) => console.error("区域生长状态释放失败", error))
+      }
+    }
+
+    const indices = combineSelection(op, base, collectVisited(visited, visitedCount))
+    return { indices, searchTime: performance.now() - start }
+  }
+
+  /**
+   * 拾取光标下的点，没有命中时 index 为 -1
+   * 两轮拾取（见 pickTwoPass）的每一轮都在所有分片上并行执行
+   */
+  async pick(payload: {
+    x: number
+    y: number
+    viewProjectionMatrix: Float32Array
+    viewport: Viewport
+    // 屏幕容差（像素）
+    radius: number
+    // 相对深度容差
+    depthTolerance: number
+    // 只在这些点（升序）中拾取，例如只显示选中点时
+    within?: Uint32Array
+    // 裁剪盒的逆矩阵，盒外的点不能被拾取
+    crop?: number[]
+  }): Promise<{ index: number; pickTime: number }> {
+    const start = performance.now()
+    const { depthTolerance, within, ...pickPayload } = payload
+    const chunkSize = Math.ceil(this.pointCount / this.workerCount)
+
+    const runPass = async (maxDepth?: number) => {
+      const promises = this.workers.map((worker, index) => {
+        const startIndex = index * chunkSize
+        const endIndex = Math.min(startIndex + chunkSize, this.pointCount)
+        if (startIndex >= this.pointCount) return null
+
+        const subset = within?.slice(lowerBound(within, startIndex), lowerBound(within, endIndex))
+        if (subset?.length === 0) return null
+        return worker.call("pick", { ...pickPayload, maxDepth, startIndex, endIndex, subset })
+      })
+
+      const hits: PickHit[] = []
+      for (const result of await Promise.all(promises)) {
+        if (result?.type === "pick") hits.push(result.result)
+      }
+      return hits
+    }
+
+    const index = await pickTwoPass(runPass, depthTolerance)
+    return { index, pickTime: performance.now() - start }
+  }
+
+  /**
+   * 并行光栅化选择区域内的深度，逐格取各分片的最小值
+   */
+  private async buildDepthBuffer(
+    shape: ScreenSelectionShape,
+    viewProjectionMatrix: Float32Array,
+    viewport: Viewport,
+    crop: number[] | undefined,
+    chunkSize: number,
+  ): Promise<DepthBuffer> {
+    const buffer = createDepthBuffer(shape, viewport)
+    if (buffer.depth.length === 0) return buffer
+
+    const promises = this.workers.map((worker, index) => {
+      const startIndex = index * chunkSize
+      const endIndex = Math.min(startIndex + chunkSize, this.pointCount)
+      if (startIndex >= this.pointCount) return null
+
+      return worker.call("depth", { viewProjectionMatrix, viewport, buffer, startIndex, endIndex, crop })
+    })
+
+    for (const result of await Promise.all(promises)) {
+      if (result?.type === "depth") {
+        mergeDepthBuffers(buffer, result.result.depth)
+      }
+    }
+    return buffer
+  }
+
+  /**
+   * 导出 PCD 文件（在单个 Worker 中执行）
+   * 主线程上色会直接修改 colors，因此需要把最新颜色一并发送给 Worker
+   */
+  async exportPCD(payload: {
+    format: PCDDataFormat
+    colors: Float32Array
+    indices?: Uint32Array
+  }): Promise<{ file: ArrayBuffer; exportTime: number }> {
+    const result = await this.workers[0].call("export", payload)
+
+    if (result.type !== "export") {
+      throw new Error("Unexpected response type")
+    }
 
-    return { indices: mergedIndices, searchTime }
+    return result.result
   }
 
   /**
@@ -214,4 +595,11 @@ export class ParallelPointWorkerClient {
   getWorkerCount() {
     return this.workerCount
   }
+
+  /**
+   * 是否处于共享内存模式：页面跨源隔离时解析结果由所有 Worker 共享，否则每个 Worker 持有一份拷贝
+   */
+  isSharedMemory() {
+    return canShareMemory()
+  }
 }
@@ -0,0 +1,75 @@
+/**
+ * 结构化的解析错误
+ *
+ * Worker 中抛出的 Error 只能以字符串形式传回主线程，
+ * 因此解析错误会先转为可结构化克隆的 ParseErrorInfo，再在主线程还原为 PointCloudParseError。
+ */
+
+export type ParseErrorCode =
+  // 无法识别文件格式
+  | "UNKNOWN_FORMAT"
+  // 头部没有在允许的长度内结束（PCD 找不到 DATA 行，PLY 找不到 end_header）
+  | "HEADER_TOO_LONG"
+  // 头部关键字的值无法识别，例如未知的 DATA 类型、不支持的 LAS 点格式
+  | "INVALID_HEADER"
+  // 缺少 x / y / z（PCD 的 FIELDS、PLY 的 vertex 属性）
+  | "MISSING_XYZ"
+  // SIZE / TYPE / COUNT 的项数与 FIELDS 不一致
+  | "FIELD_LENGTH_MISMATCH"
+  // POINTS 与 WIDTH × HEIGHT 不一致
+  | "POINT_COUNT_MISMATCH"
+  // 数据部分比头部声明的短
+  | "TRUNCATED_DATA"
+  // 数据部分无法解码，例如 LZF 压缩数据损坏
+  | "CORRUPT_DATA"
+  // 其他未分类的错误
+  | "UNKNOWN"
+
+/** 出错位置：字节偏移（从文件开头算起）或行号（从 1 开始） */
+export interface ParseErrorLocation {
+  kind: "byte" | "line"
+  value: number
+}
+
+export interface ParseErrorInfo {
+  code: ParseErrorCode
+  message: string
+  location?: ParseErrorLocation
+  expected?: string | number
+  actual?: string | number
+}
+
+export class PointCloudParseError extends Error {
+  readonly code: ParseErrorCode
+  readonly location?: ParseErrorLocation
+  readonly expected?: string | number
+  readonly actual?: string | number
+
+  constructor(
+    code: ParseErrorCode,
+    message: string,
+    details: Omit<ParseErrorInfo, "code" | "message"> = {},
+  ) {
+    super(message)
+    this.name = "PointCloudParseError"
+    this.code = code
+    this.location = details.location
+    this.expected = details.expected
+    this.actual = details.actual
+  }
+
+  toJSON(): ParseErrorInfo {
+    const { code, message, location, expected, actual } = this
+    return { code, message, location, expected, actual }
+  }
+
+  static fromInfo(info: ParseErrorInfo): PointCloudParseError {
+    return new PointCloudParseError(info.code, info.message, info)
+  }
+}
+
+/** 把任意异常转换为 ParseErrorInfo，未分类的错误使用 UNKNOWN */
+export function toParseErrorInfo(error: unknown): ParseErrorInfo {
+  if (error instanceof PointCloudParseError) return error.toJSON()
+  return { code: "UNKNOWN", message: error instanceof Error ? error.message : String(error) }
+}
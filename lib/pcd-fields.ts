@@ -0,0 +1,311 @@
+/**
+ * PCD 字段解码
+ *
+ * 根据头部的 FIELDS / SIZE / TYPE / COUNT 描述每个字段的布局，
+ * 并按 I（有符号整数）/ U（无符号整数）/ F（浮点）与 1/2/4/8 字节读取数值。
+ */
+
+import type { PointAttributeArray, PointCloudMetadata } from "./types"
+import { allocateArray } from "./shared-memory"
+import { PointCloudParseError } from "./parse-error"
+
+export type PCDFieldType = "I" | "U" | "F"
+
+export interface PCDField {
+  name: string
+  type: PCDFieldType
+  size: number
+  count: number
+  // binary 行式布局中，该字段在一行内的字节偏移
+  offset: number
+  // binary_compressed 列式布局中，该字段列的起始字节
+  columnOffset: number
+  // ascii 布局中，该字段第一个分量所在的 token 序号（COUNT > 1 的字段会占多个 token）
+  tokenIndex: number
+}
+
+export interface PCDFieldLayout {
+  fields: PCDField[]
+  byName: { [name: string]: PCDField }
+  rowSize: number
+  tokenCount: number
+}
+
+/**
+ * 根据头部信息计算每个字段的布局
+ * SIZE / TYPE / COUNT 缺省时按 PCD 规范默认为 4 字节浮点、1 个分量
+ */
+export function buildFieldLayout(header: {
+  fields: string[]
+  size: number[]
+  type: string[]
+  count: number[]
+  points: number
+}): PCDFieldLayout {
+  const fields: PCDField[] = []
+  const byName: { [name: string]: PCDField } = {}
+  let offset = 0
+  let columnOffset = 0
+  let tokenIndex = 0
+
+  for (let i = 0; i < header.fields.length; i++) {
+    const type = (header.type[i] ?? "F").toUpperCase() as PCDFieldType
+    const size = header.size[i] ?? 4
+    const count = header.count[i] || 1
+
+    const field: PCDField = {
+      name: header.fields[i],
+      type,
+      size,
+      count,
+      offset,
+      columnOffset,
+      tokenIndex,
+    }
+    fields.push(field)
+    byName[field.name] = field
+
+    offset += size * count
+    columnOffset += header.points * size * count
+    tokenIndex += count
+  }
+
+  return { fields, byName, rowSize: offset, tokenCount: tokenIndex }
+}
+
+export type ScalarReader = (view: DataView, byteOffset: number) => number
+
+/**
+ * 为指定 TYPE + SIZE 创建标量读取函数（PCD 为小端序，PLY 可能是大端序）
+ * 8 字节整数通过 BigInt 读取后转为 number，超出 2^53 的部分会损失精度
+ */
+export function createScalarReader(type: PCDFieldType, size: number, littleEndian = true): ScalarReader {
+  const le = littleEndian
+  switch (`${type}${size}`) {
+    case "I1":
+      return (view, o) => view.getInt8(o)
+    case "I2":
+      return (view, o) => view.getInt16(o, le)
+    case "I4":
+      return (view, o) => view.getInt32(o, le)
+    case "I8":
+      return (view, o) => Number(view.getBigInt64(o, le))
+    case "U1":
+      return (view, o) => view.getUint8(o)
+    case "U2":
+      return (view, o) => view.getUint16(o, le)
+    case "U4":
+      return (view, o) => view.getUint32(o, le)
+    case "U8":
+      return (view, o) => Number(view.getBigUint64(o, le))
+    case "F4":
+      return (view, o) => view.getFloat32(o, le)
+    case "F8":
+      return (view, o) => view.getFloat64(o, le)
+    default:
+      throw new PointCloudParseError("INVALID_HEADER", `Unsupported PCD field type: TYPE ${type} SIZE ${size}`, {
+        expected: "I / U with SIZE 1, 2, 4 or 8, F with SIZE 4 or 8",
+        actual: `TYPE ${type} SIZE ${size}`,
+      })
+  }
+}
+
+/** 读取第 pointIndex 个点的第 component 个分量 */
+export type FieldValueReader = (pointIndex: number, component: number) => number
+
+/**
+ * 创建二进制数据的字段读取函数
+ * - 行式（binary）：每个点的所有字段连续存放
+ * - 列式（binary_compressed 解压后）：每个字段的所有点连续存放
+ */
+export function createBinaryFieldReader(
+  view: DataView,
+  field: PCDField,
+  rowSize: number,
+  columnar: boolean,
+): FieldValueReader {
+  const read = createScalarReader(field.type, field.size)
+  const { size, count } = field
+
+  if (columnar) {
+    const base = field.columnOffset
+    return (i, c) => read(view, base + (i * count + c) * size)
+  }
+
+  const base = field.offset
+  return (i, c) => read(view, i * rowSize + base + c * size)
+}
+
+// ===== 颜色 =====
+
+/**
+ * 颜色来源：
+ * - packed：rgb / rgba 单字段，4 字节内按 0x(AA)RRGGBB 打包（TYPE 可以是 F、U 或 I）
+ * - channels：r / g / b 三个独立字段
+ */
+export type PCDColorFields =
+  | { kind: "packed"; field: PCDField }
+  | { kind: "channels"; r: PCDField; g: PCDField; b: PCDField }
+
+export function resolveColorFields(layout: PCDFieldLayout): PCDColorFields | null {
+  const packed = layout.byName["rgb"] ?? layout.byName["rgba"]
+  if (packed && packed.size === 4) {
+    return { kind: "packed", field: packed }
+  }
+
+  const { r, g, b } = layout.byName
+  if (r && g && b) {
+    return { kind: "channels", r, g, b }
+  }
+
+  return null
+}
+
+/** 写入颜色：out[o..o+2] = r, g, b（0-1） */
+export type ColorReader = (pointIndex: number, out: Float32Array, outOffset: number) => void
+
+// 复用的转换缓冲区，用于把 ascii 中的 float 还原为打包整数
+const packedFloat = new Float32Array(1)
+const packedBits = new Uint32Array(packedFloat.buffer)
+
+function writePacked(packed: number, out: Float32Array, o: number) {
+  out[o] = ((packed >> 16) & 0xff) / 255
+  out[o + 1] = ((packed >> 8) & 0xff) / 255
+  out[o + 2] = (packed & 0xff) / 255
+}
+
+/**
+ * 将单个颜色通道归一化到 0-1
+ * 整数按类型最大值归一化；浮点值原样保留，读完后由 rescaleFloatChannels 按整列范围换算
+ */
+export function normalizeChannel(field: Pick<PCDField, "type" | "size">, value: number): number {
+  if (field.type === "F") {
+    return value
+  }
+  const max = field.type === "U" ? 2 ** (field.size * 8) - 1 : 2 ** (field.size * 8 - 1) - 1
+  return value / max
+}
+
+/**
+ * 换算 r / g / b 中的浮点通道：整列最大值大于 1 时按 0-255 换算，否则视为 0-1
+ * 按列统一决定，0-255 数据中的 0、1 不会被当作 0-1 范围
+ *
+ * @param channels - r、g、b 三个通道的字段，顺序与 colors 中的分量一致
+ * @param colors - 已写入原始浮点值的颜色数组，原地换算
+ */
+export function rescaleFloatChannels(channels: Pick<PCDField, "type">[], colors: Float32Array, count: number) {
+  for (let c = 0; c < channels.length; c++) {
+    if (channels[c].type !== "F") continue
+    let max = Number.NEGATIVE_INFINITY
+    for (let i = 0; i < count; i++) {
+      if (colors[i * 3 + c] > max) max = colors[i * 3 + c]
+    }
+    if (max <= 1) continue
+    for (let i = 0; i < count; i++) {
+      colors[i * 3 + c] /= 255
+    }
+  }
+}
+
+/**
+ * 创建二进制数据的颜色读取函数
+ * 打包颜色直接按 uint32 读取字节，避免 float 读取时 NaN 位模式被规范化
+ */
+export function createBinaryColorReader(
+  view: DataView,
+  colorFields: PCDColorFields,
+  rowSize: number,
+  columnar: boolean,
+): ColorReader {
+  if (colorFields.kind === "packed") {
+    const bitsField: PCDField = { ...colorFields.field, type: "U" }
+    const readPacked = createBinaryFieldReader(view, bitsField, rowSize, columnar)
+    return (i, out, o) => writePacked(readPacked(i, 0), out, o)
+  }
+
+  const { r, g, b } = colorFields
+  const readR = createBinaryFieldReader(view, r, rowSize, columnar)
+  const readG = createBinaryFieldReader(view, g, rowSize, columnar)
+  const readB = createBinaryFieldReader(view, b, rowSize, columnar)
+  return (i, out, o) => {
+    out[o] = normalizeChannel(r, readR(i, 0))
+    out[o + 1] = normalizeChannel(g, readG(i, 0))
+    out[o + 2] = normalizeChannel(b, readB(i, 0))
+  }
+}
+
+/**
+ * 创建 ascii 行的颜色读取函数
+ * 打包为 F 类型时，文本中是 float 的十进制表示，需要还原其位模式
+ */
+export function createAsciiColorReader(
+  colorFields: PCDColorFields,
+): (tokens: string[], out: Float32Array, outOffset: number) => void {
+  if (colorFields.kind === "packed") {
+    const { field } = colorFields
+    return (tokens, out, o) => {
+      const value = Number(tokens[field.tokenIndex])
+      if (field.type === "F") {
+        packedFloat[0] = value
+        writePacked(packedBits[0], out, o)
+      } else {
+        writePacked(value >>> 0, out, o)
+      }
+    }
+  }
+
+  const { r, g, b } = colorFields
+  return (tokens, out, o) => {
+    out[o] = normalizeChannel(r, Number(tokens[r.tokenIndex]))
+    out[o + 1] = normalizeChannel(g, Number(tokens[g.tokenIndex]))
+    out[o + 2] = normalizeChannel(b, Number(tokens[b.tokenIndex]))
+  }
+}
+
+// ===== 其他逐点属性 =====
+
+// PCL 用 "_" 字段做内存对齐填充，不包含有效数据
+const PADDING_FIELD = "_"
+
+/** 坐标、颜色和填充以外的字段都作为逐点属性保留 */
+export function resolveAttributeFields(layout: PCDFieldLayout, colorFields: PCDColorFields | null): PCDField[] {
+  const skipped = new Set(["x", "y", "z", PADDING_FIELD])
+  if (colorFields?.kind === "packed") {
+    skipped.add(colorFields.field.name)
+  } else if (colorFields?.kind === "channels") {
+    skipped.add(colorFields.r.name)
+    skipped.add(colorFields.g.name)
+    skipped.add(colorFields.b.name)
+  }
+  return layout.fields.filter((field) => !skipped.has(field.name))
+}
+
+/** 按字段类型分配属性数组，length 为元素个数（点数 × COUNT） */
+export function createAttributeArray(field: Pick<PCDField, "type" | "size">, length: number): PointAttributeArray {
+  switch (`${field.type}${field.size}`) {
+    case "I1":
+      return allocateArray(Int8Array, length)
+    case "I2":
+      return allocateArray(Int16Array, length)
+    case "I4":
+      return allocateArray(Int32Array, length)
+    case "U1":
+      return allocateArray(Uint8Array, length)
+    case "U2":
+      return allocateArray(Uint16Array, length)
+    case "U4":
+      return allocateArray(Uint32Array, length)
+    case "F4":
+      return allocateArray(Float32Array, length)
+    default:
+      // I8 / U8 / F8
+      return allocateArray(Float64Array, length)
+  }
+}
+
+/** 记录原始颜色编码，导出时沿用 */
+export function colorEncodingOf(colorFields: PCDColorFields | null): PointCloudMetadata["colorEncoding"] {
+  if (!colorFields) return null
+  if (colorFields.kind === "channels") return "channels"
+  return colorFields.field.name === "rgba" ? "rgba" : "rgb"
+}
@@ -0,0 +1,506 @@
+import { describe, expect, it } from "vitest"
+import { bufferSource, type ByteSource, type ParseProgress } from "./byte-source"
+import { PointCloudParseError } from "./parse-error"
+import { getPointPosition } from "./point-attributes"
+import { parsePCD } from "./pcd-parser"
+import { writePCD, type PCDDataFormat } from "./pcd-writer"
+import type { PointCloudData } from "./types"
+
+// 只用字面量块编码 LZF（每块最多 32 字节），足以构造合法的压缩数据
+function encodeLiteralLZF(input: Uint8Array): Uint8Array {
+  const out: number[] = []
+  for (let i = 0; i < input.length; i += 32) {
+    const run = input.subarray(i, i + 32)
+    out.push(run.length - 1, ...run)
+  }
+  return new Uint8Array(out)
+}
+
+function concat(...parts: Uint8Array[]): ArrayBuffer {
+  const bytes = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    bytes.set(part, offset)
+    offset += part.length
+  }
+  return bytes.buffer
+}
+
+interface TestField {
+  name: string
+  type: "I" | "U" | "F"
+  size: number
+  count?: number
+  // 第 i 个点的各分量
+  values: (i: number) => number[]
+}
+
+function writeScalar(view: DataView, offset: number, field: TestField, value: number) {
+  const setters: { [key: string]: () => void } = {
+    I1: () => view.setInt8(offset, value),
+    I2: () => view.setInt16(offset, value, true),
+    I4: () => view.setInt32(offset, value, true),
+    U1: () => view.setUint8(offset, value),
+    U2: () => view.setUint16(offset, value, true),
+    U4: () => view.setUint32(offset, value, true),
+    F4: () => view.setFloat32(offset, value, true),
+    F8: () => view.setFloat64(offset, value, true),
+  }
+  setters[`${field.type}${field.size}`]()
+}
+
+function pcdHeader(fields: TestField[], points: number, data: string): Uint8Array {
+  return new TextEncoder().encode(
+    [
+      "VERSION .7",
+      `FIELDS ${fields.map((f) => f.name).join(" ")}`,
+      `SIZE ${fields.map((f) => f.size).join(" ")}`,
+      `TYPE ${fields.map((f) => f.type).join(" ")}`,
+      `COUNT ${fields.map((f) => f.count ?? 1).join(" ")}`,
+      `WIDTH ${points}`,
+      "HEIGHT 1",
+      "VIEWPOINT 0 0 0 1 0 0 0",
+      `POINTS ${points}`,
+      `DATA ${data}`,
+      "",
+    ].join("\n"),
+  )
+}
+
+// 行式 binary：每个点的所有字段连续存放
+function binaryPCD(fields: TestField[], points: number): ArrayBuffer {
+  const rowSize = fields.reduce((sum, f) => sum + f.size * (f.count ?? 1), 0)
+  const view = new DataView(new ArrayBuffer(rowSize * points))
+  for (let i = 0; i < points; i++) {
+    let offset = i * rowSize
+    for (const field of fields) {
+      for (const value of field.values(i)) {
+        writeScalar(view, offset, field, value)
+        offset += field.size
+      }
+    }
+  }
+  return concat(pcdHeader(fields, points, "binary"), new Uint8Array(view.buffer))
+}
+
+function asciiPCD(fields: TestField[], points: number): ArrayBuffer {
+  const rows = Array.from({ length: points }, (_, i) => fields.flatMap((f) => f.values(i)).join(" "))
+  return concat(pcdHeader(fields, points, "ascii"), new TextEncoder().encode(rows.join("\n") + "\n"))
+}
+
+const xyz = (size: 4 | 8): TestField[] => [
+  { name: "x", type: "F", size, values: (i) => [i + 0.5] },
+  { name: "y", type: "F", size, values: (i) => [i * 2] },
+  { name: "z", type: "F", size, values: (i) => [i * 3] },
+]
+
+describe("parsePCD field types", () => {
+  const expectedPositions = [0.5, 0, 0, 1.5, 2, 3, 2.5, 4, 6]
+
+  it("reads F8 coordinates", async () => {
+    const parsed = await parsePCD(bufferSource(binaryPCD(xyz(8), 3)))
+    expect(Array.from(parsed.positions)).toEqual(expectedPositions)
+  })
+
+  for (const build of [binaryPCD, asciiPCD]) {
+    const format = build === binaryPCD ? "binary" : "ascii"
+
+    it(`skips U1, U2 and COUNT > 1 fields between the coordinates as ${format}`, async () => {
+      const fields: TestField[] = [
+        { name: "label", type: "U", size: 2, values: (i) => [i + 1000] },
+        xyz(4)[0],
+        { name: "fpfh", type: "F", size: 4, count: 33, values: (i) => Array.from({ length: 33 }, (_, k) => i * k) },
+        xyz(4)[1],
+        { name: "ring", type: "U", size: 1, values: (i) => [i] },
+        xyz(4)[2],
+      ]
+      const parsed = await parsePCD(bufferSource(build(fields, 3)))
+      expect(parsed.count).toBe(3)
+      expect(Array.from(parsed.positions)).toEqual(expectedPositions)
+    })
+
+    it(`reads separate U1 r g b fields as ${format}`, async () => {
+      const fields: TestField[] = [
+        ...xyz(4),
+        { name: "r", type: "U", size: 1, values: () => [255] },
+        { name: "g", type: "U", size: 1, values: (i) => [i * 51] },
+        { name: "b", type: "U", size: 1, values: () => [0] },
+      ]
+      const parsed = await parsePCD(bufferSource(build(fields, 3)))
+      expect(Array.from(parsed.colors)).toEqual([1, 0, 0, 1, 0.2, 0, 1, 0.4, 0].map(Math.fround))
+    })
+
+    it(`picks the 0-255 range for float r g b once per column as ${format}`, async () => {
+      // b 列在 0-255 数据中取 1，不能被当作 0-1 范围的满值；g 列整列不超过 1，保持 0-1
+      const fields: TestField[] = [
+        ...xyz(4),
+        { name: "r", type: "F", size: 4, values: (i) => [[255, 0, 51][i]] },
+        { name: "g", type: "F", size: 4, values: (i) => [[0.5, 1, 0][i]] },
+        { name: "b", type: "F", size: 4, values: (i) => [[1, 255, 0][i]] },
+      ]
+      const parsed = await parsePCD(bufferSource(build(fields, 3)))
+      expect(Array.from(parsed.colors)).toEqual([1, 0.5, 1 / 255, 0, 1, 1, 0.2, 0, 0].map(Math.fround))
+    })
+
+    it(`unpacks U4 rgba colors as ${format}`, async () => {
+      const fields: TestField[] = [
+        ...xyz(4),
+        { name: "rgba", type: "U", size: 4, values: (i) => [[0xff336699, 0x80ff0000, 0x000000ff][i]] },
+      ]
+      const parsed = await parsePCD(bufferSource(build(fields, 3)))
+      expect(Array.from(parsed.colors)).toEqual(
+        [0x33 / 255, 0x66 / 255, 0x99 / 255, 1, 0, 0, 0, 0, 1].map(Math.fround),
+      )
+    })
+  }
+})
+
+describe("parsePCD attributes", () => {
+  for (const build of [binaryPCD, asciiPCD]) {
+    const format = build === binaryPCD ? "binary" : "ascii"
+
+    it(`keeps fields other than x y z and color as typed attributes as ${format}`, async () => {
+      const fields: TestField[] = [
+        ...xyz(4),
+        { name: "rgb", type: "U", size: 4, values: () => [0xffffff] },
+        { name: "intensity", type: "F", size: 4, values: (i) => [i * 0.25] },
+        { name: "label", type: "U", size: 2, values: (i) => [i + 1000] },
+        { name: "ring", type: "I", size: 1, values: (i) => [-i] },
+        { name: "fpfh", type: "F", size: 4, count: 33, values: (i) => Array.from({ length: 33 }, (_, k) => i + k) },
+      ]
+      const { attributes } = await parsePCD(bufferSource(build(fields, 3)))
+
+      expect(Object.keys(attributes)).toEqual(["intensity", "label", "ring", "fpfh"])
+      expect(attributes["intensity"].array).toBeInstanceOf(Float32Array)
+      expect(Array.from(attributes["intensity"].array)).toEqual([0, 0.25, 0.5])
+      expect(attributes["label"].array).toBeInstanceOf(Uint16Array)
+      expect(Array.from(attributes["label"].array)).toEqual([1000, 1001, 1002])
+      expect(attributes["ring"].array).toBeInstanceOf(Int8Array)
+      expect(Array.from(attributes["ring"].array)).toEqual([0, -1, -2])
+      expect(attributes["fpfh"].itemSize).toBe(33)
+      expect(Array.from(attributes["fpfh"].array.subarray(33, 36))).toEqual([1, 2, 3])
+    })
+
+    it(`drops the attributes of points with NaN coordinates as ${format}`, async () => {
+      const fields: TestField[] = [
+        { name: "x", type: "F", size: 4, values: (i) => [i === 1 ? Number.NaN : i] },
+        { name: "y", type: "F", size: 4, values: () => [0] },
+        { name: "z", type: "F", size: 4, values: () => [0] },
+        { name: "label", type: "U", size: 2, values: (i) => [i] },
+      ]
+      const parsed = await parsePCD(bufferSource(build(fields, 3)))
+
+      expect(parsed.count).toBe(2)
+      expect(Array.from(parsed.attributes["label"].array)).toEqual([0, 2])
+    })
+  }
+})
+
+describe("parsePCD binary_compressed", () => {
+  it("decodes column-major x y z rgb data", async () => {
+    const points = 3
+    const header = new TextEncoder().encode(
+      [
+        "VERSION .7",
+        "FIELDS x y z rgb",
+        "SIZE 4 4 4 4",
+        "TYPE F F F U",
+        "COUNT 1 1 1 1",
+        `WIDTH ${points}`,
+        "HEIGHT 1",
+        "VIEWPOINT 0 0 0 1 0 0 0",
+        `POINTS ${points}`,
+        "DATA binary_compressed",
+        "",
+      ].join("\n"),
+    )
+
+    // 列式存储：先所有点的 x，再 y、z、rgb
+    const body = new DataView(new ArrayBuffer(points * 16))
+    const rgb = [0xff0000, 0x00ff00, 0x0000ff]
+    for (let i = 0; i < points; i++) {
+      body.setFloat32(i * 4, i, true)
+      body.setFloat32(points * 4 + i * 4, i * 10, true)
+      body.setFloat32(points * 8 + i * 4, i * 0.5, true)
+      body.setUint32(points * 12 + i * 4, rgb[i], true)
+    }
+    const compressed = encodeLiteralLZF(new Uint8Array(body.buffer))
+    const sizes = new DataView(new ArrayBuffer(8))
+    sizes.setUint32(0, compressed.length, true)
+    sizes.setUint32(4, body.byteLength, true)
+
+    const parsed = await parsePCD(bufferSource(concat(header, new Uint8Array(sizes.buffer), compressed)))
+
+    expect(parsed.count).toBe(points)
+    expect(Array.from(parsed.positions)).toEqual([0, 0, 0, 1, 10, 0.5, 2, 20, 1])
+    expect(Array.from(parsed.colors)).toEqual([1, 0, 0, 0, 1, 0, 0, 0, 1])
+  })
+})
+
+// 颜色取 1/255 的整数倍，打包为 rgb 再解出后应完全一致
+function makeCloud(count: number): PointCloudData {
+  const positions = new Float32Array(count * 3)
+  const colors = new Float32Array(count * 3)
+  const intensity = new Float32Array(count)
+  const label = new Uint16Array(count)
+  for (let i = 0; i < count; i++) {
+    positions[i * 3] = i * 0.5
+    positions[i * 3 + 1] = i - 50
+    positions[i * 3 + 2] = Math.sin(i)
+    colors[i * 3] = (i % 256) / 255
+    colors[i * 3 + 1] = ((i * 7) % 256) / 255
+    colors[i * 3 + 2] = ((i * 13) % 256) / 255
+    intensity[i] = i / 10
+    label[i] = i % 5
+  }
+  return {
+    positions,
+    colors,
+    count,
+    attributes: {
+      intensity: { array: intensity, itemSize: 1 },
+      label: { array: label, itemSize: 1 },
+    },
+    metadata: { viewpoint: [0, 0, 0, 1, 0, 0, 0], width: count, height: 1, colorEncoding: "rgb" },
+  }
+}
+
+const FORMATS: PCDDataFormat[] = ["ascii", "binary", "binary_compressed"]
+
+// ascii 把 float32 写为 8 位有效数字，只保证近似；二进制格式逐位一致
+function expectValues(format: PCDDataFormat, actual: ArrayLike<number>, expected: ArrayLike<number>) {
+  expect(actual.length).toBe(expected.length)
+  if (format !== "ascii") {
+    expect(Array.from(actual)).toEqual(Array.from(expected))
+    return
+  }
+  for (let i = 0; i < expected.length; i++) {
+    expect(Math.abs(actual[i] - expected[i])).toBeLessThanOrEqual(Math.abs(expected[i]) * 1e-7)
+  }
+}
+
+describe("writePCD → parsePCD", () => {
+  for (const format of FORMATS) {
+    it(`round-trips positions, colors and attributes as ${format}`, async () => {
+      const cloud = makeCloud(1000)
+      const parsed = await parsePCD(bufferSource(writePCD(cloud, { format })))
+
+      expect(parsed.count).toBe(cloud.count)
+      expectValues(format, parsed.positions, cloud.positions)
+      expect(Array.from(parsed.colors)).toEqual(Array.from(cloud.colors))
+      expectValues(format, parsed.attributes["intensity"].array, cloud.attributes["intensity"].array)
+      expect(parsed.attributes["label"].array).toBeInstanceOf(Uint16Array)
+      expect(Array.from(parsed.attributes["label"].array)).toEqual(Array.from(cloud.attributes["label"].array))
+      expect(parsed.metadata?.colorEncoding).toBe("rgb")
+    })
+
+    it(`exports only the given indices as ${format}`, async () => {
+      const cloud = makeCloud(100)
+      const indices = new Uint32Array([3, 10, 42, 99])
+      const parsed = await parsePCD(bufferSource(writePCD(cloud, { format, indices })))
+
+      expect(parsed.count).toBe(indices.length)
+      indices.forEach((index, n) => {
+        const actual = parsed.positions.subarray(n * 3, n * 3 + 3)
+        expectValues(format, actual, cloud.positions.subarray(index * 3, index * 3 + 3))
+        expect(parsed.attributes["label"].array[n]).toBe(cloud.attributes["label"].array[index])
+      })
+    })
+  }
+
+  it("keeps the WIDTH × HEIGHT grid and its holes", async () => {
+    const cloud = makeCloud(3)
+    cloud.metadata = { ...cloud.metadata!, width: 2, height: 2 }
+    // 4 个像素中第 2 个是空洞
+    cloud.grid = { width: 2, height: 2, pixelIndex: new Uint32Array([0, 2, 3]) }
+    const parsed = await parsePCD(bufferSource(writePCD(cloud, { format: "binary" })))
+
+    expect(parsed.count).toBe(3)
+    expect(parsed.grid?.width).toBe(2)
+    expect(parsed.grid?.height).toBe(2)
+    expect(Array.from(parsed.grid!.pixelIndex)).toEqual([0, 2, 3])
+    expect(Array.from(parsed.positions)).toEqual(Array.from(cloud.positions))
+  })
+
+  it("round-trips UTM coordinates through a float64 origin", async () => {
+    const cloud = makeCloud(2)
+    cloud.positions = new Float32Array([0.25, -0.5, 0.125, 1.5, 2.75, -3.25])
+    cloud.origin = [500_000.5, 4_000_000.25, 100]
+    const parsed = await parsePCD(bufferSource(writePCD(cloud, { format: "binary" })))
+
+    // 以第一个点取整后的坐标为原点，两次平移在 float64 中都是精确的
+    expect(parsed.origin).toEqual([500_001, 4_000_000, 100])
+    expect(Array.from(parsed.positions)).toEqual([-0.25, -0.25, 0.125, 1, 3, -3.25])
+    expect(getPointPosition(parsed, 1)).toEqual([500_002, 4_000_003, 96.75])
+  })
+})
+
+// 每次最多返回 size 字节，模拟分多块读到的文件
+function slowSource(buffer: ArrayBuffer, size: number): ByteSource {
+  const source = bufferSource(buffer)
+  return { size: source.size, read: (start, end) => source.read(start, Math.min(end, start + size)) }
+}
+
+describe("parsePCD progress", () => {
+  for (const format of FORMATS) {
+    it(`ends at the file size and the point count as ${format}`, async () => {
+      const buffer = writePCD(makeCloud(500), { format })
+      const progress: ParseProgress[] = []
+      await parsePCD(bufferSource(buffer), {}, (p) => progress.push(p))
+
+      expect(progress.length).toBeGreaterThan(0)
+      expect(progress.at(-1)).toEqual({
+        bytesProcessed: buffer.byteLength,
+        totalBytes: buffer.byteLength,
+        pointsDecoded: 500,
+      })
+    })
+  }
+
+  it("reports every chunk in increasing order", async () => {
+    const buffer = writePCD(makeCloud(500), { format: "ascii" })
+    const progress: ParseProgress[] = []
+    await parsePCD(slowSource(buffer, 1000), {}, (p) => progress.push(p))
+
+    expect(progress.length).toBeGreaterThan(10)
+    for (let i = 1; i < progress.length; i++) {
+      expect(progress[i].bytesProcessed).toBeGreaterThan(progress[i - 1].bytesProcessed)
+      expect(progress[i].pointsDecoded).toBeGreaterThanOrEqual(progress[i - 1].pointsDecoded)
+    }
+    expect(progress.at(-1)).toMatchObject({ bytesProcessed: buffer.byteLength, pointsDecoded: 500 })
+  })
+})
+
+const HEADER: { [keyword: string]: string } = {
+  VERSION: "VERSION .7",
+  FIELDS: "FIELDS x y z",
+  SIZE: "SIZE 4 4 4",
+  TYPE: "TYPE F F F",
+  COUNT: "COUNT 1 1 1",
+  WIDTH: "WIDTH 2",
+  HEIGHT: "HEIGHT 1",
+  VIEWPOINT: "VIEWPOINT 0 0 0 1 0 0 0",
+  POINTS: "POINTS 2",
+  DATA: "DATA binary",
+}
+
+// 按 HEADER 的顺序拼出文件，overrides 替换对应行，值为 null 时删去该行
+function pcdFile(overrides: { [keyword: string]: string | null }, data: Uint8Array = new Uint8Array(24)): ArrayBuffer {
+  const lines = Object.keys(HEADER)
+    .map((keyword) => (keyword in overrides ? overrides[keyword] : HEADER[keyword]))
+    .filter((line): line is string => line !== null)
+  const header = new TextEncoder().encode(lines.join("\n") + "\n")
+  const bytes = new Uint8Array(header.length + data.length)
+  bytes.set(header)
+  bytes.set(data, header.length)
+  return bytes.buffer
+}
+
+async function parseError(buffer: ArrayBuffer): Promise<PointCloudParseError> {
+  const error = await parsePCD(bufferSource(buffer)).then(
+    () => null,
+    (error: unknown) => error,
+  )
+  expect(error).toBeInstanceOf(PointCloudParseError)
+  return error as PointCloudParseError
+}
+
+describe("parsePCD header validation", () => {
+  it("parses the reference header", async () => {
+    expect((await parsePCD(bufferSource(pcdFile({})))).count).toBe(2)
+  })
+
+  it("locates binary data after a comment with multi-byte characters", async () => {
+    const data = new Uint8Array(new Float32Array([1, 2, 3, 4, 5, 6]).buffer)
+    const parsed = await parsePCD(bufferSource(pcdFile({ VERSION: "# 点云 scan\nVERSION .7" }, data)))
+    expect(Array.from(parsed.positions)).toEqual([1, 2, 3, 4, 5, 6])
+  })
+
+  it("rejects an unsupported DATA type with its line", async () => {
+    const error = await parseError(pcdFile({ DATA: "DATA binary_lz4" }))
+    expect(error).toMatchObject({ code: "INVALID_HEADER", location: { kind: "line", value: 10 }, actual: "binary_lz4" })
+  })
+
+  it("rejects a header without a DATA line", async () => {
+    const error = await parseError(pcdFile({ DATA: null }, new Uint8Array(0)))
+    expect(error.code).toBe("INVALID_HEADER")
+    expect(error.location?.kind).toBe("byte")
+  })
+
+  it("rejects SIZE entries that do not match FIELDS", async () => {
+    const error = await parseError(pcdFile({ SIZE: "SIZE 4 4" }))
+    expect(error).toMatchObject({
+      code: "FIELD_LENGTH_MISMATCH",
+      location: { kind: "line", value: 3 },
+      expected: 3,
+      actual: 2,
+    })
+  })
+
+  it("rejects files without x / y / z fields", async () => {
+    const error = await parseError(pcdFile({ FIELDS: "FIELDS x y intensity" }))
+    expect(error).toMatchObject({ code: "MISSING_XYZ", location: { kind: "line", value: 2 } })
+    expect(error.message).toContain("z")
+  })
+
+  it("rejects POINTS that disagree with WIDTH × HEIGHT", async () => {
+    const error = await parseError(pcdFile({ POINTS: "POINTS 3" }))
+    expect(error).toMatchObject({
+      code: "POINT_COUNT_MISMATCH",
+      location: { kind: "line", value: 9 },
+      expected: 2,
+      actual: 3,
+    })
+  })
+
+  it("derives POINTS from WIDTH × HEIGHT when it is omitted", async () => {
+    expect((await parsePCD(bufferSource(pcdFile({ POINTS: null })))).count).toBe(2)
+  })
+})
+
+describe("parsePCD data validation", () => {
+  it("rejects truncated binary data", async () => {
+    const error = await parseError(pcdFile({}, new Uint8Array(20)))
+    expect(error.code).toBe("TRUNCATED_DATA")
+    expect(error.message).toContain("1 of 2 points")
+  })
+
+  it("rejects ascii data with fewer rows than POINTS", async () => {
+    const error = await parseError(pcdFile({ DATA: "DATA ascii" }, new TextEncoder().encode("1 2 3\n")))
+    expect(error.code).toBe("TRUNCATED_DATA")
+  })
+
+  describe("binary_compressed", () => {
+    const compressed = () => new Uint8Array(writePCD(makeCloud(100), { format: "binary_compressed" }))
+    // 头部是 ASCII，字符下标即字节偏移
+    const dataOffset = (bytes: Uint8Array) => {
+      const marker = "DATA binary_compressed\n"
+      return new TextDecoder().decode(bytes.subarray(0, 4096)).indexOf(marker) + marker.length
+    }
+
+    it("rejects a file that ends inside the compressed block", async () => {
+      const bytes = compressed()
+      const error = await parseError(bytes.slice(0, bytes.length - 10).buffer)
+      expect(error.code).toBe("TRUNCATED_DATA")
+    })
+
+    it("rejects a decompressed size smaller than the fields need", async () => {
+      const bytes = compressed()
+      const view = new DataView(bytes.buffer)
+      const offset = dataOffset(bytes)
+      view.setUint32(offset + 4, view.getUint32(offset + 4, true) - 4, true)
+      const error = await parseError(bytes.buffer)
+      expect(error).toMatchObject({ code: "CORRUPT_DATA", location: { kind: "byte", value: offset + 4 } })
+    })
+
+    it("rejects corrupt LZF data", async () => {
+      const bytes = compressed()
+      const offset = dataOffset(bytes)
+      // 第一个控制字节改为回引，距离超出已解压的数据
+      bytes[offset + 8] = 0x40
+      bytes[offset + 9] = 0xff
+      const error = await parseError(bytes.buffer)
+      expect(error).toMatchObject({ code: "CORRUPT_DATA", location: { kind: "byte", value: offset + 8 } })
+    })
+  })
+})
@@ -1,4 +1,35 @@
 import type { PointCloudData } from "./types"
+import { decompressLZF } from "./lzf"
+import {
+  buildFieldLayout,
+  colorEncodingOf,
+  createAsciiColorReader,
+  createAttributeArray,
+  createBinaryColorReader,
+  createBinaryFieldReader,
+  resolveAttributeFields,
+  resolveColorFields,
+  rescaleFloatChannels,
+  type PCDFieldLayout,
+} from "./pcd-fields"
+import {
+  forEachLineChunk,
+  forEachRecordChunk,
+  viewOf,
+  type ByteSource,
+  type ProgressCallback,
+} from "./byte-source"
+import { PointCloudBuilder } from "./point-cloud-builder"
+import { PointCloudParseError } from "./parse-error"
+import { allocateArray, truncateArray } from "./shared-memory"
+import { IDENTITY_VIEWPOINT, applyViewpointTransform, isIdentityViewpoint, parseViewpoint } from "./viewpoint"
+
+export interface PCDParseOptions {
+  // 把点变换到 VIEWPOINT 所在的世界坐标系
+  applyViewpoint?: boolean
+}
+
+const DATA_FORMATS = ["ascii", "binary", "binary_compressed"] as const
 
 interface PCDHeader {
   version: string
@@ -10,13 +41,28 @@ interface PCDHeader {
   height: number
   viewpoint: number[]
   points: number
-  data: "ascii" | "binary" | "binary_compressed"
+  data: (typeof DATA_FORMATS)[number]
   headerLen: number
-  offset: { [key: string]: number }
-  rowSize: number
+  // 头部占用的行数，用于给 ascii 数据行报错时换算行号
+  headerLines: number
+  // 各关键字所在的行号（从 1 开始），用于报错定位
+  lineOf: { [keyword: string]: number }
+  layout: PCDFieldLayout
 }
 
-function parseHeader(data: string): PCDHeader {
+// 先读取 4096 字节，头部没有结束则按 4 倍扩大，最多读取 1MB
+const HEADER_PROBE_SIZE = 4096
+const MAX_HEADER_SIZE = 1024 * 1024
+const NEWLINE = 0x0a
+
+/**
+ * 解析头部
+ * 头部长度在原始字节中按换行符计算：注释可能含多字节字符，解码后的文本长度与字节数不一致
+ * @param head - 文件开头的一段字节
+ * @param atEnd - head 是否已经到达文件末尾
+ * @returns 找到完整的 DATA 行时返回头部，否则返回 null（需要读取更多内容）
+ */
+function parseHeader(head: Uint8Array, atEnd: boolean): PCDHeader | null {
   const header: Partial<PCDHeader> = {
     version: "",
     fields: [],
@@ -25,21 +71,25 @@ function parseHeader(data: string): PCDHeader {
     count: [],
     width: 0,
     height: 0,
-    viewpoint: [0, 0, 0, 1, 0, 0, 0],
+    viewpoint: IDENTITY_VIEWPOINT,
     points: 0,
     data: "ascii",
-    offset: {},
-    rowSize: 0,
+    lineOf: {},
   }
 
-  const lines = data.split("\n")
+  const textDecoder = new TextDecoder()
   let headerLen = 0
+  let complete = false
 
-  for (const line of lines) {
-    headerLen += line.length + 1
+  for (let lineIndex = 0; headerLen < head.length; lineIndex++) {
+    const newline = head.indexOf(NEWLINE, headerLen)
+    const lineEnd = newline === -1 ? head.length : newline
+    const line = textDecoder.decode(head.subarray(headerLen, lineEnd))
+    headerLen = lineEnd + 1
     const parts = line.trim().split(/\s+/)
 
     if (parts.length === 0) continue
+    header.lineOf![parts[0]] = lineIndex + 1
 
     switch (parts[0]) {
       case "VERSION":
@@ -70,145 +120,337 @@ function parseHeader(data: string): PCDHeader {
         header.points = Number.parseInt(parts[1], 10)
         break
       case "DATA":
-        header.data = parts[1].toLowerCase() as "ascii" | "binary" | "binary_compressed"
+        header.data = (parts[1] ?? "").toLowerCase() as PCDHeader["data"]
         break
     }
 
-    if (parts[0] === "DATA") break
+    if (parts[0] === "DATA") {
+      // 最后一段可能被截断在行中间，除非已经读到文件末尾
+      complete = newline !== -1 || atEnd
+      header.headerLines = lineIndex + 1
+      break
+    }
   }
 
+  if (!complete) return null
+
   header.headerLen = headerLen
+  validateHeader(header as PCDHeader)
 
-  // Calculate offsets
-  let offset = 0
-  for (let i = 0; i < header.fields!.length; i++) {
-    header.offset![header.fields![i]] = offset
-    offset += header.size![i] * (header.count![i] || 1)
-  }
-  header.rowSize = offset
+  // 根据 SIZE / TYPE / COUNT 计算各字段布局
+  header.layout = buildFieldLayout(header as PCDHeader)
 
   return header as PCDHeader
 }
 
+/**
+ * 校验头部各关键字之间是否一致
+ */
+function validateHeader(header: PCDHeader) {
+  const line = (keyword: string) =>
+    header.lineOf[keyword] ? { kind: "line" as const, value: header.lineOf[keyword] } : undefined
+
+  if (!(DATA_FORMATS as readonly string[]).includes(header.data)) {
+    throw new PointCloudParseError("INVALID_HEADER", `Unsupported PCD DATA type "${header.data}"`, {
+      location: line("DATA"),
+      expected: DATA_FORMATS.join(" | "),
+      actual: header.data,
+    })
+  }
+
+  // SIZE / TYPE / COUNT 可以省略（按默认值处理），但出现时必须与 FIELDS 一一对应
+  for (const [keyword, values] of [
+    ["SIZE", header.size],
+    ["TYPE", header.type],
+    ["COUNT", header.count],
+  ] as const) {
+    if (values.length > 0 && values.length !== header.fields.length) {
+      throw new PointCloudParseError(
+        "FIELD_LENGTH_MISMATCH",
+        `PCD ${keyword} has ${values.length} entries but FIELDS has ${header.fields.length}`,
+        { location: line(keyword), expected: header.fields.length, actual: values.length },
+      )
+    }
+  }
+
+  const fieldNames = new Set(header.fields)
+  const missing = ["x", "y", "z"].filter((name) => !fieldNames.has(name))
+  if (missing.length > 0) {
+    throw new PointCloudParseError("MISSING_XYZ", `PCD file is missing ${missing.join("/")} field(s)`, {
+      location: line("FIELDS"),
+      expected: "x y z",
+      actual: header.fields.join(" ") || "(none)",
+    })
+  }
+
+  // POINTS 可以省略（旧版本），此时由 WIDTH × HEIGHT 推出
+  const gridPoints = header.width * header.height
+  if (!header.lineOf["POINTS"]) {
+    header.points = gridPoints
+  } else if (header.lineOf["WIDTH"] && header.lineOf["HEIGHT"] && header.points !== gridPoints) {
+    throw new PointCloudParseError(
+      "POINT_COUNT_MISMATCH",
+      `PCD POINTS (${header.points}) does not match WIDTH × HEIGHT (${header.width} × ${header.height})`,
+      { location: line("POINTS"), expected: gridPoints, actual: header.points },
+    )
+  }
+}
+
+/**
+ * 读取并解析头部：先读取 HEADER_PROBE_SIZE 字节，不够时逐步扩大
+ */
+async function readHeader(source: ByteSource): Promise<PCDHeader> {
+  let probe = HEADER_PROBE_SIZE
+
+  for (;;) {
+    const end = Math.min(probe, source.size)
+    const header = parseHeader(await source.read(0, end), end === source.size)
+    if (header) return header
+
+    if (end === source.size) {
+      throw new PointCloudParseError("INVALID_HEADER", "PCD header ended without a DATA line", {
+        location: { kind: "byte", value: end },
+        expected: "DATA ascii | binary | binary_compressed",
+        actual: "end of file",
+      })
+    }
+    if (end >= MAX_HEADER_SIZE) {
+      throw new PointCloudParseError("HEADER_TOO_LONG", `PCD header is longer than ${MAX_HEADER_SIZE} bytes`, {
+        location: { kind: "byte", value: end },
+        expected: `DATA line within ${MAX_HEADER_SIZE} bytes`,
+        actual: "no DATA line",
+      })
+    }
+    probe *= 4
+  }
+}
+
 /**
  * 解析 PCD (Point Cloud Data) 文件
  * 
  * PCD 文件格式说明：
- * - 文件由头部（文本）和数据部分（ASCII 或二进制）组成
+ * - 文件由头部（文本）和数据部分（ASCII、二进制或 LZF 压缩的二进制）组成
  * - 头部包含元数据：字段名、数据类型、点数量等
- * - 数据部分包含每个点的坐标（x, y, z）和可选的 RGB 颜色信息
+ * - 数据部分包含每个点的坐标（x, y, z）、可选的 RGB 颜色信息，以及 intensity、label 等其他字段
+ *
+ * 数据按块读取，并直接写入按 POINTS 预分配的 TypedArray，大文件不会整体读入内存
  * 
- * @param arrayBuffer - 文件的二进制数据
- * @returns 标准化的点云数据，包含位置数组、颜色数组和点数量
+ * @param source - 文件的分块读取接口
+ * @param options - applyViewpoint 为 true 时把点从传感器坐标系变换到 VIEWPOINT 所在的世界坐标系
+ * @param onProgress - 每处理完一块数据回调一次
+ * @returns 标准化的点云数据，包含位置数组、颜色数组、点数量和其他逐点属性
  */
-export function parsePCD(arrayBuffer: ArrayBuffer): PointCloudData {
-  // 1. 解析文件头部（前 4096 字节通常足够包含所有头部信息）
-  const textDecoder = new TextDecoder()
-  const headerText = textDecoder.decode(new Uint8Array(arrayBuffer, 0, Math.min(4096, arrayBuffer.byteLength)))
-  const header = parseHeader(headerText)
+export async function parsePCD(
+  source: ByteSource,
+  options: PCDParseOptions = {},
+  onProgress?: ProgressCallback,
+): Promise<PointCloudData> {
+  // 1. 解析并校验文件头部（前 4096 字节通常足够包含所有头部信息，不够时继续读取）
+  const header = await readHeader(source)
+  const { layout } = header
 
+  // 字段顺序、类型和大小都可能不同，需要根据字段名查找布局（validateHeader 已确认 x/y/z 存在）
+  const xField = layout.byName["x"]
+  const yField = layout.byName["y"]
+  const zField = layout.byName["z"]
+  // 颜色可能是打包的 rgb / rgba 字段，也可能是独立的 r g b 字段
+  const colorFields = resolveColorFields(layout)
+  // 其余字段（intensity、label、normal 等）保留为逐点属性
+  const attributeFields = resolveAttributeFields(layout, colorFields)
 
-  // 2. 初始化存储数组
+  // 2. 按 POINTS 预分配存储数组
   // positions: [x1, y1, z1, x2, y2, z2, ...] - 每个点 3 个值
   // colors: [r1, g1, b1, r2, g2, b2, ...] - 每个点 3 个值，范围 0-1
-  const positions: number[] = []
-  const colors: number[] = []
+  const builder = new PointCloudBuilder(
+    header.points,
+    attributeFields.map((field) => ({
+      name: field.name,
+      itemSize: field.count,
+      create: (length: number) => createAttributeArray(field, length),
+    })),
+  )
+  // 有序点云：记录每个有效点在 WIDTH × HEIGHT 网格中的位置，丢弃 NaN 空洞后仍能还原行列
+  const organized = header.height > 1 && header.width * header.height === header.points
+  const pixelIndex = organized ? allocateArray(Uint32Array, header.points) : null
+  const report = (bytesProcessed: number) =>
+    onProgress?.({ bytesProcessed, totalBytes: source.size, pointsDecoded: builder.count })
 
   // 3. 根据数据格式解析点云数据
   if (header.data === "ascii") {
     // ASCII 格式：文本格式，每行一个点，字段用空格分隔
-    const text = textDecoder.decode(arrayBuffer)
-    const lines = text.split("\n")
-    let dataStarted = false
-
-    for (const line of lines) {
-      // 找到 DATA 标记，之后才是实际数据
-      if (line.trim().startsWith("DATA")) {
-        dataStarted = true
-        continue
-      }
+    const readColor = colorFields ? createAsciiColorReader(colorFields) : null
+    let sourceIndex = 0
+    // 已读取的行号（含头部），用于数据行不足时报告位置
+    let lineNumber = header.headerLines
+    let lastDataLine = lineNumber
 
-      if (!dataStarted) continue
+    await forEachLineChunk(source, header.headerLen, (lines, bytesProcessed) => {
+      builder.reserve(lines.length)
+      const { colors, attributes } = builder
 
-      const parts = line.trim().split(/\s+/)
-      if (parts.length < 3) continue
+      for (const line of lines) {
+        lineNumber++
+        const parts = line.trim().split(/\s+/)
+        if (parts.length < 3) continue
+        const pixel = sourceIndex++
+        lastDataLine = lineNumber
 
-      // 提取 x, y, z 坐标（字段顺序可能不同，需要根据字段名查找）
-      const x = Number.parseFloat(parts[header.fields.indexOf("x")])
-      const y = Number.parseFloat(parts[header.fields.indexOf("y")])
-      const z = Number.parseFloat(parts[header.fields.indexOf("z")])
+        // 提取 x, y, z 坐标（COUNT > 1 的字段占多个 token，因此使用 tokenIndex 而非字段序号）
+        const x = Number.parseFloat(parts[xField.tokenIndex])
+        const y = Number.parseFloat(parts[yField.tokenIndex])
+        const z = Number.parseFloat(parts[zField.tokenIndex])
 
-      // 跳过无效数据
-      if (isNaN(x) || isNaN(y) || isNaN(z)) continue
+        // 跳过无效数据
+        if (isNaN(x) || isNaN(y) || isNaN(z)) continue
 
-      positions.push(x, y, z)
-
-      // 解析 RGB 颜色（如果存在）
-      // PCD 格式中，RGB 通常打包为一个浮点数：R(8位) + G(8位) + B(8位)
-      const rgbIndex = header.fields.indexOf("rgb")
-      if (rgbIndex !== -1 && parts[rgbIndex]) {
-        const rgb = Number.parseFloat(parts[rgbIndex])
-        // 将浮点数转换为整数，然后提取 RGB 分量
-        const intRgb = new Float32Array([rgb])
-        const view = new DataView(intRgb.buffer)
-        const intVal = view.getInt32(0, true)
-        // 位操作提取：R 在高 8 位，G 在中 8 位，B 在低 8 位
-        const r = ((intVal >> 16) & 0xff) / 255
-        const g = ((intVal >> 8) & 0xff) / 255
-        const b = (intVal & 0xff) / 255
-        colors.push(r, g, b)
-      } else {
-        // 如果没有颜色信息，使用默认白色
-        colors.push(1, 1, 1)
+        const pointIndex = builder.count++
+        builder.setPosition(pointIndex, x, y, z)
+        if (pixelIndex) pixelIndex[pointIndex] = pixel
+
+        for (let f = 0; f < attributeFields.length; f++) {
+          const field = attributeFields[f]
+          const array = attributes[f]
+          for (let c = 0; c < field.count; c++) {
+            array[pointIndex * field.count + c] = Number(parts[field.tokenIndex + c])
+          }
+        }
+
+        // 没有颜色信息时保留默认白色
+        readColor?.(parts, colors, pointIndex * 3)
       }
+
+      report(bytesProcessed)
+    })
+
+    if (sourceIndex < header.points) {
+      throw new PointCloudParseError(
+        "TRUNCATED_DATA",
+        `PCD ascii data ends after ${sourceIndex} of ${header.points} points`,
+        { location: { kind: "line", value: lastDataLine + 1 }, expected: header.points, actual: sourceIndex },
+      )
     }
   } else if (header.data === "binary") {
     // 二进制格式：更高效，适合大文件
-    // 使用 DataView 直接读取二进制数据，跳过头部
-    const dataView = new DataView(arrayBuffer, header.headerLen)
+    // 每块读取整数个点，使用 DataView 直接读取，跳过头部
+    const expectedSize = header.headerLen + layout.rowSize * header.points
+    if (source.size < expectedSize) {
+      const available = Math.max(0, Math.floor((source.size - header.headerLen) / layout.rowSize))
+      throw new PointCloudParseError(
+        "TRUNCATED_DATA",
+        `PCD binary data is truncated: ${available} of ${header.points} points present`,
+        { location: { kind: "byte", value: source.size }, expected: `${expectedSize} bytes`, actual: `${source.size} bytes` },
+      )
+    }
+    await forEachRecordChunk(source, header.headerLen, layout.rowSize, header.points, (view, first, count, bytesProcessed) => {
+      decodeBinaryPoints(view, false, first, count, bytesProcessed)
+    })
+  } else if (header.data === "binary_compressed") {
+    // 压缩二进制格式：PCL 默认的 LZF 压缩导出
+    // 头部之后依次是：压缩后大小（uint32）、解压后大小（uint32）、LZF 压缩数据
+    // 解压后的数据按字段列式存储（先所有点的 x，再所有点的 y……），只能整体读取
+    const dataStart = header.headerLen + 8
+    if (source.size < dataStart) {
+      throw new PointCloudParseError("TRUNCATED_DATA", "PCD binary_compressed data is missing its size fields", {
+        location: { kind: "byte", value: source.size },
+        expected: `${dataStart} bytes`,
+        actual: `${source.size} bytes`,
+      })
+    }
+    const sizeView = viewOf(await source.read(header.headerLen, dataStart))
+    const compressedSize = sizeView.getUint32(0, true)
+    const decompressedSize = sizeView.getUint32(4, true)
+
+    if (source.size < dataStart + compressedSize) {
+      throw new PointCloudParseError("TRUNCATED_DATA", "PCD binary_compressed data is truncated", {
+        location: { kind: "byte", value: source.size },
+        expected: `${dataStart + compressedSize} bytes`,
+        actual: `${source.size} bytes`,
+      })
+    }
+    const expectedSize = layout.rowSize * header.points
+    if (decompressedSize < expectedSize) {
+      throw new PointCloudParseError("CORRUPT_DATA", "PCD binary_compressed size does not match the header fields", {
+        location: { kind: "byte", value: header.headerLen + 4 },
+        expected: `${expectedSize} bytes`,
+        actual: `${decompressedSize} bytes`,
+      })
+    }
 
-    // 获取各字段在每行数据中的字节偏移量（在 parseHeader 中已计算）
-    const xOffset = header.offset["x"] ?? 0
-    const yOffset = header.offset["y"] ?? 4
-    const zOffset = header.offset["z"] ?? 8
-    const rgbOffset = header.offset["rgb"]
+    const compressed = await source.read(dataStart, dataStart + compressedSize)
+    let decompressed: Uint8Array
+    try {
+      decompressed = decompressLZF(compressed, decompressedSize)
+    } catch (error) {
+      throw new PointCloudParseError("CORRUPT_DATA", (error as Error).message, {
+        location: { kind: "byte", value: dataStart },
+      })
+    }
+    decodeBinaryPoints(viewOf(decompressed), true, 0, header.points, dataStart + compressedSize)
+  }
 
-    // 遍历每个点
-    for (let i = 0; i < header.points; i++) {
-      // 计算当前点在二进制数据中的起始位置
-      const rowOffset = i * header.rowSize
+  // 根据 TYPE / SIZE 创建读取函数，float64 坐标、整数字段等都能正确读取
+  // first 为本块第一个点在文件中的序号，用于记录有序点云的网格位置
+  function decodeBinaryPoints(view: DataView, columnar: boolean, first: number, count: number, bytesProcessed: number) {
+    const readX = createBinaryFieldReader(view, xField, layout.rowSize, columnar)
+    const readY = createBinaryFieldReader(view, yField, layout.rowSize, columnar)
+    const readZ = createBinaryFieldReader(view, zField, layout.rowSize, columnar)
+    const readColor = colorFields ? createBinaryColorReader(view, colorFields, layout.rowSize, columnar) : null
+    const readAttributes = attributeFields.map((field) => createBinaryFieldReader(view, field, layout.rowSize, columnar))
+    const { colors, attributes } = builder
 
-      // 读取坐标（Float32，小端序）
-      const x = dataView.getFloat32(rowOffset + xOffset, true)
-      const y = dataView.getFloat32(rowOffset + yOffset, true)
-      const z = dataView.getFloat32(rowOffset + zOffset, true)
+    // 遍历每个点
+    for (let i = 0; i < count; i++) {
+      const x = readX(i, 0)
+      const y = readY(i, 0)
+      const z = readZ(i, 0)
 
       // 跳过无效数据
       if (isNaN(x) || isNaN(y) || isNaN(z)) continue
 
-      positions.push(x, y, z)
-
-      // 解析 RGB（与 ASCII 格式相同的处理方式）
-      if (rgbOffset !== undefined) {
-        const rgb = dataView.getFloat32(rowOffset + rgbOffset, true)
-        const intRgb = new Float32Array([rgb])
-        const view = new DataView(intRgb.buffer)
-        const intVal = view.getInt32(0, true)
-        const r = ((intVal >> 16) & 0xff) / 255
-        const g = ((intVal >> 8) & 0xff) / 255
-        const b = (intVal & 0xff) / 255
-        colors.push(r, g, b)
-      } else {
-        colors.push(1, 1, 1)
+      const pointIndex = builder.count++
+      builder.setPosition(pointIndex, x, y, z)
+      if (pixelIndex) pixelIndex[pointIndex] = first + i
+
+      for (let f = 0; f < attributeFields.length; f++) {
+        const itemSize = attributeFields[f].count
+        const array = attributes[f]
+        const read = readAttributes[f]
+        for (let c = 0; c < itemSize; c++) {
+          array[pointIndex * itemSize + c] = read(i, c)
+        }
       }
+
+      readColor?.(i, colors, pointIndex * 3)
     }
+
+    report(bytesProcessed)
   }
 
-  // 4. 返回标准化的点云数据格式
-  // 这种格式可以直接用于 Three.js 的 BufferGeometry
-  return {
-    positions: new Float32Array(positions), // 扁平化的坐标数组：[x1, y1, z1, x2, y2, z2, ...]
-    colors: new Float32Array(colors),    // 扁平化的颜色数组：[r1, g1, b1, r2, g2, b2, ...]，值范围 0-1
-    count: positions.length / 3, // 点的数量
+  // 独立 r g b 中的浮点通道读完整列后才能确定是 0-1 还是 0-255
+  if (colorFields?.kind === "channels") {
+    rescaleFloatChannels([colorFields.r, colorFields.g, colorFields.b], builder.colors, builder.count)
   }
+
+  // 4. 可选：按 VIEWPOINT 变换到世界坐标系（单位视点无需变换）
+  const viewpoint = parseViewpoint(header.viewpoint)
+  const viewpointApplied = !!options.applyViewpoint && !isIdentityViewpoint(viewpoint)
+  if (viewpointApplied) {
+    builder.origin = applyViewpointTransform(builder.positions, builder.count, viewpoint, builder.origin ?? [0, 0, 0])
+  }
+
+  // 5. 返回标准化的点云数据格式
+  // 这种格式可以直接用于 Three.js 的 BufferGeometry
+  return builder.finish({
+    // 导出时需要保留的头部信息
+    metadata: {
+      viewpoint: header.viewpoint,
+      viewpointApplied,
+      width: header.width,
+      height: header.height,
+      colorEncoding: colorEncodingOf(colorFields),
+    },
+    grid: pixelIndex
+      ? { width: header.width, height: header.height, pixelIndex: truncateArray(pixelIndex, builder.count) }
+      : undefined,
+  })
 }
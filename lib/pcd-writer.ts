@@ -0,0 +1,244 @@
+import type { PointAttributeArray, PointCloudData } from "./types"
+import { compressLZF } from "./lzf"
+import { IDENTITY_VIEWPOINT } from "./viewpoint"
+import { buildPixelLookup } from "./point-grid"
+
+export type PCDDataFormat = "ascii" | "binary" | "binary_compressed"
+
+export interface PCDWriteOptions {
+  format: PCDDataFormat
+  // 只导出这些点；不传则导出全部
+  indices?: Uint32Array
+}
+
+/**
+ * 导出的一个字段
+ * read 返回第 pointIndex 个点第 component 个分量的数值，
+ * 打包颜色（rgb / rgba）返回的是 uint32 位模式
+ */
+interface OutputField {
+  name: string
+  type: "I" | "U" | "F"
+  size: number
+  count: number
+  packedColor: boolean
+  read: (pointIndex: number, component: number) => number
+}
+
+function attributeFieldType(array: PointAttributeArray): { type: "I" | "U" | "F"; size: number } {
+  if (array instanceof Int8Array) return { type: "I", size: 1 }
+  if (array instanceof Int16Array) return { type: "I", size: 2 }
+  if (array instanceof Int32Array) return { type: "I", size: 4 }
+  if (array instanceof Uint8Array) return { type: "U", size: 1 }
+  if (array instanceof Uint16Array) return { type: "U", size: 2 }
+  if (array instanceof Uint32Array) return { type: "U", size: 4 }
+  if (array instanceof Float32Array) return { type: "F", size: 4 }
+  return { type: "F", size: 8 }
+}
+
+const toByte = (value: number) => Math.max(0, Math.min(255, Math.round(value * 255)))
+
+function buildOutputFields(data: PointCloudData): OutputField[] {
+  const { positions, colors } = data
+  // 有 origin 时加回原点得到原始坐标，float32 放不下这样的大坐标，改写为 F 8
+  const [ox, oy, oz] = data.origin ?? [0, 0, 0]
+  const coordinateSize = data.origin ? 8 : 4
+  const fields: OutputField[] = [
+    { name: "x", type: "F", size: coordinateSize, count: 1, packedColor: false, read: (i) => positions[i * 3] + ox },
+    { name: "y", type: "F", size: coordinateSize, count: 1, packedColor: false, read: (i) => positions[i * 3 + 1] + oy },
+    { name: "z", type: "F", size: coordinateSize, count: 1, packedColor: false, read: (i) => positions[i * 3 + 2] + oz },
+  ]
+
+  // 颜色始终导出（上色结果就保存在这里），编码方式尽量沿用原文件
+  const encoding = data.metadata?.colorEncoding ?? "rgb"
+  if (encoding === "channels") {
+    ;["r", "g", "b"].forEach((name, c) => {
+      fields.push({ name, type: "U", size: 1, count: 1, packedColor: false, read: (i) => toByte(colors[i * 3 + c]) })
+    })
+  } else {
+    const packed = (i: number) =>
+      ((toByte(colors[i * 3]) << 16) | (toByte(colors[i * 3 + 1]) << 8) | toByte(colors[i * 3 + 2])) >>> 0
+    if (encoding === "rgba") {
+      // 原始 alpha 已在解析时丢弃，统一写为不透明
+      fields.push({ name: "rgba", type: "U", size: 4, count: 1, packedColor: true, read: (i) => (packed(i) | 0xff000000) >>> 0 })
+    } else {
+      // PCL 约定 rgb 字段以 F 4 存储打包后的位模式
+      fields.push({ name: "rgb", type: "F", size: 4, count: 1, packedColor: true, read: packed })
+    }
+  }
+
+  for (const [name, { array, itemSize }] of Object.entries(data.attributes)) {
+    const { type, size } = attributeFieldType(array)
+    fields.push({ name, type, size, count: itemSize, packedColor: false, read: (i, c) => array[i * itemSize + c] })
+  }
+
+  return fields
+}
+
+// 有序点云空洞的坐标写为 NaN（PCL 约定），其余字段写 0
+const HOLE_FIELDS = new Set(["x", "y", "z"])
+
+function writeValue(view: DataView, byteOffset: number, field: OutputField, value: number) {
+  if (field.packedColor) {
+    // 打包颜色按位写入，避免经过 float 转换
+    view.setUint32(byteOffset, value, true)
+    return
+  }
+  switch (`${field.type}${field.size}`) {
+    case "I1":
+      return view.setInt8(byteOffset, value)
+    case "I2":
+      return view.setInt16(byteOffset, value, true)
+    case "I4":
+      return view.setInt32(byteOffset, value, true)
+    case "U1":
+      return view.setUint8(byteOffset, value)
+    case "U2":
+      return view.setUint16(byteOffset, value, true)
+    case "U4":
+      return view.setUint32(byteOffset, value, true)
+    case "F4":
+      return view.setFloat32(byteOffset, value, true)
+    default:
+      return view.setFloat64(byteOffset, value, true)
+  }
+}
+
+// 复用的转换缓冲区，用于把打包颜色写成 ascii 中的 float
+const packedBits = new Uint32Array(1)
+const packedFloat = new Float32Array(packedBits.buffer)
+
+function formatValue(field: OutputField, value: number): string {
+  if (field.packedColor && field.type === "F") {
+    packedBits[0] = value
+    return String(packedFloat[0])
+  }
+  if (field.type === "F" && field.size === 4) {
+    // float32 的有效位数约为 7-8 位，多余的十进制位没有意义
+    return String(Number(value.toPrecision(8)))
+  }
+  return String(value)
+}
+
+function buildHeader(
+  data: PointCloudData,
+  fields: OutputField[],
+  pointCount: number,
+  format: PCDDataFormat,
+  keepGrid: boolean,
+): string {
+  // 点已变换到世界坐标系时再写原视点会在下次加载时被重复变换
+  const viewpoint =
+    data.metadata && !data.metadata.viewpointApplied ? data.metadata.viewpoint : IDENTITY_VIEWPOINT
+  const width = keepGrid ? data.metadata!.width : pointCount
+  const height = keepGrid ? data.metadata!.height : 1
+
+  return [
+    "# .PCD v0.7 - Point Cloud Data file format",
+    "VERSION 0.7",
+    `FIELDS ${fields.map((f) => f.name).join(" ")}`,
+    `SIZE ${fields.map((f) => f.size).join(" ")}`,
+    `TYPE ${fields.map((f) => f.type).join(" ")}`,
+    `COUNT ${fields.map((f) => f.count).join(" ")}`,
+    `WIDTH ${width}`,
+    `HEIGHT ${height}`,
+    `VIEWPOINT ${viewpoint.join(" ")}`,
+    `POINTS ${pointCount}`,
+    `DATA ${format}`,
+    "",
+  ].join("\n")
+}
+
+/**
+ * 将点云写回 PCD 文件
+ *
+ * - 坐标写为 F 4（带 origin 时加回原点并写为 F 8），颜色沿用原文件的 rgb / rgba / r g b 编码
+ * - 其他逐点属性按其 TypedArray 类型写出，保持原字段名和 COUNT
+ * - VIEWPOINT 原样保留（点已按视点变换时写单位视点）；只有导出全部点且点数与原 WIDTH × HEIGHT 一致时才保留网格尺寸
+ * - 有序点云导出全部点时还原 WIDTH × HEIGHT 网格，空洞写为 NaN
+ *
+ * @param data - 点云数据
+ * @param options - 数据格式和可选的导出索引
+ * @returns PCD 文件内容
+ */
+export function writePCD(data: PointCloudData, options: PCDWriteOptions): ArrayBuffer {
+  const { format, indices } = options
+  const fields = buildOutputFields(data)
+
+  // 有序点云导出全部点时按网格逐像素写出，空洞（pointAt 为 -1）写回 NaN 坐标
+  const lookup = !indices && data.grid ? buildPixelLookup(data.grid) : null
+  const pointCount = lookup ? lookup.length : indices ? indices.length : data.count
+  const pointAt = lookup
+    ? (n: number) => lookup[n]
+    : indices
+      ? (n: number) => indices[n]
+      : (n: number) => n
+  const readField = (field: OutputField, i: number, c: number) =>
+    i >= 0 ? field.read(i, c) : HOLE_FIELDS.has(field.name) ? Number.NaN : 0
+
+  const keepGrid =
+    !!lookup || (!indices && !!data.metadata && data.metadata.width * data.metadata.height === data.count)
+  const header = buildHeader(data, fields, pointCount, format, keepGrid)
+  const encoder = new TextEncoder()
+
+  if (format === "ascii") {
+    const lines: string[] = []
+    const values: string[] = []
+    for (let n = 0; n < pointCount; n++) {
+      const i = pointAt(n)
+      values.length = 0
+      for (const field of fields) {
+        for (let c = 0; c < field.count; c++) {
+          values.push(formatValue(field, readField(field, i, c)))
+        }
+      }
+      lines.push(values.join(" "))
+    }
+    return encoder.encode(header + lines.join("\n") + "\n").buffer as ArrayBuffer
+  }
+
+  const headerBytes = encoder.encode(header)
+  const rowSize = fields.reduce((sum, f) => sum + f.size * f.count, 0)
+  const body = new Uint8Array(rowSize * pointCount)
+  const view = new DataView(body.buffer)
+
+  if (format === "binary") {
+    // 行式：每个点的所有字段连续存放
+    for (let n = 0; n < pointCount; n++) {
+      const i = pointAt(n)
+      let offset = n * rowSize
+      for (const field of fields) {
+        for (let c = 0; c < field.count; c++) {
+          writeValue(view, offset, field, readField(field, i, c))
+          offset += field.size
+        }
+      }
+    }
+
+    const output = new Uint8Array(headerBytes.length + body.length)
+    output.set(headerBytes, 0)
+    output.set(body, headerBytes.length)
+    return output.buffer
+  }
+
+  // binary_compressed：列式存储后整体 LZF 压缩
+  let offset = 0
+  for (const field of fields) {
+    for (let n = 0; n < pointCount; n++) {
+      const i = pointAt(n)
+      for (let c = 0; c < field.count; c++) {
+        writeValue(view, offset, field, readField(field, i, c))
+        offset += field.size
+      }
+    }
+  }
+
+  const compressed = compressLZF(body)
+  const output = new Uint8Array(headerBytes.length + 8 + compressed.length)
+  output.set(headerBytes, 0)
+  const sizeView = new DataView(output.buffer, headerBytes.length, 8)
+  sizeView.setUint32(0, compressed.length, true)
+  sizeView.setUint32(4, body.length, true)
+  output.set(compressed, headerBytes.length + 8)
+  return output.buffer
+}
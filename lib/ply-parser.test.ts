@@ -0,0 +1,158 @@
+import { describe, expect, it } from "vitest"
+import { bufferSource } from "./byte-source"
+import { PointCloudParseError } from "./parse-error"
+import { parsePLY } from "./ply-parser"
+
+function plyFile(header: string[], data: Uint8Array | string = ""): ArrayBuffer {
+  const head = new TextEncoder().encode(header.join("\n") + "\n")
+  const body = typeof data === "string" ? new TextEncoder().encode(data) : data
+  const bytes = new Uint8Array(head.length + body.length)
+  bytes.set(head)
+  bytes.set(body, head.length)
+  return bytes.buffer
+}
+
+const header = (format: string, ...properties: string[]) => [
+  "ply",
+  `format ${format} 1.0`,
+  "element vertex 2",
+  ...(properties.length > 0 ? properties : ["property float x", "property float y", "property float z"]),
+  "end_header",
+]
+
+// x y z 为 float32，其后是 uchar red green blue
+function binaryVertices(littleEndian: boolean): Uint8Array {
+  const view = new DataView(new ArrayBuffer(2 * 15))
+  const vertices = [
+    [1, 2, 3, 255, 0, 51],
+    [4, 5, 6, 0, 255, 102],
+  ]
+  vertices.forEach((vertex, v) => {
+    const base = v * 15
+    for (let k = 0; k < 3; k++) view.setFloat32(base + k * 4, vertex[k], littleEndian)
+    for (let k = 0; k < 3; k++) view.setUint8(base + 12 + k, vertex[3 + k])
+  })
+  return new Uint8Array(view.buffer)
+}
+
+const COLOR_PROPERTIES = [
+  "property float x",
+  "property float y",
+  "property float z",
+  "property uchar red",
+  "property uchar green",
+  "property uchar blue",
+]
+
+describe("parsePLY", () => {
+  it("parses ascii vertices and keeps other scalar properties as attributes", async () => {
+    const lines = header("ascii", ...COLOR_PROPERTIES, "property float nx")
+    const parsed = await parsePLY(bufferSource(plyFile(lines, "1 2 3 255 0 51 0.5\n4 5 6 0 255 102 -1\n")))
+    expect(parsed.count).toBe(2)
+    expect(Array.from(parsed.positions)).toEqual([1, 2, 3, 4, 5, 6])
+    expect(Array.from(parsed.colors)).toEqual([1, 0, 0.2, 0, 1, 0.4].map(Math.fround))
+    expect(Array.from(parsed.attributes["nx"].array)).toEqual([0.5, -1])
+    expect(parsed.metadata?.colorEncoding).toBe("channels")
+  })
+
+  for (const [format, littleEndian] of [
+    ["binary_little_endian", true],
+    ["binary_big_endian", false],
+  ] as const) {
+    it(`parses ${format} vertices`, async () => {
+      const file = plyFile(header(format, ...COLOR_PROPERTIES), binaryVertices(littleEndian))
+      const parsed = await parsePLY(bufferSource(file))
+      expect(Array.from(parsed.positions)).toEqual([1, 2, 3, 4, 5, 6])
+      expect(Array.from(parsed.colors)).toEqual([1, 0, 0.2, 0, 1, 0.4].map(Math.fround))
+    })
+  }
+
+  it("finds the binary body after a comment that is not valid UTF-8", async () => {
+    const lines = header("binary_little_endian", ...COLOR_PROPERTIES)
+    const head = new TextEncoder().encode(lines.slice(0, 2).join("\n") + "\ncomment ")
+    // Latin-1 的 "é" 解码为 U+FFFD 后会多出 2 个字节
+    const rest = new TextEncoder().encode("\n" + lines.slice(2).join("\n") + "\n")
+    const body = binaryVertices(true)
+    const bytes = new Uint8Array(head.length + 1 + rest.length + body.length)
+    bytes.set(head)
+    bytes[head.length] = 0xe9
+    bytes.set(rest, head.length + 1)
+    bytes.set(body, head.length + 1 + rest.length)
+
+    const parsed = await parsePLY(bufferSource(bytes.buffer))
+    expect(Array.from(parsed.positions)).toEqual([1, 2, 3, 4, 5, 6])
+  })
+
+  it("skips list properties on the vertex and elements before it", async () => {
+    const lines = [
+      "ply",
+      "format ascii 1.0",
+      "element camera 1",
+      "property float fov",
+      "element vertex 2",
+      "property float x",
+      "property list uchar int ids",
+      "property float y",
+      "property float z",
+      "end_header",
+    ]
+    const parsed = await parsePLY(bufferSource(plyFile(lines, "60\n1 2 7 8 2 3\n4 0 5 6\n")))
+    expect(Array.from(parsed.positions)).toEqual([1, 2, 3, 4, 5, 6])
+    expect(Object.keys(parsed.attributes)).toEqual([])
+  })
+
+  it("picks the 0-255 range for float colors once per column", async () => {
+    const properties = COLOR_PROPERTIES.map((line) => line.replace("uchar", "float"))
+    const file = plyFile(header("ascii", ...properties), "0 0 0 255 0.5 1\n1 1 1 51 1 255\n")
+    const parsed = await parsePLY(bufferSource(file))
+    expect(Array.from(parsed.colors)).toEqual([1, 0.5, 1 / 255, 0.2, 1, 1].map(Math.fround))
+  })
+})
+
+async function parseError(buffer: ArrayBuffer): Promise<PointCloudParseError> {
+  const error = await parsePLY(bufferSource(buffer)).then(
+    () => null,
+    (error: unknown) => error,
+  )
+  expect(error).toBeInstanceOf(PointCloudParseError)
+  return error as PointCloudParseError
+}
+
+describe("parsePLY errors", () => {
+  it("rejects files that do not start with ply", async () => {
+    const error = await parseError(plyFile(["PCD", ...header("ascii").slice(1)]))
+    expect(error).toMatchObject({ code: "INVALID_HEADER", location: { kind: "byte", value: 0 } })
+  })
+
+  it("rejects a header without end_header", async () => {
+    const error = await parseError(plyFile(header("ascii").slice(0, -1)))
+    expect(error).toMatchObject({ code: "INVALID_HEADER", location: { kind: "byte" } })
+  })
+
+  it("rejects an unknown format with its line", async () => {
+    const error = await parseError(plyFile(header("binary_middle_endian")))
+    expect(error).toMatchObject({ code: "INVALID_HEADER", location: { kind: "line", value: 2 } })
+  })
+
+  it("rejects an unknown property type with its line", async () => {
+    const error = await parseError(
+      plyFile(header("ascii", "property float x", "property float y", "property float128 z")),
+    )
+    expect(error).toMatchObject({ code: "INVALID_HEADER", location: { kind: "line", value: 6 } })
+  })
+
+  it("rejects a vertex element without z", async () => {
+    const error = await parseError(plyFile(header("ascii", "property float x", "property float y")))
+    expect(error).toMatchObject({ code: "MISSING_XYZ", location: { kind: "line", value: 3 } })
+  })
+
+  it("rejects ascii data with fewer vertices than declared", async () => {
+    const error = await parseError(plyFile(header("ascii"), "1 2 3\n"))
+    expect(error).toMatchObject({ code: "TRUNCATED_DATA", expected: 2, actual: 1 })
+  })
+
+  it("rejects binary data with fewer vertices than declared", async () => {
+    const error = await parseError(plyFile(header("binary_little_endian"), new Uint8Array(20)))
+    expect(error).toMatchObject({ code: "TRUNCATED_DATA", expected: 2, actual: 1 })
+  })
+})
@@ -0,0 +1,421 @@
+import type { PointCloudData } from "./types"
+import {
+  createAttributeArray,
+  createScalarReader,
+  normalizeChannel,
+  rescaleFloatChannels,
+  type PCDFieldType,
+  type ScalarReader,
+} from "./pcd-fields"
+import { forEachByteChunk, forEachLineChunk, viewOf, type ByteSource, type ProgressCallback } from "./byte-source"
+import { PointCloudBuilder } from "./point-cloud-builder"
+import { IDENTITY_VIEWPOINT } from "./viewpoint"
+import { PointCloudParseError } from "./parse-error"
+
+type PLYFormat = "ascii" | "binary_little_endian" | "binary_big_endian"
+
+interface PLYScalarType {
+  type: PCDFieldType
+  size: number
+}
+
+interface PLYProperty {
+  name: string
+  // 标量属性的类型；列表属性（如 face 的 vertex_indices）为元素类型
+  scalar: PLYScalarType
+  // 列表属性的长度类型，标量属性为 null
+  listCount: PLYScalarType | null
+}
+
+interface PLYElement {
+  name: string
+  count: number
+  properties: PLYProperty[]
+  // 声明该元素的头部行号，用于错误提示
+  line: number
+}
+
+interface PLYHeader {
+  format: PLYFormat
+  elements: PLYElement[]
+  headerLen: number
+  // 头部行数（含 end_header），ascii 数据的行号从其后开始
+  headerLines: number
+}
+
+// 头部读取的最大字节数
+const MAX_HEADER_SIZE = 65536
+
+const PLY_FORMATS: PLYFormat[] = ["ascii", "binary_little_endian", "binary_big_endian"]
+
+// PLY 类型名 → 与 PCD 相同的 TYPE / SIZE 描述
+const PLY_TYPES: { [name: string]: PLYScalarType } = {
+  char: { type: "I", size: 1 },
+  int8: { type: "I", size: 1 },
+  uchar: { type: "U", size: 1 },
+  uint8: { type: "U", size: 1 },
+  short: { type: "I", size: 2 },
+  int16: { type: "I", size: 2 },
+  ushort: { type: "U", size: 2 },
+  uint16: { type: "U", size: 2 },
+  int: { type: "I", size: 4 },
+  int32: { type: "I", size: 4 },
+  uint: { type: "U", size: 4 },
+  uint32: { type: "U", size: 4 },
+  float: { type: "F", size: 4 },
+  float32: { type: "F", size: 4 },
+  double: { type: "F", size: 8 },
+  float64: { type: "F", size: 8 },
+}
+
+function resolveType(name: string, line: number): PLYScalarType {
+  const type = PLY_TYPES[name]
+  if (!type) {
+    throw new PointCloudParseError("INVALID_HEADER", `Unsupported PLY property type "${name}"`, {
+      location: { kind: "line", value: line },
+      expected: Object.keys(PLY_TYPES).join(" | "),
+      actual: name,
+    })
+  }
+  return type
+}
+
+const END_HEADER = Array.from("end_header", (c) => c.charCodeAt(0))
+const NEWLINE = 0x0a
+
+/**
+ * 在原始字节中查找 end_header 所在行的结尾，返回数据开始的偏移，找不到时返回 -1
+ * 头部后紧跟二进制数据，注释里也可能有非 UTF-8 字节，不能用解码后的文本长度推算
+ */
+function findHeaderEnd(head: Uint8Array): number {
+  for (let i = 0; i + END_HEADER.length <= head.length; i++) {
+    // end_header 必须位于行首
+    if (i > 0 && head[i - 1] !== NEWLINE) continue
+    if (!END_HEADER.every((byte, k) => head[i + k] === byte)) continue
+    // 行尾可能是 \n 或 \r\n
+    const newline = head.indexOf(NEWLINE, i + END_HEADER.length)
+    return newline === -1 ? -1 : newline + 1
+  }
+  return -1
+}
+
+/**
+ * 解析头部
+ * @param head - 文件开头的一段字节
+ * @param atEnd - head 是否已经到达文件末尾
+ */
+function parseHeader(head: Uint8Array, atEnd: boolean): PLYHeader {
+  const magic = new TextDecoder().decode(head.subarray(0, 3))
+  if (magic !== "ply") {
+    throw new PointCloudParseError("INVALID_HEADER", "PLY file does not start with \"ply\"", {
+      location: { kind: "byte", value: 0 },
+      expected: "ply",
+      actual: magic,
+    })
+  }
+
+  // 头部是 ASCII 文本，以 end_header 行结束
+  const headerLen = findHeaderEnd(head)
+  if (headerLen === -1) {
+    if (atEnd) {
+      throw new PointCloudParseError("INVALID_HEADER", "PLY header ended without an end_header line", {
+        location: { kind: "byte", value: head.length },
+        expected: "end_header",
+        actual: "end of file",
+      })
+    }
+    throw new PointCloudParseError("HEADER_TOO_LONG", `PLY header is longer than ${MAX_HEADER_SIZE} bytes`, {
+      location: { kind: "byte", value: head.length },
+      expected: `end_header within ${MAX_HEADER_SIZE} bytes`,
+      actual: "no end_header line",
+    })
+  }
+
+  const lines = new TextDecoder().decode(head.subarray(0, headerLen)).split("\n")
+  const elements: PLYElement[] = []
+  let format = ""
+  let formatLine = 0
+
+  lines.forEach((line, lineIndex) => {
+    const parts = line.trim().split(/\s+/)
+    const lineNumber = lineIndex + 1
+
+    switch (parts[0]) {
+      case "format":
+        format = parts[1] ?? ""
+        formatLine = lineNumber
+        break
+      case "element":
+        elements.push({ name: parts[1], count: Number.parseInt(parts[2], 10), properties: [], line: lineNumber })
+        break
+      case "property": {
+        const element = elements[elements.length - 1]
+        if (!element) break
+        if (parts[1] === "list") {
+          element.properties.push({
+            name: parts[4],
+            scalar: resolveType(parts[3], lineNumber),
+            listCount: resolveType(parts[2], lineNumber),
+          })
+        } else {
+          element.properties.push({ name: parts[2], scalar: resolveType(parts[1], lineNumber), listCount: null })
+        }
+        break
+      }
+    }
+  })
+
+  if (!(PLY_FORMATS as string[]).includes(format)) {
+    throw new PointCloudParseError("INVALID_HEADER", `Unsupported PLY format "${format}"`, {
+      location: formatLine ? { kind: "line", value: formatLine } : undefined,
+      expected: PLY_FORMATS.join(" | "),
+      actual: format || "(none)",
+    })
+  }
+
+  // 按 \n 切分后最后一项是 end_header 行之后的空串
+  return { format: format as PLYFormat, elements, headerLen, headerLines: lines.length - 1 }
+}
+
+/** 颜色属性名：常见的 red/green/blue，以及部分导出工具使用的 r/g/b、diffuse_* */
+function findColorProperties(properties: PLYProperty[]): [PLYProperty, PLYProperty, PLYProperty] | null {
+  const byName = new Map(properties.filter((p) => !p.listCount).map((p) => [p.name, p]))
+  for (const [r, g, b] of [
+    ["red", "green", "blue"],
+    ["r", "g", "b"],
+    ["diffuse_red", "diffuse_green", "diffuse_blue"],
+  ]) {
+    const red = byName.get(r)
+    const green = byName.get(g)
+    const blue = byName.get(b)
+    if (red && green && blue) return [red, green, blue]
+  }
+  return null
+}
+
+/**
+ * 解析 PLY 文件
+ *
+ * - 支持 ascii、binary_little_endian、binary_big_endian
+ * - 只读取 vertex 元素：x/y/z、red/green/blue 颜色，其余标量属性（nx/ny/nz、alpha 等）保留为逐点属性
+ * - face 等其他元素被忽略，读完 vertex 后即停止读取
+ *
+ * @param source - 文件的分块读取接口
+ * @param onProgress - 每处理完一块数据回调一次
+ * @returns 与 PCD 解析相同格式的点云数据
+ */
+export async function parsePLY(source: ByteSource, onProgress?: ProgressCallback): Promise<PointCloudData> {
+  const headEnd = Math.min(MAX_HEADER_SIZE, source.size)
+  const header = parseHeader(await source.read(0, headEnd), headEnd === source.size)
+  const vertexIndex = header.elements.findIndex((e) => e.name === "vertex")
+  if (vertexIndex === -1) {
+    throw new PointCloudParseError("MISSING_XYZ", "PLY file has no vertex element", {
+      expected: "element vertex",
+      actual: header.elements.map((e) => e.name).join(" ") || "(none)",
+    })
+  }
+
+  const vertex = header.elements[vertexIndex]
+  const props = vertex.properties
+  const propIndex = (name: string) => props.findIndex((p) => p.name === name && !p.listCount)
+  const xIndex = propIndex("x")
+  const yIndex = propIndex("y")
+  const zIndex = propIndex("z")
+  if (xIndex === -1 || yIndex === -1 || zIndex === -1) {
+    const missing = ["x", "y", "z"].filter((name) => propIndex(name) === -1)
+    throw new PointCloudParseError("MISSING_XYZ", `PLY vertex element is missing ${missing.join("/")} property(s)`, {
+      location: { kind: "line", value: vertex.line },
+      expected: "x y z",
+      actual: props.map((p) => p.name).join(" ") || "(none)",
+    })
+  }
+
+  const colorProps = findColorProperties(props)
+  const colorIndices = colorProps ? colorProps.map((p) => props.indexOf(p)) : null
+  const attributeIndices: number[] = []
+  props.forEach((p, i) => {
+    if (p.listCount || i === xIndex || i === yIndex || i === zIndex) return
+    if (colorIndices?.includes(i)) return
+    attributeIndices.push(i)
+  })
+
+  const builder = new PointCloudBuilder(
+    vertex.count,
+    attributeIndices.map((i) => ({
+      name: props[i].name,
+      itemSize: 1,
+      create: (length: number) => createAttributeArray(props[i].scalar, length),
+    })),
+  )
+  const report = (bytesProcessed: number) =>
+    onProgress?.({ bytesProcessed, totalBytes: source.size, pointsDecoded: builder.count })
+
+  // 每个顶点的属性值（按 property 顺序）
+  const values = new Float64Array(props.length)
+  // 已读取的顶点数（包括被跳过的无效点）
+  let verticesRead = 0
+
+  const storeVertex = () => {
+    verticesRead++
+    const x = values[xIndex]
+    const y = values[yIndex]
+    const z = values[zIndex]
+    // 与 PCD 一致：跳过无效点
+    if (isNaN(x) || isNaN(y) || isNaN(z)) return
+
+    const { colors, attributes } = builder
+    const count = builder.count++
+    const base = count * 3
+    builder.setPosition(count, x, y, z)
+
+    if (colorIndices) {
+      for (let c = 0; c < 3; c++) {
+        colors[base + c] = normalizeChannel(props[colorIndices[c]].scalar, values[colorIndices[c]])
+      }
+    }
+
+    for (let a = 0; a < attributeIndices.length; a++) {
+      attributes[a][count] = values[attributeIndices[a]]
+    }
+  }
+
+  if (header.format === "ascii") {
+    // 跳过 vertex 之前的元素，每个元素实例占一行
+    let linesToSkip = 0
+    for (let e = 0; e < vertexIndex; e++) {
+      linesToSkip += header.elements[e].count
+    }
+
+    // 最后读取的行号，数据不足时用于报告位置
+    let lineNumber = header.headerLines
+
+    await forEachLineChunk(source, header.headerLen, (lines, bytesProcessed) => {
+      for (const line of lines) {
+        if (verticesRead >= vertex.count) break
+        lineNumber++
+        if (linesToSkip > 0) {
+          linesToSkip--
+          continue
+        }
+
+        const tokens = line.trim().split(/\s+/)
+        let t = 0
+        for (let p = 0; p < props.length; p++) {
+          if (props[p].listCount) {
+            // vertex 上的列表属性不保留，只跳过对应的 token
+            t += Number(tokens[t]) + 1
+          } else {
+            values[p] = Number(tokens[t++])
+          }
+        }
+        storeVertex()
+      }
+
+      report(bytesProcessed)
+      // 读完 vertex 后不再读取后面的 face 等元素
+      return verticesRead < vertex.count
+    })
+
+    if (verticesRead < vertex.count) {
+      throw new PointCloudParseError(
+        "TRUNCATED_DATA",
+        `PLY ascii data ends after ${verticesRead} of ${vertex.count} vertices`,
+        { location: { kind: "line", value: lineNumber + 1 }, expected: vertex.count, actual: verticesRead },
+      )
+    }
+  } else {
+    const littleEndian = header.format === "binary_little_endian"
+    const readers = new Map<PLYScalarType, ScalarReader>()
+    const readerFor = (scalar: PLYScalarType) => {
+      let reader = readers.get(scalar)
+      if (!reader) {
+        reader = createScalarReader(scalar.type, scalar.size, littleEndian)
+        readers.set(scalar, reader)
+      }
+      return reader
+    }
+
+    // 计算一个元素实例的字节数；数据不完整（需要等下一块）时返回 -1
+    const elementSize = (element: PLYElement, view: DataView, offset: number) => {
+      let size = 0
+      for (const prop of element.properties) {
+        if (prop.listCount) {
+          if (offset + size + prop.listCount.size > view.byteLength) return -1
+          const length = readerFor(prop.listCount)(view, offset + size)
+          size += prop.listCount.size + length * prop.scalar.size
+        } else {
+          size += prop.scalar.size
+        }
+      }
+      return offset + size <= view.byteLength ? size : -1
+    }
+
+    // 逐属性读取一个元素实例；写入 out 时只记录标量
+    const readElement = (element: PLYElement, view: DataView, offset: number, out: Float64Array) => {
+      for (let p = 0; p < element.properties.length; p++) {
+        const prop = element.properties[p]
+        if (prop.listCount) {
+          const length = readerFor(prop.listCount)(view, offset)
+          offset += prop.listCount.size + length * prop.scalar.size
+        } else {
+          out[p] = readerFor(prop.scalar)(view, offset)
+          offset += prop.scalar.size
+        }
+      }
+    }
+
+    // 当前读取到的元素及其实例序号，跨块保持
+    let elementIndex = 0
+    let instance = 0
+
+    await forEachByteChunk(source, header.headerLen, (bytes, _final, bytesProcessed) => {
+      const view = viewOf(bytes)
+      let offset = 0
+
+      while (elementIndex <= vertexIndex) {
+        const element = header.elements[elementIndex]
+        while (instance < element.count) {
+          const size = elementSize(element, view, offset)
+          if (size === -1) {
+            report(bytesProcessed)
+            return offset
+          }
+          // vertex 之前的元素（可能包含变长列表）只跳过
+          if (elementIndex === vertexIndex) {
+            readElement(element, view, offset, values)
+            storeVertex()
+          }
+          offset += size
+          instance++
+        }
+        elementIndex++
+        instance = 0
+      }
+
+      report(bytesProcessed)
+      return false
+    })
+
+    if (verticesRead < vertex.count) {
+      throw new PointCloudParseError(
+        "TRUNCATED_DATA",
+        `PLY binary data ends after ${verticesRead} of ${vertex.count} vertices`,
+        { location: { kind: "byte", value: source.size }, expected: vertex.count, actual: verticesRead },
+      )
+    }
+  }
+
+  // 与 PCD 一致：浮点颜色按整列范围决定是 0-1 还是 0-255
+  if (colorProps) {
+    rescaleFloatChannels(colorProps.map((p) => p.scalar), builder.colors, builder.count)
+  }
+
+  return builder.finish({
+    metadata: {
+      viewpoint: IDENTITY_VIEWPOINT,
+      width: builder.count,
+      height: 1,
+      colorEncoding: colorProps ? "channels" : null,
+    },
+  })
+}
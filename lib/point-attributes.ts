@@ -0,0 +1,47 @@
+import type { PointCloudData } from "./types"
+
+/**
+ * 读取单个点的全部逐点属性
+ * 单分量属性返回数值，多分量属性（如 FPFH、normal）返回数组
+ */
+export function getPointAttributes(
+  pointCloud: PointCloudData,
+  index: number,
+): { [name: string]: number | number[] } {
+  const result: { [name: string]: number | number[] } = {}
+  if (index < 0 || index >= pointCloud.count) return result
+
+  for (const [name, { array, itemSize }] of Object.entries(pointCloud.attributes)) {
+    const base = index * itemSize
+    result[name] = itemSize === 1 ? array[base] : Array.from(array.subarray(base, base + itemSize))
+  }
+  return result
+}
+
+/** 读取单个点某个属性的第 component 个分量，属性不存在时返回 undefined */
+export function getPointAttribute(
+  pointCloud: PointCloudData,
+  name: string,
+  index: number,
+  component = 0,
+): number | undefined {
+  const attribute = pointCloud.attributes[name]
+  if (!attribute || index < 0 || index >= pointCloud.count) return undefined
+  return attribute.array[index * attribute.itemSize + component]
+}
+
+/** 属性名列表，用于界面展示 */
+export function getAttributeNames(pointCloud: PointCloudData): string[] {
+  return Object.keys(pointCloud.attributes)
+}
+
+/**
+ * 读取单个点的原始坐标（float64）
+ * positions 中存储的是减去 origin 后的相对坐标，展示和导出时需要加回 origin
+ */
+export function getPointPosition(pointCloud: PointCloudData, index: number): [number, number, number] | undefined {
+  if (index < 0 || index >= pointCloud.count) return undefined
+  const [ox, oy, oz] = pointCloud.origin ?? [0, 0, 0]
+  const { positions } = pointCloud
+  return [positions[index * 3] + ox, positions[index * 3 + 1] + oy, positions[index * 3 + 2] + oz]
+}
@@ -0,0 +1,105 @@
+import type { PointAttributeArray, PointCloudData } from "./types"
+import { allocateArray, truncateArray } from "./shared-memory"
+
+export interface AttributeSpec {
+  name: string
+  itemSize: number
+  create: (length: number) => PointAttributeArray
+}
+
+// 坐标绝对值超过该阈值时 float32 的分辨率已不足 1mm，需要平移到局部原点
+export const ORIGIN_THRESHOLD = 1e4
+
+/**
+ * 直接写入预分配 TypedArray 的点云构建器
+ *
+ * 解析器按头部给出的点数预分配，跳过无效点后在 finish 时截断；
+ * 点数未知的格式（如分隔文本）在容量不足时按 2 倍扩容。
+ *
+ * 坐标通过 setPosition 以 float64 传入：遇到大坐标（UTM、ECEF 等）时，
+ * 以第一个有效点取整后作为全局原点，减去原点后再存为 float32，原点记录在 PointCloudData.origin 上。
+ *
+ * 坐标和颜色通过 allocateArray 分配，页面跨源隔离时直接写入 SharedArrayBuffer；
+ * 逐点属性由 spec.create 分配，应同样使用 allocateArray。
+ */
+export class PointCloudBuilder {
+  positions: Float32Array
+  colors: Float32Array
+  attributes: PointAttributeArray[]
+  count = 0
+  // 全局原点，在写入第一个点时确定
+  origin: [number, number, number] | null = null
+  private capacity: number
+
+  constructor(
+    capacity: number,
+    readonly specs: AttributeSpec[] = [],
+  ) {
+    this.capacity = Math.max(0, capacity)
+    this.positions = allocateArray(Float32Array, this.capacity * 3)
+    // 没有颜色信息的点默认白色
+    this.colors = allocateArray(Float32Array, this.capacity * 3).fill(1)
+    this.attributes = specs.map((spec) => spec.create(this.capacity * spec.itemSize))
+  }
+
+  /** 确保还能再写入 extra 个点 */
+  reserve(extra: number) {
+    const required = this.count + extra
+    if (required <= this.capacity) return
+
+    const capacity = Math.max(required, this.capacity * 2, 1024)
+    const positions = allocateArray(Float32Array, capacity * 3)
+    positions.set(this.positions.subarray(0, this.count * 3))
+    const colors = allocateArray(Float32Array, capacity * 3).fill(1)
+    colors.set(this.colors.subarray(0, this.count * 3))
+    this.attributes = this.attributes.map((array, i) => {
+      const grown = this.specs[i].create(capacity * this.specs[i].itemSize)
+      grown.set(array.subarray(0, this.count * this.specs[i].itemSize))
+      return grown
+    })
+
+    this.positions = positions
+    this.colors = colors
+    this.capacity = capacity
+  }
+
+  /** 写入第 index 个点的 float64 坐标，减去全局原点后存为 float32 */
+  setPosition(index: number, x: number, y: number, z: number) {
+    const origin = this.origin ?? (this.origin = chooseOrigin(x, y, z))
+    const o = index * 3
+    this.positions[o] = x - origin[0]
+    this.positions[o + 1] = y - origin[1]
+    this.positions[o + 2] = z - origin[2]
+  }
+
+  /** 截断到实际点数并组装 PointCloudData；只有存在空余容量时才拷贝 */
+  finish(extra: Pick<PointCloudData, "metadata" | "origin" | "grid"> = {}): PointCloudData {
+    const count = this.count
+    const trim = <T extends PointAttributeArray>(array: T, length: number): T =>
+      array.length === length ? array : truncateArray(array, length)
+
+    const attributes: PointCloudData["attributes"] = {}
+    this.specs.forEach((spec, i) => {
+      attributes[spec.name] = { array: trim(this.attributes[i], count * spec.itemSize), itemSize: spec.itemSize }
+    })
+
+    const origin = this.origin && this.origin.some((v) => v !== 0) ? this.origin : undefined
+
+    return {
+      positions: trim(this.positions, count * 3),
+      colors: trim(this.colors, count * 3),
+      count,
+      attributes,
+      origin,
+      ...extra,
+    }
+  }
+}
+
+/** 坐标足够小时不平移；否则取第一个点的整数部分作为原点，原点本身在 float64 中是精确的 */
+function chooseOrigin(x: number, y: number, z: number): [number, number, number] {
+  if (Math.max(Math.abs(x), Math.abs(y), Math.abs(z)) < ORIGIN_THRESHOLD) {
+    return [0, 0, 0]
+  }
+  return [Math.round(x), Math.round(y), Math.round(z)]
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest"
+import { buildPixelLookup, computeGridImage, getPointRowCol, selectGridRect } from "./point-grid"
+import type { PointCloudData, PointGrid } from "./types"
+
+// 2 × 3 的网格，第 1 个像素是空洞
+const grid: PointGrid = { width: 3, height: 2, pixelIndex: new Uint32Array([0, 2, 3, 4, 5]) }
+
+function gridCloud(overrides: Partial<PointCloudData> = {}): PointCloudData {
+  return {
+    positions: new Float32Array([3, 4, 0, 0, 0, 5, 1, 0, 0, 0, 2, 0, 0, 0, 0]),
+    colors: new Float32Array(15).fill(1),
+    count: 5,
+    attributes: { intensity: { array: new Float32Array([10, 20, 30, 40, 50]), itemSize: 1 } },
+    grid,
+    ...overrides,
+  }
+}
+
+describe("point grid mapping", () => {
+  it("maps points to rows and columns and back", () => {
+    expect(getPointRowCol(grid, 1)).toEqual({ row: 0, col: 2 })
+    expect(getPointRowCol(grid, 2)).toEqual({ row: 1, col: 0 })
+    expect(Array.from(buildPixelLookup(grid))).toEqual([0, -1, 1, 2, 3, 4])
+  })
+
+  it("selects the points inside a pixel rectangle in either drag direction", () => {
+    const lookup = buildPixelLookup(grid)
+    expect(Array.from(selectGridRect(grid, lookup, { col0: 0, row0: 0, col1: 1, row1: 1 }))).toEqual([0, 2, 3])
+    expect(Array.from(selectGridRect(grid, lookup, { col0: 5, row0: 1, col1: 2, row1: -1 }))).toEqual([1, 4])
+  })
+})
+
+describe("computeGridImage", () => {
+  it("leaves holes as NaN and reports the value range", () => {
+    const image = computeGridImage(gridCloud(), "intensity")
+    expect(Array.from(image.values)).toEqual([10, Number.NaN, 20, 30, 40, 50])
+    expect(image).toMatchObject({ min: 10, max: 50 })
+  })
+
+  it("measures range from the sensor at the origin", () => {
+    const image = computeGridImage(gridCloud(), "range")
+    expect(Array.from(image.values)).toEqual([5, Number.NaN, 5, 1, 2, 0])
+  })
+
+  it("adds the cloud origin back before measuring range", () => {
+    const image = computeGridImage(gridCloud({ origin: [1, 0, 0] }), "range")
+    expect(image.values[0]).toBeCloseTo(Math.hypot(4, 4, 0))
+    expect(image.values[5]).toBe(1)
+  })
+
+  it("measures range from the viewpoint once points are in the world frame", () => {
+    const metadata = { viewpoint: [0, 0, 5, 1, 0, 0, 0], width: 3, height: 2, colorEncoding: null }
+    const applied = computeGridImage(gridCloud({ metadata: { ...metadata, viewpointApplied: true } }), "range")
+    const expected = [Math.hypot(3, 4, 5), Number.NaN, 0, Math.hypot(1, 5), Math.hypot(2, 5), 5]
+    expect(Array.from(applied.values)).toEqual(expected.map(Math.fround))
+
+    // 未应用视点时点仍在传感器坐标系中，传感器就在原点
+    const sensorFrame = computeGridImage(gridCloud({ metadata }), "range")
+    expect(Array.from(sensorFrame.values)).toEqual([5, Number.NaN, 5, 1, 2, 0])
+  })
+})
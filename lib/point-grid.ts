@@ -0,0 +1,90 @@
+import type { PointCloudData, PointGrid } from "./types"
+import { parseViewpoint } from "./viewpoint"
+
+/**
+ * 有序点云的网格工具：点序号 ↔ 像素（行列）的相互映射
+ */
+
+/** 第 index 个点所在的行列 */
+export function getPointRowCol(grid: PointGrid, index: number): { row: number; col: number } {
+  const pixel = grid.pixelIndex[index]
+  return { row: Math.floor(pixel / grid.width), col: pixel % grid.width }
+}
+
+/**
+ * 像素 → 点序号查找表，空洞为 -1
+ */
+export function buildPixelLookup(grid: PointGrid): Int32Array {
+  const lookup = new Int32Array(grid.width * grid.height).fill(-1)
+  const { pixelIndex } = grid
+  for (let i = 0; i < pixelIndex.length; i++) {
+    lookup[pixelIndex[i]] = i
+  }
+  return lookup
+}
+
+export type GridImageChannel = "range" | "intensity"
+
+/**
+ * 生成 2D 图像的逐像素数值，空洞为 NaN
+ * - range：点到传感器的距离；已应用 VIEWPOINT 时传感器位于视点的平移处
+ * - intensity：intensity 属性的第一个分量
+ */
+export function computeGridImage(
+  pointCloud: Pick<PointCloudData, "positions" | "attributes" | "origin" | "grid" | "metadata">,
+  channel: GridImageChannel,
+): { values: Float32Array; min: number; max: number } {
+  const grid = pointCloud.grid!
+  const values = new Float32Array(grid.width * grid.height).fill(Number.NaN)
+  const { positions } = pointCloud
+  const intensity = pointCloud.attributes["intensity"]
+  const origin = pointCloud.origin ?? [0, 0, 0]
+  const { metadata } = pointCloud
+  const [sensorX, sensorY, sensorZ] = metadata?.viewpointApplied
+    ? parseViewpoint(metadata.viewpoint).translation
+    : [0, 0, 0]
+  let min = Number.POSITIVE_INFINITY
+  let max = Number.NEGATIVE_INFINITY
+
+  for (let i = 0; i < grid.pixelIndex.length; i++) {
+    let value: number
+    if (channel === "intensity" && intensity) {
+      value = intensity.array[i * intensity.itemSize]
+    } else {
+      // origin 与传感器位置先在 float64 中相减，避免大坐标下的精度损失
+      const x = positions[i * 3] + (origin[0] - sensorX)
+      const y = positions[i * 3 + 1] + (origin[1] - sensorY)
+      const z = positions[i * 3 + 2] + (origin[2] - sensorZ)
+      value = Math.sqrt(x * x + y * y + z * z)
+    }
+    values[grid.pixelIndex[i]] = value
+    if (value < min) min = value
+    if (value > max) max = value
+  }
+
+  return { values, min, max }
+}
+
+/**
+ * 选出矩形像素区域内的所有点（包含边界），结果按点序递增
+ */
+export function selectGridRect(
+  grid: PointGrid,
+  lookup: Int32Array,
+  rect: { col0: number; row0: number; col1: number; row1: number },
+): Uint32Array {
+  const col0 = Math.max(0, Math.min(rect.col0, rect.col1))
+  const col1 = Math.min(grid.width - 1, Math.max(rect.col0, rect.col1))
+  const row0 = Math.max(0, Math.min(rect.row0, rect.row1))
+  const row1 = Math.min(grid.height - 1, Math.max(rect.row0, rect.row1))
+
+  const result: number[] = []
+  // 点按像素行优先顺序存储，逐行扫描得到的序号天然有序
+  for (let row = row0; row <= row1; row++) {
+    for (let col = col0; col <= col1; col++) {
+      const index = lookup[row * grid.width + col]
+      if (index >= 0) result.push(index)
+    }
+  }
+  return new Uint32Array(result)
+}
@@ -0,0 +1,193 @@
+import { describe, expect, it } from "vitest"
+import { buildPointIndex, forEachNeighbor, type PointIndex } from "./point-index"
+import { isInsideBox } from "./oriented-box"
+import { createPicker, pickInIndex, type PickQuery } from "./point-pick"
+import { selectInBox, selectInScreenShape, type ScreenSelectQuery } from "./point-select"
+import type { ScreenSelectionShape } from "./types"
+
+// 相机位于原点、朝 +z 的透视投影（列主序）：w = z，屏幕坐标为 ((x / z + 1) × 100, (1 - y / z) × 100)，
+// ndcZ = 2 - 32 / z，远裁剪面在 z = 32。点云从相机后方延伸到远裁剪面之外，部分节点跨越相机平面
+const PROJECTION = [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 2, 1, 0, 0, -32, 0]
+const viewport = { width: 200, height: 200 }
+
+// 中心 (1, 0, 12)、边长 10 的轴对齐盒子的逆矩阵
+const CROP = [0.1, 0, 0, 0, 0, 0.1, 0, 0, 0, 0, 0.1, 0, -0.1, 0, -1.2, 1]
+
+// 确定性的伪随机坐标：x、y 在 [-10, 10) 内，z 在 [-10, 40) 内
+function randomPositions(count: number): Float32Array {
+  let seed = 12345
+  const random = () => {
+    seed = (Math.imul(seed, 1103515245) + 12345) >>> 0
+    return seed / 2 ** 32
+  }
+  const positions = new Float32Array(count * 3)
+  for (let i = 0; i < count; i++) {
+    positions[i * 3] = random() * 20 - 10
+    positions[i * 3 + 1] = random() * 20 - 10
+    positions[i * 3 + 2] = random() * 50 - 10
+  }
+  return positions
+}
+
+const positions = randomPositions(20000)
+// 只覆盖一部分点的分片索引，序号范围不从 0 开始
+const index = buildPointIndex(positions, 2000, 20000)
+
+// 统计整段接受的节点数：整段接受时直接拷贝 order 的一段，不再逐点判断
+function countWholeNodes(target: PointIndex, run: () => void): number {
+  const { order } = target
+  let count = 0
+  const subarray = order.subarray.bind(order)
+  order.subarray = (begin, end) => {
+    count++
+    return subarray(begin, end)
+  }
+  try {
+    run()
+  } finally {
+    delete (order as Partial<Uint32Array>).subarray
+  }
+  return count
+}
+
+// 逐点扫描的参照实现
+function bruteForceSelect({ shape, viewProjectionMatrix: e, crop }: ScreenSelectQuery): number[] {
+  const result: number[] = []
+  for (let i = index.start; i < index.end; i++) {
+    const x = positions[i * 3]
+    const y = positions[i * 3 + 1]
+    const z = positions[i * 3 + 2]
+    if (crop && !isInsideBox(crop, x, y, z)) continue
+    const w = e[3] * x + e[7] * y + e[11] * z + e[15]
+    if (w <= 0) continue
+    const invW = 1 / w
+    if ((e[2] * x + e[6] * y + e[10] * z + e[14]) * invW >= 1) continue
+    const sx = ((e[0] * x + e[4] * y + e[8] * z + e[12]) * invW + 1) * 0.5 * viewport.width
+    const sy = (-(e[1] * x + e[5] * y + e[9] * z + e[13]) * invW + 1) * 0.5 * viewport.height
+    if (isInsideShape(shape, sx, sy)) result.push(i)
+  }
+  return result
+}
+
+function isInsideShape(shape: ScreenSelectionShape, x: number, y: number): boolean {
+  if (shape.kind === "rectangle") {
+    return (
+      x >= Math.min(shape.x0, shape.x1) &&
+      x <= Math.max(shape.x0, shape.x1) &&
+      y >= Math.min(shape.y0, shape.y1) &&
+      y <= Math.max(shape.y0, shape.y1)
+    )
+  }
+  if (shape.kind === "circle") {
+    const dx = x - shape.cx
+    const dy = y - shape.cy
+    return dx * dx + dy * dy <= shape.radius * shape.radius
+  }
+  // 测试只用凸多边形：点在每条边的同一侧
+  const { path } = shape
+  const sides = path.map((a, k) => {
+    const b = path[(k + 1) % path.length]
+    return Math.sign((b.x - a.x) * (y - a.y) - (b.y - a.y) * (x - a.x))
+  })
+  return sides.every((side) => side >= 0) || sides.every((side) => side <= 0)
+}
+
+describe("point index equivalence with a brute-force scan", () => {
+  const shapes: ScreenSelectionShape[] = [
+    { kind: "rectangle", x0: 40, y0: 30, x1: 170, y1: 150 },
+    { kind: "circle", cx: 90, cy: 110, radius: 60 },
+    {
+      kind: "polygon",
+      path: [
+        { x: 20, y: 20 },
+        { x: 30, y: 180 },
+        { x: 180, y: 160 },
+        { x: 160, y: 40 },
+      ],
+    },
+  ]
+
+  it.each(shapes)("selects the same points inside a $kind", (shape) => {
+    const query: ScreenSelectQuery = { shape, viewProjectionMatrix: PROJECTION, viewport }
+    let indices = new Uint32Array()
+    const wholeNodes = countWholeNodes(index, () => {
+      indices = selectInScreenShape(positions, index, query)
+    })
+
+    expect(Array.from(indices)).toEqual(bruteForceSelect(query))
+    expect(wholeNodes).toBeGreaterThan(0)
+  })
+
+  it("selects the same points when nodes straddle the camera plane", () => {
+    // 选择区域覆盖整个视口：跨越相机平面的节点只能逐点判断，不能整段接受
+    const shape: ScreenSelectionShape = { kind: "rectangle", x0: 0, y0: 0, x1: 200, y1: 200 }
+    const query: ScreenSelectQuery = { shape, viewProjectionMatrix: PROJECTION, viewport }
+    const expected = bruteForceSelect(query)
+
+    expect(expected.length).toBeGreaterThan(0)
+    expect(Array.from(selectInScreenShape(positions, index, query))).toEqual(expected)
+  })
+
+  it("selects the same points inside the crop box", () => {
+    const query: ScreenSelectQuery = { shape: shapes[0], viewProjectionMatrix: PROJECTION, viewport, crop: CROP }
+    const expected = bruteForceSelect(query)
+
+    expect(expected.length).toBeGreaterThan(0)
+    expect(Array.from(selectInScreenShape(positions, index, query))).toEqual(expected)
+  })
+
+  it("selects the same points inside a 3D box with and without the crop box", () => {
+    // 中心 (-2, 1, 15)、尺寸 16 × 16 × 20 的盒子
+    const box = [1 / 16, 0, 0, 0, 0, 1 / 16, 0, 0, 0, 0, 1 / 20, 0, 0.125, -1 / 16, -0.75, 1]
+    const inside = (i: number, crop?: number[]) =>
+      isInsideBox(box, positions[i * 3], positions[i * 3 + 1], positions[i * 3 + 2]) &&
+      (!crop || isInsideBox(crop, positions[i * 3], positions[i * 3 + 1], positions[i * 3 + 2]))
+    const all = Array.from({ length: index.end - index.start }, (_, k) => index.start + k)
+
+    let indices = new Uint32Array()
+    const wholeNodes = countWholeNodes(index, () => {
+      indices = selectInBox(positions, index, box)
+    })
+    expect(Array.from(indices)).toEqual(all.filter((i) => inside(i)))
+    expect(wholeNodes).toBeGreaterThan(0)
+
+    expect(Array.from(selectInBox(positions, index, box, CROP))).toEqual(all.filter((i) => inside(i, CROP)))
+  })
+
+  it("picks the same point as considering every point", () => {
+    const cursors = [
+      [100, 100],
+      [37, 152],
+      [181, 64],
+    ]
+    for (const [x, y] of cursors) {
+      for (const extra of [{}, { maxDepth: 20 }, { crop: CROP }]) {
+        const query: PickQuery = { viewProjectionMatrix: PROJECTION, viewport, x, y, radius: 6, ...extra }
+        const picker = createPicker(positions, query)
+        for (let i = index.start; i < index.end; i++) picker.consider(i)
+
+        expect(pickInIndex(positions, index, query)).toEqual(picker.result())
+      }
+    }
+  })
+
+  it("finds the same neighbors as a distance scan", () => {
+    for (const [x, y, z, radius] of [
+      [0, 0, 0, 1.5],
+      [9.5, -9.5, 39.5, 2],
+      [3, 4, -5, 6],
+    ]) {
+      const found: number[] = []
+      forEachNeighbor(index, positions, x, y, z, radius, (i) => found.push(i))
+
+      const expected: number[] = []
+      for (let i = index.start; i < index.end; i++) {
+        const dx = positions[i * 3] - x
+        const dy = positions[i * 3 + 1] - y
+        const dz = positions[i * 3 + 2] - z
+        if (dx * dx + dy * dy + dz * dz <= radius * radius) expected.push(i)
+      }
+      expect(found.sort((a, b) => a - b)).toEqual(expected)
+    }
+  })
+})
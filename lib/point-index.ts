@@ -0,0 +1,269 @@
+/**
+ * 点云空间索引（带包围盒的 k-d 树）
+ *
+ * 每个节点覆盖 order 中连续的一段点，子节点再把这一段一分为二，因此整棵子树的点也是连续的：
+ * 节点完全在选择区域内时可以整段接受，完全在外时整段跳过，只有跨越边界的叶子才逐点判断。
+ * 按最长轴的空间中点划分，叶子最多 INDEX_LEAF_SIZE 个点；节点包围盒由实际的点计算，比划分区间更紧。
+ */
+export interface PointIndex {
+  // 索引覆盖的点序号范围 [start, end)
+  start: number
+  end: number
+  // 按节点分组排列的点序号
+  order: Uint32Array
+  // 第 n 个节点的点位于 order[nodeStart[n] .. nodeEnd[n])
+  nodeStart: Uint32Array
+  nodeEnd: Uint32Array
+  // 子节点序号，叶子为 -1
+  nodeLeft: Int32Array
+  nodeRight: Int32Array
+  // 每个节点 6 个值：minX minY minZ maxX maxY maxZ
+  nodeBounds: Float32Array
+  nodeCount: number
+}
+
+export const INDEX_LEAF_SIZE = 256
+
+/** 节点与查询区域的关系：完全在外、完全在内、跨越边界 */
+export const NODE_OUTSIDE = 0
+export const NODE_INSIDE = 1
+export const NODE_PARTIAL = 2
+export type NodeRelation = typeof NODE_OUTSIDE | typeof NODE_INSIDE | typeof NODE_PARTIAL
+
+export function buildPointIndex(positions: Float32Array, start: number, end: number): PointIndex {
+  const count = Math.max(0, end - start)
+  const order = new Uint32Array(count)
+  for (let k = 0; k < count; k++) order[k] = start + k
+
+  const nodeStart: number[] = []
+  const nodeEnd: number[] = []
+  const nodeLeft: number[] = []
+  const nodeRight: number[] = []
+  const nodeBounds: number[] = []
+
+  const build = (lo: number, hi: number): number => {
+    const node = nodeStart.length
+    nodeStart.push(lo)
+    nodeEnd.push(hi)
+    nodeLeft.push(-1)
+    nodeRight.push(-1)
+
+    let minX = Number.POSITIVE_INFINITY
+    let minY = Number.POSITIVE_INFINITY
+    let minZ = Number.POSITIVE_INFINITY
+    let maxX = Number.NEGATIVE_INFINITY
+    let maxY = Number.NEGATIVE_INFINITY
+    let maxZ = Number.NEGATIVE_INFINITY
+    for (let k = lo; k < hi; k++) {
+      const p = order[k] * 3
+      const x = positions[p]
+      const y = positions[p + 1]
+      const z = positions[p + 2]
+      if (x < minX) minX = x
+      if (x > maxX) maxX = x
+      if (y < minY) minY = y
+      if (y > maxY) maxY = y
+      if (z < minZ) minZ = z
+      if (z > maxZ) maxZ = z
+    }
+    nodeBounds.push(minX, minY, minZ, maxX, maxY, maxZ)
+
+    if (hi - lo <= INDEX_LEAF_SIZE) return node
+
+    const extentX = maxX - minX
+    const extentY = maxY - minY
+    const extentZ = maxZ - minZ
+    const axis = extentX >= extentY && extentX >= extentZ ? 0 : extentY >= extentZ ? 1 : 2
+    const extent = axis === 0 ? extentX : axis === 1 ? extentY : extentZ
+    // 所有点重合，无法再划分
+    if (!(extent > 0)) return node
+
+    const mid = (axis === 0 ? minX : axis === 1 ? minY : minZ) + extent / 2
+    let i = lo
+    let j = hi - 1
+    while (i <= j) {
+      if (positions[order[i] * 3 + axis] < mid) {
+        i++
+      } else {
+        const t = order[i]
+        order[i] = order[j]
+        order[j] = t
+        j--
+      }
+    }
+    // 中点划分可能得到空的一侧（点集中在一端），此时按数量对半分，包围盒仍然正确
+    const split = i === lo || i === hi ? (lo + hi) >>> 1 : i
+
+    nodeLeft[node] = build(lo, split)
+    nodeRight[node] = build(split, hi)
+    return node
+  }
+
+  if (count > 0) build(0, count)
+
+  return {
+    start,
+    end,
+    order,
+    nodeStart: Uint32Array.from(nodeStart),
+    nodeEnd: Uint32Array.from(nodeEnd),
+    nodeLeft: Int32Array.from(nodeLeft),
+    nodeRight: Int32Array.from(nodeRight),
+    nodeBounds: Float32Array.from(nodeBounds),
+    nodeCount: nodeStart.length,
+  }
+}
+
+/**
+ * 遍历索引：classify 判断节点包围盒（nodeBounds 中从 offset 开始的 6 个值）与查询区域的关系
+ * - NODE_OUTSIDE：跳过整棵子树
+ * - NODE_INSIDE：整棵子树以 visit(from, to, true) 一次交给调用方
+ * - NODE_PARTIAL：继续向下，叶子以 visit(from, to, false) 交给调用方逐点判断
+ * from / to 是 order 中的区间
+ */
+export function queryIndex(
+  index: PointIndex,
+  classify: (bounds: Float32Array, offset: number) => NodeRelation,
+  visit: (from: number, to: number, inside: boolean) => void,
+) {
+  if (index.nodeCount === 0) return
+
+  const { nodeStart, nodeEnd, nodeLeft, nodeRight, nodeBounds } = index
+  const stack = [0]
+  while (stack.length > 0) {
+    const node = stack.pop()!
+    const relation = classify(nodeBounds, node * 6)
+    if (relation === NODE_OUTSIDE) continue
+
+    if (relation === NODE_INSIDE) {
+      visit(nodeStart[node], nodeEnd[node], true)
+    } else if (nodeLeft[node] < 0) {
+      visit(nodeStart[node], nodeEnd[node], false)
+    } else {
+      stack.push(nodeRight[node], nodeLeft[node])
+    }
+  }
+}
+
+/** 遍历与 (x, y, z) 距离不超过 radius 的点 */
+export function forEachNeighbor(
+  index: PointIndex,
+  positions: Float32Array,
+  x: number,
+  y: number,
+  z: number,
+  radius: number,
+  visit: (pointIndex: number) => void,
+) {
+  const radiusSq = radius * radius
+  const { order } = index
+
+  queryIndex(
+    index,
+    (b, o) => {
+      // 包围盒到球心的最近距离超过半径则在外；最远角点也在球内则整体在内
+      const nx = x < b[o] ? b[o] - x : x > b[o + 3] ? x - b[o + 3] : 0
+      const ny = y < b[o + 1] ? b[o + 1] - y : y > b[o + 4] ? y - b[o + 4] : 0
+      const nz = z < b[o + 2] ? b[o + 2] - z : z > b[o + 5] ? z - b[o + 5] : 0
+      if (nx * nx + ny * ny + nz * nz > radiusSq) return NODE_OUTSIDE
+
+      const fx = Math.max(x - b[o], b[o + 3] - x)
+      const fy = Math.max(y - b[o + 1], b[o + 4] - y)
+      const fz = Math.max(z - b[o + 2], b[o + 5] - z)
+      return fx * fx + fy * fy + fz * fz <= radiusSq ? NODE_INSIDE : NODE_PARTIAL
+    },
+    (from, to, inside) => {
+      for (let k = from; k < to; k++) {
+        const j = order[k]
+        if (!inside) {
+          const dx = positions[j * 3] - x
+          const dy = positions[j * 3 + 1] - y
+          const dz = positions[j * 3 + 2] - z
+          if (dx * dx + dy * dy + dz * dz > radiusSq) continue
+        }
+        visit(j)
+      }
+    },
+  )
+}
+
+/**
+ * 节点包围盒 8 个角点投影到屏幕后的范围
+ * behind：有角点位于相机后方（w <= 0），此时投影范围不可靠
+ * allBehind / allBeyondFar：整个节点都在相机后方或远裁剪面之外
+ */
+export interface ProjectedBounds {
+  minX: number
+  minY: number
+  maxX: number
+  maxY: number
+  minW: number
+  maxW: number
+  behind: boolean
+  allBehind: boolean
+  beyondFar: boolean
+  allBeyondFar: boolean
+}
+
+export function projectNodeBounds(
+  b: Float32Array,
+  o: number,
+  e: ArrayLike<number>,
+  width: number,
+  height: number,
+  out: ProjectedBounds,
+): ProjectedBounds {
+  out.minX = Number.POSITIVE_INFINITY
+  out.minY = Number.POSITIVE_INFINITY
+  out.maxX = Number.NEGATIVE_INFINITY
+  out.maxY = Number.NEGATIVE_INFINITY
+  out.minW = Number.POSITIVE_INFINITY
+  out.maxW = Number.NEGATIVE_INFINITY
+  let behindCount = 0
+  let beyondFarCount = 0
+
+  for (let c = 0; c < 8; c++) {
+    const x = b[o + (c & 1 ? 3 : 0)]
+    const y = b[o + (c & 2 ? 4 : 1)]
+    const z = b[o + (c & 4 ? 5 : 2)]
+
+    const clipW = e[3] * x + e[7] * y + e[11] * z + e[15]
+    if (clipW < out.minW) out.minW = clipW
+    if (clipW > out.maxW) out.maxW = clipW
+    if (clipW <= 0) {
+      behindCount++
+      continue
+    }
+
+    const invW = 1 / clipW
+    if ((e[2] * x + e[6] * y + e[10] * z + e[14]) * invW >= 1) beyondFarCount++
+
+    const screenX = ((e[0] * x + e[4] * y + e[8] * z + e[12]) * invW + 1) * 0.5 * width
+    const screenY = (-(e[1] * x + e[5] * y + e[9] * z + e[13]) * invW + 1) * 0.5 * height
+    if (screenX < out.minX) out.minX = screenX
+    if (screenX > out.maxX) out.maxX = screenX
+    if (screenY < out.minY) out.minY = screenY
+    if (screenY > out.maxY) out.maxY = screenY
+  }
+
+  out.behind = behindCount > 0
+  out.allBehind = behindCount === 8
+  out.beyondFar = beyondFarCount > 0
+  out.allBeyondFar = beyondFarCount === 8
+  return out
+}
+
+export function createProjectedBounds(): ProjectedBounds {
+  return {
+    minX: 0,
+    minY: 0,
+    maxX: 0,
+    maxY: 0,
+    minW: 0,
+    maxW: 0,
+    behind: false,
+    allBehind: false,
+    beyondFar: false,
+    allBeyondFar: false,
+  }
+}
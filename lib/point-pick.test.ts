@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest"
+import { createPicker, pickTwoPass, type PickHit, type PickQuery } from "./point-pick"
+
+// 透视投影的最简形式：裁剪空间 w 等于 z，屏幕坐标为 ((x / z + 1) × 100, (1 - y / z) × 100)
+const PROJECTION = [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 0, 1, 0, 0, 0, 0]
+
+// 光标在屏幕中心 (100, 100)
+const positions = new Float32Array([
+  // 0：前景表面，深度 10，离光标 4 像素
+  0.4, 0, 10,
+  // 1：同一表面略靠后，深度 10.2，离光标 1 像素
+  0.102, 0, 10.2,
+  // 2：背景，正对光标
+  0, 0, 50,
+  // 3：相机后方
+  0, 0, -5,
+])
+
+const query: PickQuery = {
+  viewProjectionMatrix: PROJECTION,
+  viewport: { width: 200, height: 200 },
+  x: 100,
+  y: 100,
+  radius: 5,
+}
+
+// 两个分片分别包含点 0-1 和点 2-3
+function runPass(extra: Partial<PickQuery> = {}) {
+  return async (maxDepth?: number): Promise<PickHit[]> =>
+    [
+      [0, 1],
+      [2, 3],
+    ].map((shard) => {
+      const picker = createPicker(positions, { ...query, ...extra, maxDepth })
+      shard.forEach(picker.consider)
+      return picker.result()
+    })
+}
+
+describe("createPicker", () => {
+  it("picks the front-most point within the radius in the first pass", () => {
+    const picker = createPicker(positions, query)
+    for (let i = 0; i < 4; i++) picker.consider(i)
+    expect(picker.result()).toMatchObject({ index: 0, depth: 10 })
+    expect(picker.result().distance).toBeCloseTo(4)
+  })
+
+  it("picks the point nearest the cursor within maxDepth in the second pass", () => {
+    const picker = createPicker(positions, { ...query, maxDepth: 20 })
+    for (let i = 0; i < 4; i++) picker.consider(i)
+    expect(picker.result().index).toBe(1)
+  })
+
+  it("ignores points behind the camera and outside the radius", () => {
+    const picker = createPicker(positions, { ...query, x: 150 })
+    for (let i = 0; i < 4; i++) picker.consider(i)
+    expect(picker.result().index).toBe(-1)
+  })
+})
+
+describe("pickTwoPass", () => {
+  it("prefers the nearer point on the front surface over the point under the cursor behind it", async () => {
+    expect(await pickTwoPass(runPass(), 0.05)).toBe(1)
+  })
+
+  it("keeps the front-most point when the tolerance excludes the rest of the surface", async () => {
+    expect(await pickTwoPass(runPass(), 0.01)).toBe(0)
+  })
+
+  it("skips points outside the crop box", async () => {
+    // 中心 (0, 0, 50)、边长 2 的裁剪盒只包含背景点
+    const crop = [0.5, 0, 0, 0, 0, 0.5, 0, 0, 0, 0, 0.5, 0, 0, 0, -25, 1]
+    expect(await pickTwoPass(runPass({ crop }), 0.05)).toBe(2)
+  })
+
+  it("returns -1 without hits", async () => {
+    expect(await pickTwoPass(runPass({ radius: 0.5, x: 120 }), 0.05)).toBe(-1)
+  })
+})
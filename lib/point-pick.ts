@@ -0,0 +1,139 @@
+import { classifyBoundsInBox, isInsideBox } from "./oriented-box"
+import {
+  NODE_OUTSIDE,
+  NODE_PARTIAL,
+  createProjectedBounds,
+  projectNodeBounds,
+  queryIndex,
+  type PointIndex,
+} from "./point-index"
+
+/** 一个分片的拾取结果：index 为 -1 表示没有命中；depth 为裁剪空间 w，distance 为到光标的屏幕距离（像素） */
+export interface PickHit {
+  index: number
+  depth: number
+  distance: number
+}
+
+export interface PickQuery {
+  viewProjectionMatrix: ArrayLike<number>
+  viewport: { width: number; height: number }
+  // 光标位置（像素）
+  x: number
+  y: number
+  // 屏幕容差（像素）
+  radius: number
+  // 第二轮的深度上限；不传时为第一轮
+  maxDepth?: number
+  // 裁剪盒的逆矩阵，盒外的点不可见，不能被拾取
+  crop?: number[]
+}
+
+/**
+ * 创建单个分片的拾取器：逐个传入候选点，最后取出最佳命中
+ * - 第一轮（没有 maxDepth）：取半径内最靠前的点，深度相同时取离光标近的
+ * - 第二轮（有 maxDepth）：在该深度以内取离光标最近的点，距离相同时取靠前的
+ */
+export function createPicker(positions: Float32Array, query: PickQuery) {
+  const { viewProjectionMatrix: e, viewport, x: cursorX, y: cursorY, radius, maxDepth, crop } = query
+  const { width, height } = viewport
+  const radiusSq = radius * radius
+  const byDistance = maxDepth !== undefined
+
+  let bestIndex = -1
+  let bestDepth = Number.POSITIVE_INFINITY
+  let bestDistanceSq = Number.POSITIVE_INFINITY
+
+  const consider = (i: number) => {
+    const idx = i * 3
+    const x = positions[idx]
+    const y = positions[idx + 1]
+    const z = positions[idx + 2]
+    if (crop && !isInsideBox(crop, x, y, z)) return
+
+    const clipW = e[3] * x + e[7] * y + e[11] * z + e[15]
+    if (clipW <= 0 || (byDistance && clipW > maxDepth)) return
+
+    const invW = 1 / clipW
+    const screenX = ((e[0] * x + e[4] * y + e[8] * z + e[12]) * invW + 1) * 0.5 * width
+    const dx = screenX - cursorX
+    if (dx > radius || dx < -radius) return
+    const screenY = (-(e[1] * x + e[5] * y + e[9] * z + e[13]) * invW + 1) * 0.5 * height
+    const dy = screenY - cursorY
+    const distanceSq = dx * dx + dy * dy
+    if (distanceSq > radiusSq) return
+
+    const ndcZ = (e[2] * x + e[6] * y + e[10] * z + e[14]) * invW
+    if (ndcZ >= 1) return
+
+    // 主序按深度或屏幕距离，另一个作为并列时的次序
+    const better = byDistance
+      ? distanceSq < bestDistanceSq || (distanceSq === bestDistanceSq && clipW < bestDepth)
+      : clipW < bestDepth || (clipW === bestDepth && distanceSq < bestDistanceSq)
+    if (better) {
+      bestIndex = i
+      bestDepth = clipW
+      bestDistanceSq = distanceSq
+    }
+  }
+
+  const result = (): PickHit => ({ index: bestIndex, depth: bestDepth, distance: Math.sqrt(bestDistanceSq) })
+
+  return { consider, result }
+}
+
+/**
+ * 在空间索引覆盖的点中拾取，只访问投影范围覆盖光标附近的节点，结果与逐点传入 createPicker 相同
+ */
+export function pickInIndex(positions: Float32Array, index: PointIndex, query: PickQuery): PickHit {
+  const { viewProjectionMatrix: e, viewport, x: cursorX, y: cursorY, radius, maxDepth, crop } = query
+  const picker = createPicker(positions, query)
+  const projected = createProjectedBounds()
+  const { order } = index
+
+  queryIndex(
+    index,
+    (bounds, offset) => {
+      if (crop && classifyBoundsInBox(crop, bounds, offset) === NODE_OUTSIDE) return NODE_OUTSIDE
+      const p = projectNodeBounds(bounds, offset, e, viewport.width, viewport.height, projected)
+      if (p.allBehind || p.allBeyondFar || (maxDepth !== undefined && p.minW > maxDepth)) return NODE_OUTSIDE
+      if (p.behind) return NODE_PARTIAL
+      if (p.maxX < cursorX - radius || p.minX > cursorX + radius) return NODE_OUTSIDE
+      if (p.maxY < cursorY - radius || p.minY > cursorY + radius) return NODE_OUTSIDE
+      return NODE_PARTIAL
+    },
+    (from, to) => {
+      for (let k = from; k < to; k++) picker.consider(order[k])
+    },
+  )
+
+  return picker.result()
+}
+
+/**
+ * 两轮拾取：先找出半径内最靠前的深度，再在该深度 × (1 + depthTolerance) 以内取离光标最近的点，
+ * 这样既不会拾取到前景表面背后的点，也不会因为前景点稍远于光标而跳到更远的表面
+ *
+ * @param runPass - 在所有分片上执行一轮拾取，返回各分片的命中（可以包含 index 为 -1 的结果）
+ * @returns 拾取到的点，没有命中时为 -1
+ */
+export async function pickTwoPass(
+  runPass: (maxDepth?: number) => Promise<PickHit[]>,
+  depthTolerance: number,
+): Promise<number> {
+  const front = (await runPass()).filter((hit) => hit.index >= 0)
+  if (front.length === 0) return -1
+
+  const frontDepth = Math.min(...front.map((hit) => hit.depth))
+  const candidates = await runPass(frontDepth * (1 + depthTolerance))
+
+  let best = -1
+  let bestDistance = Number.POSITIVE_INFINITY
+  for (const hit of candidates) {
+    if (hit.index >= 0 && hit.distance < bestDistance) {
+      best = hit.index
+      bestDistance = hit.distance
+    }
+  }
+  return best
+}
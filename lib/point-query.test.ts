@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest"
+import { createQueryPredicate, type PointQuery } from "./point-query"
+import type { PointCloudData } from "./types"
+
+const cloud: Pick<PointCloudData, "positions" | "colors" | "attributes" | "origin"> = {
+  positions: new Float32Array([0, 0, -1, 1, 2, 0.5, 3, 4, 2, -1, 0, 1]),
+  colors: new Float32Array([1, 0, 0, 0.9, 0.1, 0, 0, 0, 1, 1, 1, 1]),
+  attributes: {
+    intensity: { array: new Float32Array([10, 55, 80, 100]), itemSize: 1 },
+    label: { array: new Uint16Array([2, 6, 6, 9]), itemSize: 1 },
+    normal: { array: new Float32Array([0, 0, 1, 0, 1, 0, 1, 0, 0, 0, 0, -1]), itemSize: 3 },
+  },
+}
+
+function matches(query: PointQuery, source = cloud): number[] {
+  const predicate = createQueryPredicate(query, source)
+  return [0, 1, 2, 3].filter((i) => predicate(i))
+}
+
+describe("createQueryPredicate", () => {
+  it("selects a coordinate range including both ends", () => {
+    expect(matches({ kind: "range", axis: "z", min: 0.5, max: 2 })).toEqual([1, 2, 3])
+    expect(matches({ kind: "range", axis: "x", min: -5, max: 0 })).toEqual([0, 3])
+  })
+
+  it("compares ranges and distances in original coordinates when the cloud has an origin", () => {
+    const shifted = { ...cloud, origin: [1000, 2000, 100] as [number, number, number] }
+    expect(matches({ kind: "range", axis: "z", min: 100.5, max: 102 }, shifted)).toEqual([1, 2, 3])
+    expect(matches({ kind: "distance", center: [1000, 2000, 100], radius: 1.5 }, shifted)).toEqual([0, 3])
+  })
+
+  it("selects points within a distance of the center", () => {
+    expect(matches({ kind: "distance", center: [0, 0, 0], radius: Math.sqrt(2) })).toEqual([0, 3])
+  })
+
+  it("selects colors within the tolerance", () => {
+    expect(matches({ kind: "color", color: [1, 0, 0], tolerance: 0.2 })).toEqual([0, 1])
+  })
+
+  it("selects attribute values by threshold and by equality", () => {
+    expect(matches({ kind: "attribute", name: "intensity", min: 55 })).toEqual([1, 2, 3])
+    expect(matches({ kind: "attribute", name: "intensity", max: 55 })).toEqual([0, 1])
+    expect(matches({ kind: "attribute", name: "label", min: 6, max: 6 })).toEqual([1, 2])
+  })
+
+  it("reads the requested component of multi-component attributes", () => {
+    expect(matches({ kind: "attribute", name: "normal", component: 1, min: 1, max: 1 })).toEqual([1])
+  })
+
+  it("rejects unknown attributes", () => {
+    expect(() => matches({ kind: "attribute", name: "missing", min: 0 })).toThrow("Unknown attribute: missing")
+  })
+})
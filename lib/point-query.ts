@@ -0,0 +1,74 @@
+import type { PointCloudData } from "./types"
+
+/**
+ * 按属性值选点的查询条件
+ * 坐标均为原始坐标（已加回 origin），颜色分量为 0-1
+ * - range：某一坐标轴落在 [min, max] 内（如高度范围）
+ * - distance：与 center 的距离不超过 radius
+ * - color：RGB 欧氏距离不超过 tolerance
+ * - attribute：逐点属性第 component 个分量落在 [min, max] 内，省略的一端不限制（强度、标签阈值）
+ */
+export type PointQuery =
+  | { kind: "range"; axis: "x" | "y" | "z"; min: number; max: number }
+  | { kind: "distance"; center: [number, number, number]; radius: number }
+  | { kind: "color"; color: [number, number, number]; tolerance: number }
+  | { kind: "attribute"; name: string; component?: number; min?: number; max?: number }
+
+type QuerySource = Pick<PointCloudData, "positions" | "colors" | "attributes" | "origin">
+
+/**
+ * 把查询编译为逐点判定函数
+ * 坐标条件预先减去 origin，循环内直接与相对坐标比较
+ */
+export function createQueryPredicate(query: PointQuery, source: QuerySource): (index: number) => boolean {
+  const { positions, colors } = source
+  const origin = source.origin ?? [0, 0, 0]
+
+  switch (query.kind) {
+    case "range": {
+      const axis = query.axis === "x" ? 0 : query.axis === "y" ? 1 : 2
+      const min = query.min - origin[axis]
+      const max = query.max - origin[axis]
+      return (i) => {
+        const v = positions[i * 3 + axis]
+        return v >= min && v <= max
+      }
+    }
+    case "distance": {
+      const cx = query.center[0] - origin[0]
+      const cy = query.center[1] - origin[1]
+      const cz = query.center[2] - origin[2]
+      const radiusSq = query.radius * query.radius
+      return (i) => {
+        const dx = positions[i * 3] - cx
+        const dy = positions[i * 3 + 1] - cy
+        const dz = positions[i * 3 + 2] - cz
+        return dx * dx + dy * dy + dz * dz <= radiusSq
+      }
+    }
+    case "color": {
+      const [r, g, b] = query.color
+      const toleranceSq = query.tolerance * query.tolerance
+      return (i) => {
+        const dr = colors[i * 3] - r
+        const dg = colors[i * 3 + 1] - g
+        const db = colors[i * 3 + 2] - b
+        return dr * dr + dg * dg + db * db <= toleranceSq
+      }
+    }
+    case "attribute": {
+      const attribute = source.attributes[query.name]
+      if (!attribute) {
+        throw new Error(`Unknown attribute: ${query.name}`)
+      }
+      const { array, itemSize } = attribute
+      const component = query.component ?? 0
+      const min = query.min ?? Number.NEGATIVE_INFINITY
+      const max = query.max ?? Number.POSITIVE_INFINITY
+      return (i) => {
+        const v = array[i * itemSize + component]
+        return v >= min && v <= max
+      }
+    }
+  }
+}
@@ -0,0 +1,323 @@
+import type { ScreenSelectionShape } from "./types"
+import { isOccluded, type DepthBuffer } from "./depth-buffer"
+import { classifyBoundsInBox, intersectRelations, isInsideBox } from "./oriented-box"
+import {
+  NODE_INSIDE,
+  NODE_OUTSIDE,
+  NODE_PARTIAL,
+  createProjectedBounds,
+  projectNodeBounds,
+  queryIndex,
+  type PointIndex,
+} from "./point-index"
+
+/**
+ * 按空间索引选点
+ *
+ * 与选择区域无关的节点整体跳过，完全在区域内的节点整体接受，只有跨越边界的叶子逐点判断，
+ * 结果与逐点扫描索引覆盖的全部点相同。返回的索引升序。
+ */
+
+export interface ScreenSelectQuery {
+  shape: ScreenSelectionShape
+  viewProjectionMatrix: ArrayLike<number>
+  viewport: { width: number; height: number }
+  // 只选可见点：已合并所有分片的深度缓冲，深度不超过最近深度 + tolerance 的点才算可见
+  depth?: { buffer: DepthBuffer; tolerance: number }
+  // 裁剪盒的逆矩阵：盒外的点被 GPU 隐藏，也不参与选择
+  crop?: number[]
+}
+
+/** 选出投影到屏幕后落在矩形、圆形或多边形内的点 */
+export function selectInScreenShape(positions: Float32Array, index: PointIndex, query: ScreenSelectQuery): Uint32Array {
+  const { shape, viewProjectionMatrix: e, viewport, depth, crop } = query
+
+  // 快速返回
+  if (!isValidShape(shape) || viewport.width === 0 || viewport.height === 0 || e.length !== 16) {
+    return new Uint32Array()
+  }
+
+  // 预处理选择区域：计算包围盒；多边形拆分为两个连续数组，减少属性访问
+  const kind = shape.kind
+  let pathXs = new Float32Array()
+  let pathYs = new Float32Array()
+  let minX = Number.POSITIVE_INFINITY
+  let maxX = Number.NEGATIVE_INFINITY
+  let minY = Number.POSITIVE_INFINITY
+  let maxY = Number.NEGATIVE_INFINITY
+  let cx = 0
+  let cy = 0
+  let radiusSq = 0
+
+  if (shape.kind === "polygon") {
+    const { path } = shape
+    const pathLength = path.length
+    pathXs = new Float32Array(pathLength)
+    pathYs = new Float32Array(pathLength)
+
+    for (let i = 0; i < pathLength; i++) {
+      const p = path[i]
+      const x = p.x
+      const y = p.y
+      pathXs[i] = x
+      pathYs[i] = y
+      if (x < minX) minX = x
+      if (x > maxX) maxX = x
+      if (y < minY) minY = y
+      if (y > maxY) maxY = y
+    }
+  } else if (shape.kind === "rectangle") {
+    // 矩形：包围盒本身就是判定条件
+    minX = Math.min(shape.x0, shape.x1)
+    maxX = Math.max(shape.x0, shape.x1)
+    minY = Math.min(shape.y0, shape.y1)
+    maxY = Math.max(shape.y0, shape.y1)
+  } else {
+    // 圆形：包围盒剔除后再比较距离平方
+    cx = shape.cx
+    cy = shape.cy
+    radiusSq = shape.radius * shape.radius
+    minX = cx - shape.radius
+    maxX = cx + shape.radius
+    minY = cy - shape.radius
+    maxY = cy + shape.radius
+  }
+
+  const depthBuffer = depth?.buffer
+  const depthTolerance = depth?.tolerance ?? 0
+
+  // 🚀 预分配数组，避免动态扩容
+  const selectedBuffer = new Uint32Array(index.end - index.start)
+  let selectedCount = 0
+
+  const width = viewport.width
+  const height = viewport.height
+
+  // 预取矩阵元素（列主序）
+  const m00 = e[0],
+    m01 = e[1],
+    m02 = e[2],
+    m03 = e[3]
+  const m10 = e[4],
+    m11 = e[5],
+    m12 = e[6],
+    m13 = e[7]
+  const m20 = e[8],
+    m21 = e[9],
+    m22 = e[10],
+    m23 = e[11]
+  const m30 = e[12],
+    m31 = e[13],
+    m32 = e[14],
+    m33 = e[15]
+
+  // 屏幕上的矩形（节点投影范围）是否完全位于选择区域内
+  const containsRect = (x0: number, y0: number, x1: number, y1: number) => {
+    if (kind === "rectangle") return x0 >= minX && x1 <= maxX && y0 >= minY && y1 <= maxY
+    if (kind === "circle") {
+      const dx = Math.max(cx - x0, x1 - cx)
+      const dy = Math.max(cy - y0, y1 - cy)
+      return dx * dx + dy * dy <= radiusSq
+    }
+    return isRectInPolygon(x0, y0, x1, y1, pathXs, pathYs)
+  }
+
+  // 🚀 按空间索引剔除：投影范围与选择区域包围盒不相交的节点整体跳过，完全在区域内的节点整体接受
+  const projected = createProjectedBounds()
+  const { order } = index
+  queryIndex(
+    index,
+    (bounds, offset) => {
+      const cropped = crop ? classifyBoundsInBox(crop, bounds, offset) : NODE_INSIDE
+      if (cropped === NODE_OUTSIDE) return NODE_OUTSIDE
+      const p = projectNodeBounds(bounds, offset, e, width, height, projected)
+      if (p.allBehind || p.allBeyondFar) return NODE_OUTSIDE
+      // 跨越相机平面时投影范围不可靠，只能逐点判断
+      if (p.behind) return NODE_PARTIAL
+      if (p.maxX < minX || p.minX > maxX || p.maxY < minY || p.minY > maxY) return NODE_OUTSIDE
+      if (p.beyondFar) return NODE_PARTIAL
+      return intersectRelations(cropped, containsRect(p.minX, p.minY, p.maxX, p.maxY) ? NODE_INSIDE : NODE_PARTIAL)
+    },
+    (from, to, inside) => {
+      // 整体在区域内且不需要深度测试：整段接受，不再投影
+      if (inside && !depthBuffer) {
+        selectedBuffer.set(order.subarray(from, to), selectedCount)
+        selectedCount += to - from
+        return
+      }
+
+      for (let k = from; k < to; k++) {
+        const i = order[k]
+        const idx = i * 3
+        const x = positions[idx]
+        const y = positions[idx + 1]
+        const z = positions[idx + 2]
+        if (crop && !isInsideBox(crop, x, y, z)) continue
+
+        // 变换到裁剪空间
+        const clipX = m00 * x + m10 * y + m20 * z + m30
+        const clipY = m01 * x + m11 * y + m21 * z + m31
+        const clipZ = m02 * x + m12 * y + m22 * z + m32
+        const clipW = m03 * x + m13 * y + m23 * z + m33
+
+        // 相机后方的点不参与选择
+        if (clipW <= 0) continue
+
+        const invW = 1 / clipW
+        const ndcX = clipX * invW
+        const ndcY = clipY * invW
+        const ndcZ = clipZ * invW
+
+        // 仅保留视锥内点
+        if (ndcZ >= 1) continue
+
+        const screenX = (ndcX + 1) * 0.5 * width
+        const screenY = (-ndcY + 1) * 0.5 * height
+
+        // 边界框快速剔除
+        if (screenX < minX || screenX > maxX || screenY < minY || screenY > maxY) continue
+
+        // 深度测试：被前方的点遮挡则跳过
+        if (depthBuffer && isOccluded(depthBuffer, screenX, screenY, clipW, depthTolerance)) continue
+
+        if (inside || kind === "rectangle") {
+          selectedBuffer[selectedCount++] = i
+        } else if (kind === "circle") {
+          const dx = screenX - cx
+          const dy = screenY - cy
+          if (dx * dx + dy * dy <= radiusSq) {
+            selectedBuffer[selectedCount++] = i
+          }
+        } else if (isPointInPolygon(screenX, screenY, pathXs, pathYs)) {
+          selectedBuffer[selectedCount++] = i
+        }
+      }
+    },
+  )
+
+  // 🚀 返回实际大小的数组；索引按节点排列，排序后恢复升序
+  return selectedBuffer.slice(0, selectedCount).sort()
+}
+
+/**
+ * 选出有向包围盒内的点：变换到盒子局部空间后，三个分量都在 [-0.5, 0.5] 内；开启裁剪时还需同时在裁剪盒内
+ * 索引节点的 8 个角点都在盒内时整体接受（盒子是凸的），在盒子某个面之外时整体跳过
+ */
+export function selectInBox(
+  positions: Float32Array,
+  index: PointIndex,
+  inverseMatrix: number[],
+  crop?: number[],
+): Uint32Array {
+  const e = inverseMatrix
+  const selectedBuffer = new Uint32Array(index.end - index.start)
+  let selectedCount = 0
+  const { order } = index
+
+  queryIndex(
+    index,
+    (b, o) => {
+      const relation = classifyBoundsInBox(e, b, o)
+      if (!crop || relation === NODE_OUTSIDE) return relation
+      return intersectRelations(relation, classifyBoundsInBox(crop, b, o))
+    },
+    (from, to, inside) => {
+      if (inside) {
+        selectedBuffer.set(order.subarray(from, to), selectedCount)
+        selectedCount += to - from
+        return
+      }
+
+      for (let k = from; k < to; k++) {
+        const i = order[k]
+        const idx = i * 3
+        const x = positions[idx]
+        const y = positions[idx + 1]
+        const z = positions[idx + 2]
+        if (!isInsideBox(e, x, y, z)) continue
+        if (crop && !isInsideBox(crop, x, y, z)) continue
+
+        selectedBuffer[selectedCount++] = i
+      }
+    },
+  )
+
+  return selectedBuffer.slice(0, selectedCount).sort()
+}
+
+function isValidShape(shape: ScreenSelectionShape): boolean {
+  switch (shape.kind) {
+    case "polygon":
+      return shape.path.length >= 3
+    case "rectangle":
+      return shape.x0 !== shape.x1 && shape.y0 !== shape.y1
+    case "circle":
+      return shape.radius > 0
+  }
+}
+
+// 优化的射线法：使用预拆分的 x/y 数组避免属性访问
+function isPointInPolygon(px: number, py: number, pathXs: Float32Array, pathYs: Float32Array): boolean {
+  let inside = false
+  const n = pathXs.length
+  for (let i = 0, j = n - 1; i < n; j = i++) {
+    const xi = pathXs[i]
+    const yi = pathYs[i]
+    const xj = pathXs[j]
+    const yj = pathYs[j]
+
+    const intersect = yi > py !== yj > py && px < ((xj - xi) * (py - yi)) / (yj - yi) + xi
+    if (intersect) inside = !inside
+  }
+  return inside
+}
+
+// 屏幕矩形完全在多边形内：一个角点在多边形内，且没有任何一条边穿过矩形
+function isRectInPolygon(
+  x0: number,
+  y0: number,
+  x1: number,
+  y1: number,
+  pathXs: Float32Array,
+  pathYs: Float32Array,
+): boolean {
+  if (!isPointInPolygon(x0, y0, pathXs, pathYs)) return false
+
+  const n = pathXs.length
+  for (let i = 0, j = n - 1; i < n; j = i++) {
+    if (segmentIntersectsRect(pathXs[j], pathYs[j], pathXs[i], pathYs[i], x0, y0, x1, y1)) return false
+  }
+  return true
+}
+
+// Liang–Barsky 线段裁剪：线段与矩形（含边界）有交点
+function segmentIntersectsRect(
+  ax: number,
+  ay: number,
+  bx: number,
+  by: number,
+  x0: number,
+  y0: number,
+  x1: number,
+  y1: number,
+): boolean {
+  const dx = bx - ax
+  const dy = by - ay
+  let t0 = 0
+  let t1 = 1
+
+  const clip = (p: number, q: number) => {
+    if (p === 0) return q >= 0
+    const r = q / p
+    if (p < 0) {
+      if (r > t1) return false
+      if (r > t0) t0 = r
+    } else {
+      if (r < t0) return false
+      if (r < t1) t1 = r
+    }
+    return true
+  }
+
+  return clip(-dx, ax - x0) && clip(dx, x1 - ax) && clip(-dy, ay - y0) && clip(dy, y1 - ay)
+}
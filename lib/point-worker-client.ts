@@ -1,11 +1,11 @@
-import type { LassoPoint, PointCloudData } from "./types"
+import type { PointCloudData, SelectionShape } from "./types"
 
 type Viewport = { width: number; height: number }
 
 type WorkerRequestType = "init" | "select" | "color"
 
 type SelectionPayload = {
-  path: LassoPoint[]
+  shape: SelectionShape
   viewProjectionMatrix: Float32Array
   viewport: Viewport
 }
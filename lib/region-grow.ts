@@ -0,0 +1,175 @@
+import type { PointCloudData } from "./types"
+import { forEachNeighbor, type PointIndex } from "./point-index"
+import { isInsideBox } from "./oriented-box"
+
+/**
+ * 区域生长（魔棒）参数
+ * - radius：相邻点的最大距离，生长只在该距离内传播
+ * - maxColorDistance：相邻两点 RGB（0-1）欧氏距离上限，不传则不限制
+ * - maxNormalAngle：相邻两点法线夹角上限（度），不传则不限制；需要点云带有法线
+ * - crop：裁剪盒的逆矩阵，生长不会进入盒外（不可见）的点
+ */
+export interface RegionGrowOptions {
+  seed: number
+  radius: number
+  maxColorDistance?: number
+  maxNormalAngle?: number
+  crop?: number[]
+}
+
+// PCD 使用 normal_x / normal_y / normal_z，PLY 使用 nx / ny / nz
+const NORMAL_FIELDS = [
+  ["normal_x", "normal_y", "normal_z"],
+  ["nx", "ny", "nz"],
+] as const
+
+/** 查找三个法线分量属性，没有法线时返回 null */
+export function findNormalAttributes(
+  attributes: PointCloudData["attributes"],
+): [PointCloudData["attributes"][string], PointCloudData["attributes"][string], PointCloudData["attributes"][string]] | null {
+  for (const [x, y, z] of NORMAL_FIELDS) {
+    if (attributes[x] && attributes[y] && attributes[z]) {
+      return [attributes[x], attributes[y], attributes[z]]
+    }
+  }
+  return null
+}
+
+/** 按升序收集已访问的点 */
+export function collectVisited(visited: Uint8Array, visitedCount: number): Uint32Array {
+  const indices = new Uint32Array(visitedCount)
+  let n = 0
+  for (let i = 0; i < visited.length && n < visitedCount; i++) {
+    if (visited[i]) indices[n++] = i
+  }
+  return indices
+}
+
+/**
+ * 相邻两点能否连通：裁剪盒、颜色与法线条件
+ * 颜色与法线条件比较的是相邻两点，而不是与种子点比较，以便沿着渐变的表面生长；
+ * 条件对两点对称，因此生长结果与访问顺序无关，可以分片并行
+ */
+function createNeighborTest(
+  data: Pick<PointCloudData, "positions" | "colors" | "attributes">,
+  options: RegionGrowOptions,
+): (from: number, to: number) => boolean {
+  const { positions, colors } = data
+  const { maxColorDistance, maxNormalAngle, crop } = options
+
+  const normals = maxNormalAngle !== undefined ? findNormalAttributes(data.attributes) : null
+  if (maxNormalAngle !== undefined && !normals) {
+    throw new Error("This point cloud has no normals")
+  }
+  const colorLimitSq = maxColorDistance !== undefined ? maxColorDistance * maxColorDistance : Number.POSITIVE_INFINITY
+  // 法线方向可能相反（未定向），比较夹角时取绝对值
+  const minNormalDot = maxNormalAngle !== undefined ? Math.cos((maxNormalAngle * Math.PI) / 180) : -1
+
+  return (from, to) => {
+    if (crop && !isInsideBox(crop, positions[to * 3], positions[to * 3 + 1], positions[to * 3 + 2])) return false
+    if (colorLimitSq !== Number.POSITIVE_INFINITY) {
+      const dr = colors[to * 3] - colors[from * 3]
+      const dg = colors[to * 3 + 1] - colors[from * 3 + 1]
+      const db = colors[to * 3 + 2] - colors[from * 3 + 2]
+      if (dr * dr + dg * dg + db * db > colorLimitSq) return false
+    }
+    if (normals) {
+      const [nx, ny, nz] = normals
+      const dot =
+        nx.array[to * nx.itemSize] * nx.array[from * nx.itemSize] +
+        ny.array[to * ny.itemSize] * ny.array[from * ny.itemSize] +
+        nz.array[to * nz.itemSize] * nz.array[from * nz.itemSize]
+      if (Math.abs(dot) < minNormalDot) return false
+    }
+    return true
+  }
+}
+
+/**
+ * 一个分片内的区域生长状态，只负责 [start, end) 范围内的点，使用该分片的空间索引
+ * 生长由主线程按轮次协调，见 advanceShardGrow
+ */
+export interface ShardGrowState {
+  start: number
+  end: number
+  index: PointIndex
+  positions: Float32Array
+  radius: number
+  connects: (from: number, to: number) => boolean
+  // 本分片内已加入区域的点，下标相对 start
+  visited: Uint8Array
+  // 已加入区域的点（全局序号），head 之前的已在本分片内展开过邻点
+  queue: Uint32Array
+  head: number
+  tail: number
+}
+
+export function createShardGrowState(
+  data: Pick<PointCloudData, "positions" | "colors" | "attributes">,
+  index: PointIndex,
+  start: number,
+  end: number,
+  options: RegionGrowOptions,
+): ShardGrowState {
+  return {
+    start,
+    end,
+    index,
+    positions: data.positions,
+    radius: options.radius,
+    connects: createNeighborTest(data, options),
+    visited: new Uint8Array(end - start),
+    queue: new Uint32Array(end - start),
+    head: 0,
+    tail: 0,
+  }
+}
+
+/**
+ * 推进一轮分片内的生长
+ * - frontier 是上一轮各分片新加入区域的点（第一轮是种子点）：本分片范围内未访问的点直接加入，
+ *   其余的点在本分片内查找邻点
+ * - 之后在本分片内继续广度优先展开，最多展开 budget 个点，避免单条消息占用 Worker 过久
+ *
+ * @returns 本轮新加入区域的点（未排序），以及本分片是否还有未展开的点
+ */
+export function advanceShardGrow(
+  state: ShardGrowState,
+  frontier: Uint32Array,
+  budget: number,
+): { found: Uint32Array; pending: boolean } {
+  const { start, end, index, positions, radius, connects, visited, queue } = state
+
+  // 本分片自己找到的点已在队列中；种子点在这里加入，主线程已经记录了它，不再返回
+  for (let k = 0; k < frontier.length; k++) {
+    const i = frontier[k]
+    if (i >= start && i < end && !visited[i - start]) {
+      visited[i - start] = 1
+      queue[state.tail++] = i
+    }
+  }
+  const firstFound = state.tail
+
+  let current = 0
+  const accept = (j: number) => {
+    if (visited[j - start] || !connects(current, j)) return
+    visited[j - start] = 1
+    queue[state.tail++] = j
+  }
+  const expand = (i: number) => {
+    current = i
+    forEachNeighbor(index, positions, positions[i * 3], positions[i * 3 + 1], positions[i * 3 + 2], radius, accept)
+  }
+
+  for (let k = 0; k < frontier.length; k++) {
+    const i = frontier[k]
+    if (i < start || i >= end) expand(i)
+  }
+
+  const stop = state.head + budget
+  while (state.head < state.tail && state.head < stop) {
+    expand(queue[state.head++])
+  }
+
+  return { found: queue.slice(firstFound, state.tail), pending: state.head < state.tail }
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest"
+import {
+  combineSelection,
+  intersectSorted,
+  lowerBound,
+  selectionOpFromModifiers,
+  subtractSorted,
+  unionSorted,
+} from "./selection-ops"
+
+const u32 = (...values: number[]) => new Uint32Array(values)
+
+describe("selectionOpFromModifiers", () => {
+  it("maps Shift, Alt and Shift + Alt to add, subtract and intersect", () => {
+    expect(selectionOpFromModifiers({ shiftKey: false, altKey: false })).toBe("replace")
+    expect(selectionOpFromModifiers({ shiftKey: true, altKey: false })).toBe("add")
+    expect(selectionOpFromModifiers({ shiftKey: false, altKey: true })).toBe("subtract")
+    expect(selectionOpFromModifiers({ shiftKey: true, altKey: true })).toBe("intersect")
+  })
+})
+
+describe("lowerBound", () => {
+  it("returns the first position not less than the value", () => {
+    const sorted = u32(1, 3, 3, 7)
+    expect(lowerBound(sorted, 0)).toBe(0)
+    expect(lowerBound(sorted, 3)).toBe(1)
+    expect(lowerBound(sorted, 4)).toBe(3)
+    expect(lowerBound(sorted, 8)).toBe(4)
+    expect(lowerBound(u32(), 5)).toBe(0)
+  })
+})
+
+describe("sorted set operations", () => {
+  const a = u32(1, 2, 5, 8, 13)
+  const b = u32(2, 3, 8, 21)
+
+  it("merges the union without duplicates", () => {
+    expect(Array.from(unionSorted(a, b))).toEqual([1, 2, 3, 5, 8, 13, 21])
+    expect(Array.from(unionSorted(a, a))).toEqual(Array.from(a))
+  })
+
+  it("subtracts the second set", () => {
+    expect(Array.from(subtractSorted(a, b))).toEqual([1, 5, 13])
+    expect(Array.from(subtractSorted(b, a))).toEqual([3, 21])
+  })
+
+  it("intersects the two sets", () => {
+    expect(Array.from(intersectSorted(a, b))).toEqual([2, 8])
+    expect(Array.from(intersectSorted(a, u32(4, 6)))).toEqual([])
+  })
+
+  it("handles empty inputs", () => {
+    expect(Array.from(unionSorted(u32(), b))).toEqual(Array.from(b))
+    expect(Array.from(subtractSorted(a, u32()))).toEqual(Array.from(a))
+    expect(Array.from(subtractSorted(u32(), b))).toEqual([])
+    expect(Array.from(intersectSorted(u32(), b))).toEqual([])
+  })
+
+  it("matches Set semantics on random inputs", () => {
+    let state = 7
+    const randomSorted = (length: number) => {
+      const values = new Set<number>()
+      for (let i = 0; i < length; i++) {
+        state = (Math.imul(state, 1664525) + 1013904223) >>> 0
+        values.add(state % 500)
+      }
+      return Uint32Array.from([...values].sort((x, y) => x - y))
+    }
+    for (let round = 0; round < 20; round++) {
+      const x = randomSorted(100)
+      const y = randomSorted(150)
+      const ySet = new Set(y)
+      const union = [...new Set([...x, ...y])].sort((p, q) => p - q)
+      expect(Array.from(unionSorted(x, y))).toEqual(union)
+      expect(Array.from(subtractSorted(x, y))).toEqual(Array.from(x).filter((v) => !ySet.has(v)))
+      expect(Array.from(intersectSorted(x, y))).toEqual(Array.from(x).filter((v) => ySet.has(v)))
+    }
+  })
+})
+
+describe("combineSelection", () => {
+  const current = u32(1, 2, 3)
+  const hits = u32(3, 4)
+
+  it("applies each op to the current selection", () => {
+    expect(Array.from(combineSelection("replace", current, hits))).toEqual([3, 4])
+    expect(Array.from(combineSelection("add", current, hits))).toEqual([1, 2, 3, 4])
+    expect(Array.from(combineSelection("subtract", current, hits))).toEqual([1, 2])
+    expect(Array.from(combineSelection("intersect", current, hits))).toEqual([3])
+  })
+})
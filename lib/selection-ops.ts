@@ -0,0 +1,117 @@
+/**
+ * 选择集合运算
+ *
+ * 选中索引始终是升序的 Uint32Array（见 docs/set-overflow-issue.md），
+ * 集合运算使用双指针归并，时间 O(n + m)，不依赖 Set，千万级点也不会超出容量限制。
+ */
+
+/**
+ * 套索与已有选择的组合方式：
+ * - replace：替换（默认）
+ * - add：并集（Shift）
+ * - subtract：差集（Alt）
+ * - intersect：交集（Shift + Alt）
+ */
+export type SelectionOp = "replace" | "add" | "subtract" | "intersect"
+
+/** 根据修饰键确定组合方式 */
+export function selectionOpFromModifiers(modifiers: { shiftKey: boolean; altKey: boolean }): SelectionOp {
+  if (modifiers.shiftKey && modifiers.altKey) return "intersect"
+  if (modifiers.shiftKey) return "add"
+  if (modifiers.altKey) return "subtract"
+  return "replace"
+}
+
+/** 第一个不小于 value 的元素位置 */
+export function lowerBound(sorted: Uint32Array, value: number): number {
+  let low = 0
+  let high = sorted.length
+  while (low < high) {
+    const mid = (low + high) >>> 1
+    if (sorted[mid] < value) low = mid + 1
+    else high = mid
+  }
+  return low
+}
+
+export function unionSorted(a: Uint32Array, b: Uint32Array): Uint32Array {
+  if (a.length === 0) return b
+  if (b.length === 0) return a
+
+  const out = new Uint32Array(a.length + b.length)
+  let i = 0
+  let j = 0
+  let n = 0
+  while (i < a.length && j < b.length) {
+    const x = a[i]
+    const y = b[j]
+    if (x < y) {
+      out[n++] = x
+      i++
+    } else if (y < x) {
+      out[n++] = y
+      j++
+    } else {
+      out[n++] = x
+      i++
+      j++
+    }
+  }
+  while (i < a.length) out[n++] = a[i++]
+  while (j < b.length) out[n++] = b[j++]
+  return n === out.length ? out : out.slice(0, n)
+}
+
+export function subtractSorted(a: Uint32Array, b: Uint32Array): Uint32Array {
+  if (a.length === 0 || b.length === 0) return a
+
+  const out = new Uint32Array(a.length)
+  let j = 0
+  let n = 0
+  for (let i = 0; i < a.length; i++) {
+    const x = a[i]
+    while (j < b.length && b[j] < x) j++
+    if (j < b.length && b[j] === x) continue
+    out[n++] = x
+  }
+  return out.slice(0, n)
+}
+
+export function intersectSorted(a: Uint32Array, b: Uint32Array): Uint32Array {
+  if (a.length === 0 || b.length === 0) return new Uint32Array()
+
+  const out = new Uint32Array(Math.min(a.length, b.length))
+  let i = 0
+  let j = 0
+  let n = 0
+  while (i < a.length && j < b.length) {
+    const x = a[i]
+    const y = b[j]
+    if (x < y) i++
+    else if (y < x) j++
+    else {
+      out[n++] = x
+      i++
+      j++
+    }
+  }
+  return out.slice(0, n)
+}
+
+/**
+ * 将本次命中的点与已有选择组合
+ * @param current - 已有选择（升序）
+ * @param hits - 本次命中的点（升序）
+ */
+export function combineSelection(op: SelectionOp, current: Uint32Array, hits: Uint32Array): Uint32Array {
+  switch (op) {
+    case "add":
+      return unionSorted(current, hits)
+    case "subtract":
+      return subtractSorted(current, hits)
+    case "intersect":
+      return intersectSorted(current, hits)
+    default:
+      return hits
+  }
+}
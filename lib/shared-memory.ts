@@ -0,0 +1,48 @@
+import type { PointAttributeArray } from "./types"
+
+/**
+ * 共享内存模式
+ *
+ * 页面跨源隔离（COOP + COEP 响应头，见 next.config.mjs）时，解析器把点云写入 SharedArrayBuffer：
+ * 解析结果发回主线程、再 init 到每个 Worker 时只传递引用，整份点云在内存中只有一份。
+ * 没有隔离时 SharedArrayBuffer 不可用，退回普通 ArrayBuffer，每个 Worker 各持有一份拷贝。
+ * 专用 Worker 继承页面的隔离状态，因此主线程与 Worker 的判断结果一致。
+ */
+export function canShareMemory(): boolean {
+  return typeof SharedArrayBuffer !== "undefined" && globalThis.crossOriginIsolated === true
+}
+
+interface TypedArrayConstructor<T extends PointAttributeArray> {
+  new (length: number): T
+  new (buffer: ArrayBufferLike): T
+  readonly BYTES_PER_ELEMENT: number
+}
+
+/** 分配点云数组：可以共享内存时放在 SharedArrayBuffer 上，否则与 new Type(length) 相同 */
+export function allocateArray<T extends PointAttributeArray>(Type: TypedArrayConstructor<T>, length: number): T {
+  if (!canShareMemory()) return new Type(length)
+  return new Type(new SharedArrayBuffer(length * Type.BYTES_PER_ELEMENT))
+}
+
+/** 复制前 length 个元素到同类型的新数组，保持是否共享内存不变 */
+export function truncateArray<T extends PointAttributeArray>(array: T, length: number): T {
+  if (!isSharedBuffer(array.buffer)) return array.slice(0, length) as T
+  const Type = array.constructor as TypedArrayConstructor<T>
+  const truncated = new Type(new SharedArrayBuffer(length * Type.BYTES_PER_ELEMENT))
+  truncated.set(array.subarray(0, length))
+  return truncated
+}
+
+// 未隔离的页面中 SharedArrayBuffer 全局变量不存在，不能直接 instanceof
+export function isSharedBuffer(buffer: ArrayBufferLike): boolean {
+  return typeof SharedArrayBuffer !== "undefined" && buffer instanceof SharedArrayBuffer
+}
+
+/** 从一组数组中挑出可以 transfer 的 buffer；SharedArrayBuffer 不能 transfer，本来也只传引用 */
+export function transferableBuffers(arrays: ArrayBufferView[]): ArrayBuffer[] {
+  const buffers: ArrayBuffer[] = []
+  for (const array of arrays) {
+    if (!isSharedBuffer(array.buffer)) buffers.push(array.buffer as ArrayBuffer)
+  }
+  return buffers
+}
@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest"
+import { bufferSource } from "./byte-source"
+import { parseDelimitedText, sniffDelimitedText, splitLine, type TextParseOptions } from "./text-parser"
+
+const encode = (text: string) => new TextEncoder().encode(text).buffer as ArrayBuffer
+
+// 与导入流程一致：先推测格式，再按推测的映射解析
+async function sniffAndParse(text: string) {
+  const sniff = sniffDelimitedText(text)
+  const options: TextParseOptions = {
+    delimiter: sniff.delimiter,
+    skipRows: sniff.skipRows,
+    columns: sniff.suggestedColumns,
+  }
+  return { sniff, parsed: await parseDelimitedText(bufferSource(encode(text)), options) }
+}
+
+describe("splitLine", () => {
+  it("splits on runs of whitespace and trims delimited tokens", () => {
+    expect(splitLine("  1 \t2   3 ", "whitespace")).toEqual(["1", "2", "3"])
+    expect(splitLine("1, 2 ,3", ",")).toEqual(["1", "2", "3"])
+  })
+})
+
+describe("sniffDelimitedText", () => {
+  it("detects the delimiter and a header row", () => {
+    const sniff = sniffDelimitedText("X;Y;Z;Intensity\n1;2;3;4\n5;6;7;8\n")
+    expect(sniff).toMatchObject({
+      delimiter: ";",
+      skipRows: 1,
+      hasHeader: true,
+      columnNames: ["X", "Y", "Z", "Intensity"],
+      suggestedColumns: { x: 0, y: 1, z: 2, intensity: 3 },
+    })
+    expect(sniff.previewRows).toEqual([
+      ["1", "2", "3", "4"],
+      ["5", "6", "7", "8"],
+    ])
+  })
+
+  it("skips the point count line of a PTS file", () => {
+    const sniff = sniffDelimitedText("2\n1 2 3 10 255 0 0\n4 5 6 20 0 255 0\n")
+    expect(sniff).toMatchObject({
+      delimiter: "whitespace",
+      skipRows: 1,
+      hasHeader: false,
+      suggestedColumns: { x: 0, y: 1, z: 2, intensity: 3, r: 4, g: 5, b: 6 },
+    })
+  })
+
+  it("ignores the incomplete last line of the sample", () => {
+    const sniff = sniffDelimitedText("1,2,3\n4,5,6\n7,8")
+    expect(sniff.previewRows).toEqual([
+      ["1", "2", "3"],
+      ["4", "5", "6"],
+    ])
+  })
+
+  it("takes column names from a # comment before the data", () => {
+    const sniff = sniffDelimitedText("# exported points\n# x y z r g b\n1 2 3 255 0 0\n")
+    expect(sniff).toMatchObject({
+      skipRows: 0,
+      hasHeader: false,
+      columnNames: ["x", "y", "z", "r", "g", "b"],
+      suggestedColumns: { x: 0, y: 1, z: 2, r: 3, g: 4, b: 5 },
+    })
+  })
+
+  it("takes column names from a CloudCompare // comment", () => {
+    const sniff = sniffDelimitedText("//Z,Y,X\n1,2,3\n")
+    expect(sniff).toMatchObject({
+      delimiter: ",",
+      columnNames: ["Z", "Y", "X"],
+      suggestedColumns: { x: 2, y: 1, z: 0 },
+    })
+  })
+
+  it("falls back to numbered columns when the comment does not match the data", () => {
+    const sniff = sniffDelimitedText("# scanner output\n1 2 3\n")
+    expect(sniff.columnNames).toEqual(["Column 1", "Column 2", "Column 3"])
+  })
+})
+
+describe("parseDelimitedText", () => {
+  it("parses a PTS file with intensity and 0-255 colors", async () => {
+    const { parsed } = await sniffAndParse("2\n1 2 3 10 255 0 0\n4 5 6 20 0 255 51\n")
+    expect(parsed.count).toBe(2)
+    expect(Array.from(parsed.positions)).toEqual([1, 2, 3, 4, 5, 6])
+    expect(Array.from(parsed.colors)).toEqual([1, 0, 0, 0, 1, 0.2].map(Math.fround))
+    expect(Array.from(parsed.attributes["intensity"].array)).toEqual([10, 20])
+  })
+
+  it("skips comment lines anywhere in the file", async () => {
+    const { parsed } = await sniffAndParse("# x y z\n1 2 3\n// note\n4 5 6\n")
+    expect(parsed.count).toBe(2)
+  })
+
+  it("scales each color column on its own range", async () => {
+    // r 列最大值超过 1，按 0-255 换算；g、b 列都不超过 1，视为 0-1
+    const { parsed } = await sniffAndParse("x,y,z,r,g,b\n0,0,0,255,0.5,1\n1,1,1,51,0.25,0\n")
+    expect(Array.from(parsed.colors)).toEqual([1, 0.5, 1, 0.2, 0.25, 0].map(Math.fround))
+  })
+
+  it("skips rows without numeric coordinates", async () => {
+    const { parsed } = await sniffAndParse("1 2 3\nnan 5 6\n7 8 9\n")
+    expect(Array.from(parsed.positions)).toEqual([1, 2, 3, 7, 8, 9])
+  })
+
+  it("reports the first rejected line when no row has numeric coordinates", async () => {
+    const options: TextParseOptions = { delimiter: ",", skipRows: 0, columns: { x: 0, y: 1, z: 2 } }
+    await expect(parseDelimitedText(bufferSource(encode("# header\n1 2 3\n4 5 6\n")), options)).rejects.toMatchObject({
+      code: "CORRUPT_DATA",
+      location: { kind: "line", value: 2 },
+      actual: "1 2 3",
+    })
+  })
+})
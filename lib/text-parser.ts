@@ -0,0 +1,276 @@
+import type { PointCloudData } from "./types"
+import { forEachLineChunk, type ByteSource, type ProgressCallback } from "./byte-source"
+import { PointCloudParseError } from "./parse-error"
+import { PointCloudBuilder } from "./point-cloud-builder"
+import { IDENTITY_VIEWPOINT } from "./viewpoint"
+import { allocateArray } from "./shared-memory"
+
+/** 分隔符："whitespace" 表示任意连续空白（空格或制表符） */
+export type TextDelimiter = "," | ";" | "\t" | "whitespace"
+
+/** 列映射：值为列序号，未映射的列不读取 */
+export interface TextColumnMapping {
+  x: number
+  y: number
+  z: number
+  r?: number
+  g?: number
+  b?: number
+  intensity?: number
+}
+
+export interface TextParseOptions {
+  delimiter: TextDelimiter
+  // 数据开始前需要跳过的行数（表头行、PTS 的点数行），空行和注释行不计入
+  skipRows: number
+  columns: TextColumnMapping
+}
+
+export interface TextSniffResult {
+  delimiter: TextDelimiter
+  skipRows: number
+  // 有表头时为表头名称，其次是数据前注释行给出的名称，否则为 "Column 1"、"Column 2"……
+  columnNames: string[]
+  hasHeader: boolean
+  // 前几行数据，用于映射对话框预览
+  previewRows: string[][]
+  // 根据表头名称或列数推测的映射
+  suggestedColumns: TextColumnMapping
+}
+
+const DELIMITERS: TextDelimiter[] = [",", ";", "\t", "whitespace"]
+
+const COMMENT_PREFIX = /^(#|\/\/)/
+
+function isCommentLine(line: string): boolean {
+  return COMMENT_PREFIX.test(line.trimStart())
+}
+
+export function splitLine(line: string, delimiter: TextDelimiter): string[] {
+  const trimmed = line.trim()
+  if (delimiter === "whitespace") return trimmed.split(/\s+/)
+  return trimmed.split(delimiter).map((token) => token.trim())
+}
+
+function isNumeric(token: string): boolean {
+  return token !== "" && !isNaN(Number(token))
+}
+
+function suggestColumns(columnNames: string[], hasHeader: boolean): TextColumnMapping {
+  const columns: TextColumnMapping = { x: 0, y: 1, z: 2 }
+
+  if (hasHeader) {
+    const find = (...names: string[]) => {
+      const index = columnNames.findIndex((name) => names.includes(name.toLowerCase()))
+      return index === -1 ? undefined : index
+    }
+    columns.x = find("x") ?? 0
+    columns.y = find("y") ?? 1
+    columns.z = find("z") ?? 2
+    columns.r = find("r", "red")
+    columns.g = find("g", "green")
+    columns.b = find("b", "blue")
+    columns.intensity = find("i", "intensity", "scalar_intensity")
+    return columns
+  }
+
+  // 无表头时按常见布局推测：x y z [intensity] [r g b]
+  const n = columnNames.length
+  if (n === 4 || n === 7) columns.intensity = 3
+  if (n >= 6) {
+    const colorStart = n === 7 ? 4 : 3
+    columns.r = colorStart
+    columns.g = colorStart + 1
+    columns.b = colorStart + 2
+  }
+  return columns
+}
+
+/**
+ * 从文件开头的一段文本推测格式
+ * - 选择能让各行列数一致且不少于 3 列的分隔符（可由 forcedDelimiter 指定）
+ * - 第一行只有一个整数时视为 PTS 的点数行
+ * - 第一行含非数字内容时视为表头
+ * - 注释行（# 或 // 开头）不参与以上判断；没有表头时，数据前最后一个注释行的列数与数据一致则用作列名，
+ *   例如 "# x y z" 或 CloudCompare 的 "//X,Y,Z"
+ */
+export function sniffDelimitedText(sample: string, forcedDelimiter?: TextDelimiter): TextSniffResult {
+  // 样本末尾可能是不完整的行，丢弃
+  const lines = sample.split(/\r?\n/).slice(0, -1).filter((line) => line.trim() !== "")
+  const rows = lines.filter((line) => !isCommentLine(line))
+
+  let skipRows = 0
+  if (rows.length > 0 && /^\s*\d+\s*$/.test(rows[0])) {
+    skipRows = 1
+  }
+
+  const candidates = rows.slice(skipRows, skipRows + 20)
+  let delimiter: TextDelimiter = forcedDelimiter ?? "whitespace"
+  let bestScore = -1
+  for (const candidate of forcedDelimiter ? [forcedDelimiter] : DELIMITERS) {
+    const counts = candidates.map((line) => splitLine(line, candidate).length)
+    if (!forcedDelimiter && (counts.length === 0 || counts[0] < 3)) continue
+    const consistent = counts.filter((count) => count === counts[0]).length
+    // 列数一致的行越多越好，其次列数越多越好
+    const score = consistent * 1000 + counts[0]
+    if (score > bestScore) {
+      bestScore = score
+      delimiter = candidate
+    }
+  }
+
+  const firstRow = candidates.length > 0 ? splitLine(candidates[0], delimiter) : []
+  const hasHeader = firstRow.length > 0 && !firstRow.every(isNumeric)
+  if (hasHeader) skipRows++
+
+  const dataLines = rows.slice(skipRows)
+  const columnCount = hasHeader ? firstRow.length : dataLines.length > 0 ? splitLine(dataLines[0], delimiter).length : 0
+  const commentNames = hasHeader ? null : findCommentColumnNames(lines, dataLines[0], delimiter, columnCount)
+  const columnNames =
+    (hasHeader ? firstRow : commentNames) ?? Array.from({ length: columnCount }, (_, i) => `Column ${i + 1}`)
+
+  return {
+    delimiter,
+    skipRows,
+    columnNames,
+    hasHeader,
+    previewRows: dataLines.slice(0, 5).map((line) => splitLine(line, delimiter)),
+    suggestedColumns: suggestColumns(columnNames, hasHeader || commentNames !== null),
+  }
+}
+
+/** 第一行数据之前最近的注释行，去掉注释符后列数与数据一致且不全是数字时作为列名 */
+function findCommentColumnNames(
+  lines: string[],
+  firstDataLine: string | undefined,
+  delimiter: TextDelimiter,
+  columnCount: number,
+): string[] | null {
+  const end = firstDataLine === undefined ? lines.length : lines.indexOf(firstDataLine)
+  for (let i = end - 1; i >= 0; i--) {
+    if (!isCommentLine(lines[i])) continue
+    const names = splitLine(lines[i].trim().replace(COMMENT_PREFIX, ""), delimiter)
+    return names.length === columnCount && !names.every(isNumeric) ? names : null
+  }
+  return null
+}
+
+/**
+ * 按列映射解析分隔文本（XYZ / CSV / PTS）
+ *
+ * - 每个颜色列单独判断范围：整列最大值大于 1 时该列按 0-255 换算，否则视为 0-1
+ * - 没有任何一行能解析出 x / y / z 时抛出错误，通常是列映射或分隔符不对
+ * - 映射了 intensity 列时保留为逐点属性
+ * - 文本没有点数信息，按第一块的平均行长估算容量，不足时再扩容
+ *
+ * @param source - 文件的分块读取接口
+ * @param options - 分隔符、跳过行数与列映射
+ * @param onProgress - 每处理完一块数据回调一次
+ * @returns 与 PCD 解析相同格式的点云数据
+ */
+export async function parseDelimitedText(
+  source: ByteSource,
+  options: TextParseOptions,
+  onProgress?: ProgressCallback,
+): Promise<PointCloudData> {
+  const { delimiter, skipRows, columns } = options
+
+  const hasColor = columns.r !== undefined && columns.g !== undefined && columns.b !== undefined
+  const hasIntensity = columns.intensity !== undefined
+  const colorColumns = hasColor ? [columns.r!, columns.g!, columns.b!] : []
+
+  const builder = new PointCloudBuilder(
+    0,
+    hasIntensity ? [{ name: "intensity", itemSize: 1, create: (length) => allocateArray(Float32Array, length) }] : [],
+  )
+  // 与 sniffDelimitedText 一致，跳过行数只统计非空、非注释行
+  let skipped = 0
+  // 行号从 1 开始，用于报告第一行无法解析的数据；rejectedLine 为 0 表示还没有
+  let lineNumber = 0
+  let rejectedLine = 0
+  let rejectedText = ""
+  // 各颜色列的最大值，读完后决定是否按 0-255 换算
+  const colorMax = colorColumns.map(() => Number.NEGATIVE_INFINITY)
+
+  await forEachLineChunk(source, 0, (lines, bytesProcessed) => {
+    // 还没有点时按这一块的平均行长估算总点数，之后每块不足时再扩容
+    builder.reserve(
+      builder.count === 0 ? Math.ceil((lines.length * source.size) / Math.max(1, bytesProcessed)) : lines.length,
+    )
+    const { colors, attributes } = builder
+
+    for (const line of lines) {
+      lineNumber++
+      const trimmed = line.trim()
+      if (trimmed === "" || isCommentLine(trimmed)) continue
+      if (skipped < skipRows) {
+        skipped++
+        continue
+      }
+
+      const tokens = splitLine(trimmed, delimiter)
+      const x = Number.parseFloat(tokens[columns.x])
+      const y = Number.parseFloat(tokens[columns.y])
+      const z = Number.parseFloat(tokens[columns.z])
+
+      // 跳过无效数据
+      if (isNaN(x) || isNaN(y) || isNaN(z)) {
+        if (rejectedLine === 0) {
+          rejectedLine = lineNumber
+          rejectedText = trimmed
+        }
+        continue
+      }
+
+      const pointIndex = builder.count++
+      const base = pointIndex * 3
+      builder.setPosition(pointIndex, x, y, z)
+
+      // 先存原始值，缺失的分量记为 NaN，读完后统一换算
+      for (let c = 0; c < colorColumns.length; c++) {
+        const value = Number.parseFloat(tokens[colorColumns[c]])
+        colors[base + c] = value
+        if (value > colorMax[c]) colorMax[c] = value
+      }
+
+      if (hasIntensity) {
+        attributes[0][pointIndex] = Number.parseFloat(tokens[columns.intensity!])
+      }
+    }
+
+    onProgress?.({ bytesProcessed, totalBytes: source.size, pointsDecoded: builder.count })
+  })
+
+  if (builder.count === 0) {
+    throw new PointCloudParseError(
+      "CORRUPT_DATA",
+      "No rows with numeric x / y / z values; check the delimiter and column mapping",
+      {
+        location: rejectedLine > 0 ? { kind: "line", value: rejectedLine } : undefined,
+        expected: `numbers in columns ${columns.x + 1}, ${columns.y + 1}, ${columns.z + 1}`,
+        actual: rejectedLine > 0 ? rejectedText.slice(0, 80) : "no data rows",
+      },
+    )
+  }
+
+  if (hasColor) {
+    const { colors } = builder
+    const scale = colorMax.map((max) => (max > 1 ? 1 / 255 : 1))
+    for (let i = 0; i < builder.count * 3; i += 3) {
+      for (let c = 0; c < 3; c++) {
+        const value = colors[i + c]
+        // 缺失的颜色分量保持默认的白色
+        colors[i + c] = isNaN(value) ? 1 : Math.min(1, Math.max(0, value * scale[c]))
+      }
+    }
+  }
+
+  return builder.finish({
+    metadata: {
+      viewpoint: IDENTITY_VIEWPOINT,
+      width: builder.count,
+      height: 1,
+      colorEncoding: hasColor ? "channels" : null,
+    },
+  })
+}
@@ -1,12 +1,81 @@
+/**
+ * 逐点属性使用的 TypedArray，按 PCD 字段的 TYPE / SIZE 选择
+ * 8 字节整数没有对应的普通 TypedArray，统一存为 Float64Array
+ */
+export type PointAttributeArray =
+  | Int8Array
+  | Int16Array
+  | Int32Array
+  | Uint8Array
+  | Uint16Array
+  | Uint32Array
+  | Float32Array
+  | Float64Array
+
+export interface PointAttribute {
+  // 扁平化存储：[p0c0, p0c1, ..., p1c0, p1c1, ...]
+  array: PointAttributeArray
+  // 每个点的分量个数（PCD 中的 COUNT，例如 normal_x 为 1，FPFH 为 33）
+  itemSize: number
+}
+
+/** 源文件中与渲染无关、但导出时需要保留的信息 */
+export interface PointCloudMetadata {
+  // 采集视点：tx ty tz qw qx qy qz
+  viewpoint: number[]
+  // 点是否已按 viewpoint 变换到世界坐标系（否则仍为传感器坐标系）
+  viewpointApplied?: boolean
+  width: number
+  height: number
+  // 原始颜色字段的编码方式，导出时沿用
+  colorEncoding: "rgb" | "rgba" | "channels" | null
+}
+
+/**
+ * 有序点云（PCD 中 HEIGHT > 1，如深度相机输出）的网格映射
+ * 无效点（NaN 空洞）解析时被丢弃，通过 pixelIndex 仍能找回每个点所在的行列
+ */
+export interface PointGrid {
+  width: number
+  height: number
+  // 每个点在网格中的位置：row * width + col，按点序递增
+  pixelIndex: Uint32Array
+}
+
 export interface PointCloudData {
   positions: Float32Array
   colors: Float32Array
   count: number
+  // 除坐标和颜色外的其他逐点字段：intensity、ring、timestamp、label、normal 等
+  attributes: { [name: string]: PointAttribute }
+  metadata?: PointCloudMetadata
+  // 坐标平移量：positions 存储的是减去 origin 后的相对坐标，以保留 float32 精度
+  origin?: [number, number, number]
+  grid?: PointGrid
 }
 
-export type SelectionMode = "orbit" | "lasso"
+export type SelectionMode = "orbit" | "lasso" | "rectangle" | "circle" | "polygon" | "box" | "wand"
+
+/** 初始相机位置：包围盒斜上方，或 VIEWPOINT 描述的传感器位姿 */
+export type CameraStart = "bounds" | "sensor"
 
 export interface LassoPoint {
   x: number
   y: number
 }
+
+/**
+ * 屏幕空间的选择区域（像素坐标，原点在左上角）
+ * 套索与点击多边形都是 polygon；矩形和圆形在 Worker 中走快速判定，不需要射线法
+ */
+export type ScreenSelectionShape =
+  | { kind: "polygon"; path: LassoPoint[] }
+  | { kind: "rectangle"; x0: number; y0: number; x1: number; y1: number }
+  | { kind: "circle"; cx: number; cy: number; radius: number }
+
+/**
+ * 选择区域：屏幕空间的形状，或 3D 有向包围盒
+ * box 的 inverseMatrix 把 positions（相对 origin 的坐标）变换到盒子局部空间（列主序 4x4），
+ * 局部坐标三个分量都在 [-0.5, 0.5] 内的点位于盒内
+ */
+export type SelectionShape = ScreenSelectionShape | { kind: "box"; inverseMatrix: number[] }
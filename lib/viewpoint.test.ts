@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest"
+import { bufferSource } from "./byte-source"
+import { parsePCD } from "./pcd-parser"
+import { getPointPosition } from "./point-attributes"
+import { writePCD } from "./pcd-writer"
+import type { PointCloudData } from "./types"
+import {
+  IDENTITY_VIEWPOINT,
+  applyViewpointTransform,
+  isIdentityViewpoint,
+  parseViewpoint,
+  sensorCameraPose,
+} from "./viewpoint"
+
+// 绕 Z 轴旋转 90°：(1, 0, 0) → (0, 1, 0)，(0, 1, 0) → (-1, 0, 0)
+const QUARTER_TURN_Z = [Math.SQRT1_2, 0, 0, Math.SQRT1_2]
+
+function expectClose(actual: ArrayLike<number>, expected: number[]) {
+  expect(actual.length).toBe(expected.length)
+  expected.forEach((value, i) => expect(actual[i]).toBeCloseTo(value, 5))
+}
+
+describe("parseViewpoint", () => {
+  it("normalizes the quaternion", () => {
+    const pose = parseViewpoint([1, 2, 3, 2, 0, 0, 0])
+    expect(pose).toEqual({ translation: [1, 2, 3], rotation: [1, 0, 0, 0] })
+  })
+
+  it("falls back to the identity rotation for a zero or missing quaternion", () => {
+    expect(parseViewpoint([0, 0, 0, 0, 0, 0, 0]).rotation).toEqual([1, 0, 0, 0])
+    expect(parseViewpoint([4, 5, 6])).toEqual({ translation: [4, 5, 6], rotation: [1, 0, 0, 0] })
+    expect(parseViewpoint([Number.NaN, 0, 0, 1, 0, 0, 0]).translation).toEqual([0, 0, 0])
+  })
+
+  it("treats the negated identity quaternion as identity", () => {
+    expect(isIdentityViewpoint(parseViewpoint(IDENTITY_VIEWPOINT))).toBe(true)
+    expect(isIdentityViewpoint(parseViewpoint([0, 0, 0, -1, 0, 0, 0]))).toBe(true)
+    expect(isIdentityViewpoint(parseViewpoint([0, 0, 1, 1, 0, 0, 0]))).toBe(false)
+    expect(isIdentityViewpoint(parseViewpoint([0, 0, 0, ...QUARTER_TURN_Z]))).toBe(false)
+  })
+})
+
+describe("applyViewpointTransform", () => {
+  it("rotates the relative positions and folds the translation into the origin", () => {
+    const positions = new Float32Array([1, 0, 0, 0, 1, 0, 0, 0, 1])
+    const origin = applyViewpointTransform(positions, 3, parseViewpoint([10, 20, 30, ...QUARTER_TURN_Z]))
+    expectClose(positions, [0, 1, 0, -1, 0, 0, 0, 0, 1])
+    expect(origin).toEqual([10, 20, 30])
+  })
+
+  it("rotates the previous origin before translating it", () => {
+    const positions = new Float32Array([1, 0, 0])
+    const pose = parseViewpoint([10, 20, 30, ...QUARTER_TURN_Z])
+    const origin = applyViewpointTransform(positions, 1, pose, [500_000, 0, 0])
+    expectClose(origin, [10, 500_020, 30])
+    expectClose(positions, [0, 1, 0])
+  })
+
+  it("only transforms the first count points", () => {
+    const positions = new Float32Array([1, 0, 0, 1, 0, 0])
+    applyViewpointTransform(positions, 1, parseViewpoint([0, 0, 0, ...QUARTER_TURN_Z]))
+    expectClose(positions, [0, 1, 0, 1, 0, 0])
+  })
+})
+
+describe("sensorCameraPose", () => {
+  it("looks along +Z with -Y up from the origin while points stay in the sensor frame", () => {
+    const pose = sensorCameraPose([10, 20, 30, ...QUARTER_TURN_Z], false)
+    expect(pose.position).toEqual([0, 0, 0])
+    expectClose(pose.forward, [0, 0, 1])
+    expectClose(pose.up, [0, -1, 0])
+  })
+
+  it("places the camera at the viewpoint once points are in the world frame", () => {
+    const pose = sensorCameraPose([10, 20, 30, ...QUARTER_TURN_Z], true)
+    expect(pose.position).toEqual([10, 20, 30])
+    expectClose(pose.forward, [0, 0, 1])
+    expectClose(pose.up, [1, 0, 0])
+  })
+})
+
+describe("parsePCD applyViewpoint", () => {
+  const cloud: PointCloudData = {
+    positions: new Float32Array([1, 0, 0, 0, 2, 0]),
+    colors: new Float32Array(6).fill(1),
+    count: 2,
+    attributes: {},
+    metadata: { viewpoint: [10, 20, 30, ...QUARTER_TURN_Z], width: 2, height: 1, colorEncoding: null },
+  }
+  const file = () => bufferSource(writePCD(cloud, { format: "binary" }))
+
+  it("keeps sensor-frame coordinates by default", async () => {
+    const parsed = await parsePCD(file())
+    expect(Array.from(parsed.positions)).toEqual([1, 0, 0, 0, 2, 0])
+    expect(parsed.metadata?.viewpointApplied).toBe(false)
+  })
+
+  it("transforms points into the world frame when asked", async () => {
+    const parsed = await parsePCD(file(), { applyViewpoint: true })
+    expectClose([...getPointPosition(parsed, 0)!, ...getPointPosition(parsed, 1)!], [10, 21, 30, 8, 20, 30])
+    expect(parsed.metadata?.viewpointApplied).toBe(true)
+    expect(parsed.metadata?.viewpoint).toEqual([10, 20, 30, ...QUARTER_TURN_Z])
+  })
+})
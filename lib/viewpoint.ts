@@ -0,0 +1,106 @@
+/**
+ * PCD VIEWPOINT 处理
+ *
+ * VIEWPOINT tx ty tz qw qx qy qz 描述采集时传感器在世界坐标系中的位姿，
+ * 点本身按传感器坐标系存储：p_world = R(q) * p_sensor + t
+ */
+
+export type Vec3 = [number, number, number]
+
+/** 未指定 VIEWPOINT 时的默认值（PCD 规范） */
+export const IDENTITY_VIEWPOINT = [0, 0, 0, 1, 0, 0, 0]
+
+export interface ViewpointPose {
+  translation: Vec3
+  // 单位四元数 w x y z
+  rotation: [number, number, number, number]
+}
+
+/**
+ * 解析 VIEWPOINT 的 7 个数值，缺失或无效的四元数按单位旋转处理
+ */
+export function parseViewpoint(values: number[]): ViewpointPose {
+  const [tx = 0, ty = 0, tz = 0, qw = 1, qx = 0, qy = 0, qz = 0] = values.map((v) => (Number.isFinite(v) ? v : 0))
+  const norm = Math.hypot(qw, qx, qy, qz)
+  const rotation: ViewpointPose["rotation"] = norm > 0 ? [qw / norm, qx / norm, qy / norm, qz / norm] : [1, 0, 0, 0]
+  return { translation: [tx, ty, tz], rotation }
+}
+
+export function isIdentityViewpoint(pose: ViewpointPose): boolean {
+  const [tx, ty, tz] = pose.translation
+  const [qw] = pose.rotation
+  return tx === 0 && ty === 0 && tz === 0 && Math.abs(qw) === 1
+}
+
+/** 四元数转 3x3 旋转矩阵（行优先） */
+function rotationMatrix([w, x, y, z]: ViewpointPose["rotation"]): number[] {
+  return [
+    1 - 2 * (y * y + z * z), 2 * (x * y - w * z), 2 * (x * z + w * y),
+    2 * (x * y + w * z), 1 - 2 * (x * x + z * z), 2 * (y * z - w * x),
+    2 * (x * z - w * y), 2 * (y * z + w * x), 1 - 2 * (x * x + y * y),
+  ]
+}
+
+/** 将传感器坐标系中的向量旋转到世界坐标系 */
+export function rotateByViewpoint(pose: ViewpointPose, [x, y, z]: Vec3): Vec3 {
+  const m = rotationMatrix(pose.rotation)
+  return [
+    m[0] * x + m[1] * y + m[2] * z,
+    m[3] * x + m[4] * y + m[5] * z,
+    m[6] * x + m[7] * y + m[8] * z,
+  ]
+}
+
+/**
+ * 就地把前 count 个点从传感器坐标系变换到视点所在的世界坐标系
+ *
+ * positions 是相对 origin 的坐标：R * (p + origin) + t = R * p + (R * origin + t)，
+ * 因此只旋转相对坐标，平移合并进新的 origin，大坐标不会在 float32 中丢失精度
+ *
+ * @returns 变换后的 origin
+ */
+export function applyViewpointTransform(
+  positions: Float32Array,
+  count: number,
+  pose: ViewpointPose,
+  origin: Vec3 = [0, 0, 0],
+): Vec3 {
+  const m = rotationMatrix(pose.rotation)
+
+  for (let i = 0; i < count; i++) {
+    const o = i * 3
+    const x = positions[o]
+    const y = positions[o + 1]
+    const z = positions[o + 2]
+    positions[o] = m[0] * x + m[1] * y + m[2] * z
+    positions[o + 1] = m[3] * x + m[4] * y + m[5] * z
+    positions[o + 2] = m[6] * x + m[7] * y + m[8] * z
+  }
+
+  const rotated = rotateByViewpoint(pose, origin)
+  const [tx, ty, tz] = pose.translation
+  return [rotated[0] + tx, rotated[1] + ty, rotated[2] + tz]
+}
+
+export interface SensorCameraPose {
+  position: Vec3
+  // 相机朝向与上方向（单位向量）
+  forward: Vec3
+  up: Vec3
+}
+
+/**
+ * 计算传感器在当前点坐标系中的相机位姿
+ *
+ * PCL 的传感器坐标系沿用相机光学坐标系约定：+Z 为视线方向、-Y 为上方向。
+ * - 点已变换到世界坐标系（applied）时，传感器位于 t、朝向由 q 决定
+ * - 点仍在传感器坐标系时，传感器位于原点、没有旋转
+ */
+export function sensorCameraPose(viewpoint: number[], applied: boolean): SensorCameraPose {
+  const pose: ViewpointPose = applied ? parseViewpoint(viewpoint) : parseViewpoint(IDENTITY_VIEWPOINT)
+  return {
+    position: [...pose.translation],
+    forward: rotateByViewpoint(pose, [0, 0, 1]),
+    up: rotateByViewpoint(pose, [0, -1, 0]),
+  }
+}
@@ -1,6 +1,27 @@
 /// <reference lib="webworker" />
 
-import type { LassoPoint, PointCloudData } from "../types"
+import type { PointCloudData, SelectionShape } from "../types"
+import { writePCD, type PCDDataFormat } from "../pcd-writer"
+import { DETECT_HEAD_BYTES, detectLoader, getLoader } from "../loader-registry"
+import { blobSource, bufferSource, type ParseProgress } from "../byte-source"
+import { PointCloudParseError, toParseErrorInfo, type ParseErrorInfo } from "../parse-error"
+import { combineSelection, type SelectionOp } from "../selection-ops"
+import { writeDepth, type DepthBuffer } from "../depth-buffer"
+import { classifyBoundsInBox, isInsideBox } from "../oriented-box"
+import { createQueryPredicate, type PointQuery } from "../point-query"
+import { createPicker, pickInIndex, type PickHit } from "../point-pick"
+import {
+  NODE_OUTSIDE,
+  NODE_PARTIAL,
+  buildPointIndex,
+  createProjectedBounds,
+  projectNodeBounds,
+  queryIndex,
+  type PointIndex,
+} from "../point-index"
+import { selectInBox, selectInScreenShape } from "../point-select"
+import { advanceShardGrow, createShardGrowState, type RegionGrowOptions, type ShardGrowState } from "../region-grow"
+import { transferableBuffers } from "../shared-memory"
 
 type Viewport = { width: number; height: number }
 
@@ -12,19 +33,109 @@ type InitMessage = {
 type ParseMessage = {
   type: "parse"
   payload: {
-    arrayBuffer: ArrayBuffer
+    // 优先传入 File：Worker 通过 slice 分块读取，避免整个文件进入内存
+    file?: Blob
+    arrayBuffer?: ArrayBuffer
+    // 用于按扩展名识别没有魔数的格式
+    fileName?: string
+    // 显式指定加载器 id，跳过自动识别
+    format?: string
+    // 加载器专用选项，如分隔文本的列映射
+    options?: unknown
   }
 }
 
 type SelectMessage = {
   type: "select"
   payload: {
-    path: LassoPoint[]
+    shape: SelectionShape
     viewProjectionMatrix: Float32Array
     viewport: Viewport
     // 可选的范围参数，用于并行处理
     startIndex?: number
     endIndex?: number
+    // 与已有选择的组合方式；current 只包含本分片范围内的已选索引（升序）
+    op?: SelectionOp
+    current?: Uint32Array
+    // 只选可见点：已合并所有分片的深度缓冲，深度不超过最近深度 + tolerance 的点才算可见
+    depth?: { buffer: DepthBuffer; tolerance: number }
+    // 裁剪盒的逆矩阵：盒外的点被 GPU 隐藏，也不参与选择
+    crop?: number[]
+  }
+}
+
+// 只选可见点的第一步：每个分片把自己的点光栅化到深度缓冲
+type DepthMessage = {
+  type: "depth"
+  payload: {
+    viewProjectionMatrix: Float32Array
+    viewport: Viewport
+    buffer: DepthBuffer
+    startIndex?: number
+    endIndex?: number
+    // 裁剪盒外的点不可见，不参与遮挡
+    crop?: number[]
+  }
+}
+
+// 按属性值选点，分片与组合方式和 select 相同
+type QueryMessage = {
+  type: "query"
+  payload: {
+    query: PointQuery
+    startIndex?: number
+    endIndex?: number
+    op?: SelectionOp
+    current?: Uint32Array
+  }
+}
+
+/**
+ * 拾取光标附近的点：屏幕距离不超过 radius（像素）的候选点中
+ * - 不传 maxDepth：返回最靠前（裁剪空间 w 最小）的点，用于确定前景深度
+ * - 传入 maxDepth：只考虑深度不超过 maxDepth 的点，返回离光标最近的点
+ */
+type PickMessage = {
+  type: "pick"
+  payload: {
+    viewProjectionMatrix: Float32Array
+    viewport: Viewport
+    x: number
+    y: number
+    radius: number
+    maxDepth?: number
+    startIndex?: number
+    endIndex?: number
+    // 只在这些点中拾取（本分片范围内的已选索引），用于只显示选中点时
+    subset?: Uint32Array
+    // 裁剪盒外的点不可见，不能被拾取
+    crop?: number[]
+  }
+}
+
+// 为分片建立空间索引，init 之后由主线程发起；select / depth / pick / grow 也会按需建立
+type IndexMessage = {
+  type: "index"
+  payload: {
+    startIndex?: number
+    endIndex?: number
+  }
+}
+
+// 魔棒：分片区域生长的一轮，由主线程按轮次协调，同一 session 的各轮之间保留本分片的生长状态
+type GrowMessage = {
+  type: "grow"
+  payload: {
+    session: number
+    startIndex?: number
+    endIndex?: number
+    options?: RegionGrowOptions
+    // 上一轮各分片新加入区域的点，第一轮为种子点
+    frontier?: Uint32Array
+    // 本轮在本分片内最多展开的点数
+    budget?: number
+    // 生长结束或被取消，丢弃该 session 的状态
+    release?: boolean
   }
 }
 
@@ -36,9 +147,31 @@ type ColorMessage = {
   }
 }
 
+type ExportMessage = {
+  type: "export"
+  payload: {
+    format: PCDDataFormat
+    // 只导出选中的点
+    indices?: Uint32Array
+    // 主线程上色后的最新颜色；不传则使用 init 时的颜色
+    colors?: Float32Array
+  }
+}
+
 type WorkerMessage = {
   id: number
-} & (InitMessage | ParseMessage | SelectMessage | ColorMessage)
+} & (
+  | InitMessage
+  | ParseMessage
+  | SelectMessage
+  | DepthMessage
+  | QueryMessage
+  | PickMessage
+  | GrowMessage
+  | IndexMessage
+  | ColorMessage
+  | ExportMessage
+)
 
 type SuccessResponse =
   | {
@@ -47,32 +180,72 @@ type SuccessResponse =
     }
   | {
       type: "parse"
-      result: { data: PointCloudData }
+      result: { data: PointCloudData; format: string }
+    }
+  | {
+      type: "depth"
+      result: { depth: Float32Array }
     }
   | {
       type: "select"
       result: { indices: Uint32Array; searchTime: number }
     }
+  | {
+      type: "query"
+      result: { indices: Uint32Array; searchTime: number }
+    }
+  | {
+      type: "pick"
+      result: PickHit
+    }
+  | {
+      type: "grow"
+      result: { found: Uint32Array; pending: boolean }
+    }
+  | {
+      type: "index"
+      result: { nodeCount: number; buildTime: number }
+    }
   | {
       type: "color"
       result: { colors: ArrayBuffer; coloringTime: number }
     }
+  | {
+      type: "export"
+      result: { file: ArrayBuffer; exportTime: number }
+    }
+
+// 解析过程中的进度通知，与最终响应使用相同的 id
+interface ProgressMessage {
+  id: number
+  progress: ParseProgress
+}
 
 interface WorkerResponse {
   id: number
   success: boolean
   message?: string
+  // 解析失败时附带的结构化错误（错误码、位置、期望值与实际值）
+  error?: ParseErrorInfo
   data?: SuccessResponse
   transfer?: Transferable[]
 }
 
 let positions: Float32Array | null = null
 let colors: Float32Array | null = null
+let attributes: PointCloudData["attributes"] = {}
+let metadata: PointCloudData["metadata"]
+let grid: PointCloudData["grid"]
+let origin: PointCloudData["origin"]
 let pointCount = 0
+// 按点序号范围缓存的空间索引（通常是本 Worker 的分片），重新 init 后失效
+const pointIndexes = new Map<string, PointIndex>()
+// 正在进行的魔棒生长在本分片内的状态
+let growState: (ShardGrowState & { session: number }) | null = null
 
 const ctx: DedicatedWorkerGlobalScope = self as unknown as DedicatedWorkerGlobalScope
 
-ctx.onmessage = (event: MessageEvent<WorkerMessage>) => {
+ctx.onmessage = async (event: MessageEvent<WorkerMessage>) => {
   const { id, type, payload } = event.data
 
   try {
@@ -83,26 +256,41 @@ ctx.onmessage = (event: MessageEvent<WorkerMessage>) => {
         const data = payload as PointCloudData
         positions = data.positions
         colors = data.colors
+        attributes = data.attributes ?? {}
+        metadata = data.metadata
+        grid = data.grid
+        origin = data.origin
         pointCount = data.count
+        pointIndexes.clear()
+        growState = null
 
         response = { id, success: true, data: { type: "init", result: { count: pointCount } } }
         break
       }
       case "parse": {
-        // 🔧 修复：解析 PCD 文件，但不保存到全局变量
+        // 🔧 修复：解析文件，但不保存到全局变量
         // 因为数据会通过 transfer 发送到主线程，导致 buffer 被清空
         // 主线程会在接收后通过 init 消息重新初始化所有 Worker
-        const result = handleParse((payload as ParseMessage["payload"]).arrayBuffer)
+        // 共享内存模式下数组位于 SharedArrayBuffer 上，不能也不需要 transfer
+        const result = await handleParse(id, payload as ParseMessage["payload"])
         response = {
           id,
           success: true,
           data: { type: "parse", result },
-          transfer: [result.data.positions.buffer, result.data.colors.buffer],
+          transfer: transferableBuffers([
+            result.data.positions,
+            result.data.colors,
+            ...Object.values(result.data.attributes).map((attribute) => attribute.array),
+            ...(result.data.grid ? [result.data.grid.pixelIndex] : []),
+          ]),
         }
         break
       }
       case "select": {
-        const result = handleSelect(payload as SelectMessage["payload"])
+        const { op = "replace", current, ...selectPayload } = payload as SelectMessage["payload"]
+        const hits = handleSelect(selectPayload)
+        // 在 Worker 内完成集合运算，主线程只需按分片顺序拼接
+        const result = { ...hits, indices: combineSelection(op, current ?? new Uint32Array(), hits.indices) }
         response = {
           id,
           success: true,
@@ -111,6 +299,54 @@ ctx.onmessage = (event: MessageEvent<WorkerMessage>) => {
         }
         break
       }
+      case "query": {
+        const { op = "replace", current, ...queryPayload } = payload as QueryMessage["payload"]
+        const hits = handleQuery(queryPayload)
+        const result = { ...hits, indices: combineSelection(op, current ?? new Uint32Array(), hits.indices) }
+        response = {
+          id,
+          success: true,
+          data: { type: "query", result },
+          transfer: [result.indices.buffer],
+        }
+        break
+      }
+      case "pick": {
+        const result = handlePick(payload as PickMessage["payload"])
+        response = { id, success: true, data: { type: "pick", result } }
+        break
+      }
+      case "index": {
+        const { startIndex, endIndex } = payload as IndexMessage["payload"]
+        const start = performance.now()
+        const { nodeCount } = getPointIndex(startIndex ?? 0, endIndex ?? pointCount)
+        response = {
+          id,
+          success: true,
+          data: { type: "index", result: { nodeCount, buildTime: performance.now() - start } },
+        }
+        break
+      }
+      case "grow": {
+        const result = handleGrow(payload as GrowMessage["payload"])
+        response = {
+          id,
+          success: true,
+          data: { type: "grow", result },
+          transfer: [result.found.buffer],
+        }
+        break
+      }
+      case "depth": {
+        const result = handleDepth(payload as DepthMessage["payload"])
+        response = {
+          id,
+          success: true,
+          data: { type: "depth", result },
+          transfer: [result.depth.buffer],
+        }
+        break
+      }
       case "color": {
         const result = handleColor(payload as ColorMessage["payload"])
         response = {
@@ -121,6 +357,16 @@ ctx.onmessage = (event: MessageEvent<WorkerMessage>) => {
         }
         break
       }
+      case "export": {
+        const result = handleExport(payload as ExportMessage["payload"])
+        response = {
+          id,
+          success: true,
+          data: { type: "export", result },
+          transfer: [result.file],
+        }
+        break
+      }
       default:
         throw new Error(`Unsupported message type: ${String(type)}`)
     }
@@ -132,118 +378,101 @@ ctx.onmessage = (event: MessageEvent<WorkerMessage>) => {
     }
   } catch (error) {
     const message = error instanceof Error ? error.message : "Unknown worker error"
-    ctx.postMessage({ id, success: false, message })
+    const response: WorkerResponse = { id, success: false, message }
+    if (type === "parse") {
+      response.error = toParseErrorInfo(error)
+    }
+    ctx.postMessage(response)
   }
 }
 
 function handleSelect({
-  path,
+  shape,
   viewProjectionMatrix,
   viewport,
   startIndex,
   endIndex,
+  depth,
+  crop,
 }: SelectMessage["payload"]): { indices: Uint32Array; searchTime: number } {
   if (!positions) {
     throw new Error("Point data is not initialized")
   }
 
   const start = performance.now()
+  const index = getPointIndex(startIndex ?? 0, endIndex ?? pointCount)
+
+  // 3D 包围盒：直接在点的坐标空间判断，不需要投影
+  const indices =
+    shape.kind === "box"
+      ? selectInBox(positions, index, shape.inverseMatrix, crop)
+      : selectInScreenShape(positions, index, { shape, viewProjectionMatrix, viewport, depth, crop })
+  return { indices, searchTime: performance.now() - start }
+}
 
-  // 快速返回
-  if (path.length < 3 || viewport.width === 0 || viewport.height === 0 || viewProjectionMatrix.length !== 16) {
-    return { indices: new Uint32Array(), searchTime: performance.now() - start }
+/**
+ * 逐点判定查询条件，只处理本分片范围
+ * 颜色条件使用 init 时的原始颜色，不受主线程上色影响
+ */
+function handleQuery({ query, startIndex, endIndex }: QueryMessage["payload"]): {
+  indices: Uint32Array
+  searchTime: number
+} {
+  if (!positions || !colors) {
+    throw new Error("Point data is not initialized")
   }
 
-  // 确定处理范围（支持并行分片）
+  const start = performance.now()
   const rangeStart = startIndex ?? 0
   const rangeEnd = endIndex ?? pointCount
+  const matches = createQueryPredicate(query, { positions, colors, attributes, origin })
 
-  // 预处理套索路径：拆分为两个连续数组，减少属性访问
-  const pathLength = path.length
-  const pathXs = new Float32Array(pathLength)
-  const pathYs = new Float32Array(pathLength)
-  let minX = Number.POSITIVE_INFINITY
-  let maxX = Number.NEGATIVE_INFINITY
-  let minY = Number.POSITIVE_INFINITY
-  let maxY = Number.NEGATIVE_INFINITY
-
-  for (let i = 0; i < pathLength; i++) {
-    const p = path[i]
-    const x = p.x
-    const y = p.y
-    pathXs[i] = x
-    pathYs[i] = y
-    if (x < minX) minX = x
-    if (x > maxX) maxX = x
-    if (y < minY) minY = y
-    if (y > maxY) maxY = y
-  }
-
-  // 🚀 预分配数组，避免动态扩容
-  const rangeSize = rangeEnd - rangeStart
-  const selectedBuffer = new Uint32Array(rangeSize)
+  const selectedBuffer = new Uint32Array(rangeEnd - rangeStart)
   let selectedCount = 0
-
-  const e = viewProjectionMatrix
-  const width = viewport.width
-  const height = viewport.height
-
-  // 预取矩阵元素（列主序）
-  const m00 = e[0],
-    m01 = e[1],
-    m02 = e[2],
-    m03 = e[3]
-  const m10 = e[4],
-    m11 = e[5],
-    m12 = e[6],
-    m13 = e[7]
-  const m20 = e[8],
-    m21 = e[9],
-    m22 = e[10],
-    m23 = e[11]
-  const m30 = e[12],
-    m31 = e[13],
-    m32 = e[14],
-    m33 = e[15]
-
-  // 🚀 只处理指定范围的点
   for (let i = rangeStart; i < rangeEnd; i++) {
-    const idx = i * 3
-    const x = positions[idx]
-    const y = positions[idx + 1]
-    const z = positions[idx + 2]
-
-    // 变换到裁剪空间
-    const clipX = m00 * x + m10 * y + m20 * z + m30
-    const clipY = m01 * x + m11 * y + m21 * z + m31
-    const clipZ = m02 * x + m12 * y + m22 * z + m32
-    const clipW = m03 * x + m13 * y + m23 * z + m33
-
-    if (clipW === 0) continue
-
-    const invW = 1 / clipW
-    const ndcX = clipX * invW
-    const ndcY = clipY * invW
-    const ndcZ = clipZ * invW
+    if (matches(i)) {
+      selectedBuffer[selectedCount++] = i
+    }
+  }
 
-    // 仅保留视锥内点
-    if (ndcZ >= 1) continue
+  return { indices: selectedBuffer.slice(0, selectedCount), searchTime: performance.now() - start }
+}
 
-    const screenX = (ndcX + 1) * 0.5 * width
-    const screenY = (-ndcY + 1) * 0.5 * height
+/**
+ * 魔棒生长的一轮：在本分片内查找 frontier 的邻点并继续生长，返回本轮新加入的点
+ * 新的 session 开始时建立本分片的生长状态，空间索引与 select 共用
+ */
+function handleGrow({
+  session,
+  startIndex,
+  endIndex,
+  options,
+  frontier,
+  budget = Number.POSITIVE_INFINITY,
+  release,
+}: GrowMessage["payload"]): { found: Uint32Array; pending: boolean } {
+  if (!positions || !colors) {
+    throw new Error("Point data is not initialized")
+  }
 
-    // 边界框快速剔除
-    if (screenX < minX || screenX > maxX || screenY < minY || screenY > maxY) continue
+  if (release) {
+    if (growState?.session === session) growState = null
+    return { found: new Uint32Array(), pending: false }
+  }
 
-    if (isPointInPolygon(screenX, screenY, pathXs, pathYs)) {
-      selectedBuffer[selectedCount++] = i
+  if (growState?.session !== session) {
+    if (!options) {
+      throw new Error("Region growing options are missing")
+    }
+    const start = startIndex ?? 0
+    const end = endIndex ?? pointCount
+    growState = {
+      ...createShardGrowState({ positions, colors, attributes }, getPointIndex(start, end), start, end, options),
+      session,
     }
   }
 
-  // 🚀 返回实际大小的数组
-  const indices = selectedBuffer.subarray(0, selectedCount)
-  const searchTime = performance.now() - start
-  return { indices: new Uint32Array(indices), searchTime }
+  return advanceShardGrow(growState, frontier ?? new Uint32Array(), budget)
 }
 
 function handleColor({ indices, color }: ColorMessage["payload"]): { colors: ArrayBuffer; coloringTime: number } {
@@ -268,205 +497,135 @@ function handleColor({ indices, color }: ColorMessage["payload"]): { colors: Arr
   return { colors: updatedColors.buffer, coloringTime }
 }
 
-// 优化的射线法：使用预拆分的 x/y 数组避免属性访问
-function isPointInPolygon(px: number, py: number, pathXs: Float32Array, pathYs: Float32Array): boolean {
-  let inside = false
-  const n = pathXs.length
-  for (let i = 0, j = n - 1; i < n; j = i++) {
-    const xi = pathXs[i]
-    const yi = pathYs[i]
-    const xj = pathXs[j]
-    const yj = pathYs[j]
-
-    const intersect = yi > py !== yj > py && px < ((xj - xi) * (py - yi)) / (yj - yi) + xi
-    if (intersect) inside = !inside
+function handleExport({ format, indices, colors: latestColors }: ExportMessage["payload"]): {
+  file: ArrayBuffer
+  exportTime: number
+} {
+  if (!positions || !colors) {
+    throw new Error("Point data is not initialized")
   }
-  return inside
-}
 
-// ===== PCD 解析逻辑 =====
-
-interface PCDHeader {
-  version: string
-  fields: string[]
-  size: number[]
-  type: string[]
-  count: number[]
-  width: number
-  height: number
-  viewpoint: number[]
-  points: number
-  data: "ascii" | "binary" | "binary_compressed"
-  headerLen: number
-  offset: { [key: string]: number }
-  rowSize: number
+  const start = performance.now()
+  const file = writePCD(
+    { positions, colors: latestColors ?? colors, count: pointCount, attributes, metadata, grid, origin },
+    { format, indices },
+  )
+  return { file, exportTime: performance.now() - start }
 }
 
-function parseHeader(data: string): PCDHeader {
-  const header: Partial<PCDHeader> = {
-    version: "",
-    fields: [],
-    size: [],
-    type: [],
-    count: [],
-    width: 0,
-    height: 0,
-    viewpoint: [0, 0, 0, 1, 0, 0, 0],
-    points: 0,
-    data: "ascii",
-    offset: {},
-    rowSize: 0,
+/**
+ * 把分片内的点光栅化到深度缓冲，每格保留最近的深度（裁剪空间 w）
+ * 只写入选择区域覆盖的格子，投影范围不与深度缓冲相交的索引节点整体跳过
+ */
+function handleDepth({
+  viewProjectionMatrix: e,
+  viewport,
+  buffer,
+  startIndex,
+  endIndex,
+  crop,
+}: DepthMessage["payload"]): { depth: Float32Array } {
+  if (!positions) {
+    throw new Error("Point data is not initialized")
   }
 
-  const lines = data.split("\n")
-  let headerLen = 0
-
-  for (const line of lines) {
-    headerLen += line.length + 1
-    const parts = line.trim().split(/\s+/)
-
-    if (parts.length === 0) continue
+  const points = positions
+  const index = getPointIndex(startIndex ?? 0, endIndex ?? pointCount)
+  const width = viewport.width
+  const height = viewport.height
+  const regionX1 = buffer.x0 + buffer.cols * buffer.cellSize
+  const regionY1 = buffer.y0 + buffer.rows * buffer.cellSize
+
+  const projected = createProjectedBounds()
+  const { order } = index
+  queryIndex(
+    index,
+    (bounds, offset) => {
+      if (crop && classifyBoundsInBox(crop, bounds, offset) === NODE_OUTSIDE) return NODE_OUTSIDE
+      const p = projectNodeBounds(bounds, offset, e, width, height, projected)
+      if (p.allBehind || p.allBeyondFar) return NODE_OUTSIDE
+      if (!p.behind && (p.maxX < buffer.x0 || p.minX > regionX1 || p.maxY < buffer.y0 || p.minY > regionY1)) {
+        return NODE_OUTSIDE
+      }
+      return NODE_PARTIAL
+    },
+    (from, to) => {
+      for (let k = from; k < to; k++) {
+        const idx = order[k] * 3
+        const x = points[idx]
+        const y = points[idx + 1]
+        const z = points[idx + 2]
+        if (crop && !isInsideBox(crop, x, y, z)) continue
+
+        const clipW = e[3] * x + e[7] * y + e[11] * z + e[15]
+        // 相机后方的点不参与遮挡
+        if (clipW <= 0) continue
+
+        const invW = 1 / clipW
+        const ndcZ = (e[2] * x + e[6] * y + e[10] * z + e[14]) * invW
+        if (ndcZ >= 1) continue
+
+        const screenX = ((e[0] * x + e[4] * y + e[8] * z + e[12]) * invW + 1) * 0.5 * width
+        const screenY = (-(e[1] * x + e[5] * y + e[9] * z + e[13]) * invW + 1) * 0.5 * height
+
+        writeDepth(buffer, screenX, screenY, clipW)
+      }
+    },
+  )
 
-    switch (parts[0]) {
-      case "VERSION":
-        header.version = parts[1]
-        break
-      case "FIELDS":
-        header.fields = parts.slice(1)
-        break
-      case "SIZE":
-        header.size = parts.slice(1).map(Number)
-        break
-      case "TYPE":
-        header.type = parts.slice(1)
-        break
-      case "COUNT":
-        header.count = parts.slice(1).map(Number)
-        break
-      case "WIDTH":
-        header.width = Number.parseInt(parts[1], 10)
-        break
-      case "HEIGHT":
-        header.height = Number.parseInt(parts[1], 10)
-        break
-      case "VIEWPOINT":
-        header.viewpoint = parts.slice(1).map(Number)
-        break
-      case "POINTS":
-        header.points = Number.parseInt(parts[1], 10)
-        break
-      case "DATA":
-        header.data = parts[1].toLowerCase() as "ascii" | "binary" | "binary_compressed"
-        break
-    }
+  return { depth: buffer.depth }
+}
 
-    if (parts[0] === "DATA") break
+function handlePick({ startIndex, endIndex, subset, ...query }: PickMessage["payload"]): PickHit {
+  if (!positions) {
+    throw new Error("Point data is not initialized")
   }
 
-  header.headerLen = headerLen
-
-  // Calculate offsets
-  let offset = 0
-  for (let i = 0; i < header.fields!.length; i++) {
-    header.offset![header.fields![i]] = offset
-    offset += header.size![i] * (header.count![i] || 1)
+  if (!subset) {
+    return pickInIndex(positions, getPointIndex(startIndex ?? 0, endIndex ?? pointCount), query)
   }
-  header.rowSize = offset
-
-  return header as PCDHeader
+  const picker = createPicker(positions, query)
+  for (let k = 0; k < subset.length; k++) picker.consider(subset[k])
+  return picker.result()
 }
 
-function handleParse(arrayBuffer: ArrayBuffer): { data: PointCloudData } {
-  // 1. 解析文件头部
-  const textDecoder = new TextDecoder()
-  const headerText = textDecoder.decode(new Uint8Array(arrayBuffer, 0, Math.min(4096, arrayBuffer.byteLength)))
-  const header = parseHeader(headerText)
-
-  // 2. 初始化存储数组
-  const positions: number[] = []
-  const colorsArray: number[] = []
-
-  // 3. 根据数据格式解析点云数据
-  if (header.data === "ascii") {
-    // ASCII 格式
-    const text = textDecoder.decode(arrayBuffer)
-    const lines = text.split("\n")
-    let dataStarted = false
-
-    for (const line of lines) {
-      if (line.trim().startsWith("DATA")) {
-        dataStarted = true
-        continue
-      }
-
-      if (!dataStarted) continue
-
-      const parts = line.trim().split(/\s+/)
-      if (parts.length < 3) continue
-
-      const x = Number.parseFloat(parts[header.fields.indexOf("x")])
-      const y = Number.parseFloat(parts[header.fields.indexOf("y")])
-      const z = Number.parseFloat(parts[header.fields.indexOf("z")])
+/** 取得（必要时建立）覆盖 [start, end) 的空间索引 */
+function getPointIndex(start: number, end: number): PointIndex {
+  const key = `${start}:${end}`
+  let index = pointIndexes.get(key)
+  if (!index) {
+    index = buildPointIndex(positions!, start, end)
+    pointIndexes.set(key, index)
+  }
+  return index
+}
 
-      if (isNaN(x) || isNaN(y) || isNaN(z)) continue
+// 多边形至少 3 个顶点，矩形和圆形不能退化为线或点
+// ===== 文件解析：按格式分发到已注册的加载器 =====
 
-      positions.push(x, y, z)
+async function handleParse(
+  id: number,
+  { file, arrayBuffer, fileName, format, options }: ParseMessage["payload"],
+): Promise<{ data: PointCloudData; format: string }> {
+  const source = file ? blobSource(file) : arrayBuffer ? bufferSource(arrayBuffer) : null
+  if (!source) {
+    throw new Error("No file to parse")
+  }
 
-      // 解析 RGB 颜色
-      const rgbIndex = header.fields.indexOf("rgb")
-      if (rgbIndex !== -1 && parts[rgbIndex]) {
-        const rgb = Number.parseFloat(parts[rgbIndex])
-        const intRgb = new Float32Array([rgb])
-        const view = new DataView(intRgb.buffer)
-        const intVal = view.getInt32(0, true)
-        const r = ((intVal >> 16) & 0xff) / 255
-        const g = ((intVal >> 8) & 0xff) / 255
-        const b = (intVal & 0xff) / 255
-        colorsArray.push(r, g, b)
-      } else {
-        colorsArray.push(1, 1, 1)
-      }
-    }
-  } else if (header.data === "binary") {
-    // 二进制格式
-    const dataView = new DataView(arrayBuffer, header.headerLen)
-
-    const xOffset = header.offset["x"] ?? 0
-    const yOffset = header.offset["y"] ?? 4
-    const zOffset = header.offset["z"] ?? 8
-    const rgbOffset = header.offset["rgb"]
-
-    for (let i = 0; i < header.points; i++) {
-      const rowOffset = i * header.rowSize
-
-      const x = dataView.getFloat32(rowOffset + xOffset, true)
-      const y = dataView.getFloat32(rowOffset + yOffset, true)
-      const z = dataView.getFloat32(rowOffset + zOffset, true)
-
-      if (isNaN(x) || isNaN(y) || isNaN(z)) continue
-
-      positions.push(x, y, z)
-
-      if (rgbOffset !== undefined) {
-        const rgb = dataView.getFloat32(rowOffset + rgbOffset, true)
-        const intRgb = new Float32Array([rgb])
-        const view = new DataView(intRgb.buffer)
-        const intVal = view.getInt32(0, true)
-        const r = ((intVal >> 16) & 0xff) / 255
-        const g = ((intVal >> 8) & 0xff) / 255
-        const b = (intVal & 0xff) / 255
-        colorsArray.push(r, g, b)
-      } else {
-        colorsArray.push(1, 1, 1)
-      }
-    }
+  const head = await source.read(0, Math.min(DETECT_HEAD_BYTES, source.size))
+  const loader = format ? getLoader(format) : detectLoader(head, fileName)
+  if (!loader) {
+    throw new PointCloudParseError(
+      "UNKNOWN_FORMAT",
+      format ? `Unknown point cloud format: ${format}` : "Unrecognized point cloud format",
+      { actual: format ?? fileName },
+    )
   }
 
-  return {
-    data: {
-      positions: new Float32Array(positions),
-      colors: new Float32Array(colorsArray),
-      count: positions.length / 3,
-    },
+  const onProgress = (progress: ParseProgress) => {
+    const message: ProgressMessage = { id, progress }
+    ctx.postMessage(message)
   }
+
+  return { data: await loader.parse(source, options, onProgress), format: loader.id }
 }
@@ -6,7 +6,19 @@ const nextConfig = {
   images: {
     unoptimized: true,
   },
- 
+  // 跨源隔离后才能使用 SharedArrayBuffer，解析结果由所有 Worker 共享而不是各复制一份
+  // require-corp 要求跨源资源带 CORP / CORS 头，目前页面只加载同源资源
+  async headers() {
+    return [
+      {
+        source: "/:path*",
+        headers: [
+          { key: "Cross-Origin-Opener-Policy", value: "same-origin" },
+          { key: "Cross-Origin-Embedder-Policy", value: "require-corp" },
+        ],
+      },
+    ]
+  },
 }
 
-export default nextConfig
\ No newline at end of file
+export default nextConfig